@@ -1,11 +1,16 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAgentData } from './hooks/useAgentData';
+import { useAuth, hasRole } from './hooks/useAuth';
 import KpiCard from './components/KpiCard';
-import AccountsTable from './components/AccountsTable';
-import { AgentState, StrategyType } from './types';
+import AccountsTable, { AgentAction } from './components/AccountsTable';
+import { AgentState, AuthUser, EmergencyFlattenResult, StrategyType } from './types';
 import PositionsTable from './components/PositionsTable';
 import LogViewer from './components/LogViewer';
 import Reports from './components/Reports';
+import TradesTable from './components/TradesTable';
+import DecisionTrail from './components/DecisionTrail';
+import LoginForm from './components/LoginForm';
+import StrategyEditor from './components/StrategyEditor';
 
 const FlipEdgeLogo: React.FC = () => (
     <svg className="h-8 w-auto text-white" viewBox="0 0 230 122" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -14,8 +19,79 @@ const FlipEdgeLogo: React.FC = () => (
 );
 
 
-const App: React.FC = () => {
-    const { data, loading, error } = useAgentData();
+const LoadingScreen: React.FC = () => (
+    <div className="flex items-center justify-center min-h-screen text-white">
+        <div className="text-center">
+            <FlipEdgeLogo />
+            <p className="mt-4 text-lg">Initializing Dashboard...</p>
+        </div>
+    </div>
+);
+
+interface DashboardProps {
+    user: AuthUser;
+    onLogout: () => void;
+    onSessionCheck: () => void;
+}
+
+const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onSessionCheck }) => {
+    const { data, loading, error, tradesVersion } = useAgentData();
+    const [decisionTradeId, setDecisionTradeId] = useState<string | null>(null);
+    const [showStrategies, setShowStrategies] = useState(false);
+    const canOperate = hasRole(user.role, 'operator');
+
+    // A dropped stream may just mean the session expired; if so, this sends the user back to sign in.
+    useEffect(() => {
+        if (error) onSessionCheck();
+    }, [error, onSessionCheck]);
+
+    const handleAgentAction = async (agentId: string, action: AgentAction) => {
+        try {
+            const response = await fetch(`/api/agents/${encodeURIComponent(agentId)}/${action}`, { method: 'POST' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.message || `Failed to ${action} agent ${agentId}.`);
+            }
+        } catch (err) {
+            console.error(`Error sending ${action} to agent ${agentId}:`, err);
+            alert(`Error: ${err instanceof Error ? err.message : 'An unknown error occurred.'}`);
+        }
+    };
+
+    const handleKillSwitch = async () => {
+        const confirmation = window.prompt('EMERGENCY: This stops every agent and closes ALL open positions at market. Type FLATTEN to confirm.');
+        if (confirmation !== 'FLATTEN') return;
+        try {
+            const response = await fetch('/api/emergency/flatten-all', { method: 'POST' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.message || 'Kill switch request failed.');
+            }
+            const results: EmergencyFlattenResult[] = result.results;
+            const summary = results
+                .map(r => `${r.agentId}: ${r.stillOpen.length > 0 ? `STILL OPEN ${r.stillOpen.join(', ')}` : 'flat'}${r.errors.length > 0 ? ` (${r.errors.join('; ')})` : ''}`)
+                .join('\n');
+            const lockWarning = result.killSwitchError ? `\n\nWARNING: The kill switch could not be saved (${result.killSwitchError}). Trading unlocks if the worker restarts.` : '';
+            alert(`${result.allFlat ? 'All agents stopped and flat.' : 'WARNING: Some positions are still open. Check the exchange!'}\n\n${summary}${lockWarning}`);
+        } catch (err) {
+            console.error('Error engaging kill switch:', err);
+            alert(`Error: ${err instanceof Error ? err.message : 'An unknown error occurred.'}`);
+        }
+    };
+
+    const handleRearm = async () => {
+        if (!window.confirm('Re-arm trading? Agents stay stopped until started again.')) return;
+        try {
+            const response = await fetch('/api/emergency/rearm', { method: 'POST' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.message || 'Failed to re-arm.');
+            }
+        } catch (err) {
+            console.error('Error re-arming kill switch:', err);
+            alert(`Error: ${err instanceof Error ? err.message : 'An unknown error occurred.'}`);
+        }
+    };
 
     const handleStartTrading = async () => {
         try {
@@ -36,17 +112,10 @@ const App: React.FC = () => {
     };
 
     if (loading && !data) {
-        return (
-            <div className="flex items-center justify-center min-h-screen text-white">
-                <div className="text-center">
-                    <FlipEdgeLogo />
-                    <p className="mt-4 text-lg">Initializing Dashboard...</p>
-                </div>
-            </div>
-        );
+        return <LoadingScreen />;
     }
 
-    if (error) {
+    if (error && !data) {
         return (
             <div className="flex items-center justify-center min-h-screen text-white">
                 <div className="bg-red-900/50 border border-red-500 rounded-lg p-8 text-center max-w-lg">
@@ -61,9 +130,13 @@ const App: React.FC = () => {
     if (!data) return null;
 
     const profitAgents = data.agents.filter(a => a.type === StrategyType.PROFIT);
-    const totalPnl = profitAgents.reduce((sum, a) => sum + a.pnl, 0);
+    const lossAgents = data.agents.filter(a => a.type === StrategyType.LOSS);
+    const netPnl = data.agents.reduce((sum, a) => sum + a.pnl, 0);
+    const longPnl = data.agents.reduce((sum, a) => sum + a.longPnl, 0);
+    const shortPnl = data.agents.reduce((sum, a) => sum + a.shortPnl, 0);
     
-    const hasStarted = data.agents.length > 0 && data.agents.some(a => a.state !== AgentState.STOPPED);
+    const hasStarted = data.agents.length > 0 && data.agents.every(a => a.state !== AgentState.STOPPED);
+    const isLocked = data.killSwitch.engaged;
 
     return (
         <div className="min-h-screen bg-gray-900 text-gray-200 p-4 lg:p-8">
@@ -74,30 +147,92 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex items-center gap-4">
                     <div className="text-sm text-gray-400 text-right">
-                        Last update: {new Date().toLocaleTimeString()}
+                        <div>Last update: {new Date().toLocaleTimeString()}</div>
+                        <div>
+                            {user.username} ({user.role}) ·{' '}
+                            <button onClick={onLogout} className="text-blue-400 hover:text-blue-300">Sign out</button>
+                        </div>
                     </div>
-                     <button
-                        onClick={handleStartTrading}
-                        disabled={hasStarted}
-                        className="bg-green-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-green-700 transition duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    <button
+                        onClick={() => setShowStrategies(true)}
+                        className="bg-gray-700 text-white font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition duration-300"
                     >
-                        {hasStarted ? 'Agents Active' : 'Start Trading'}
+                        Strategies
                     </button>
+                    {canOperate && (
+                        <>
+                            <button
+                                onClick={handleStartTrading}
+                                disabled={hasStarted || isLocked}
+                                className="bg-green-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-green-700 transition duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                            >
+                                {hasStarted ? 'Agents Active' : 'Start Trading'}
+                            </button>
+                            <button
+                                onClick={handleKillSwitch}
+                                className="bg-red-700 text-white font-bold py-2 px-4 rounded-lg hover:bg-red-800 transition duration-300 border-2 border-red-400"
+                            >
+                                Kill switch
+                            </button>
+                        </>
+                    )}
                 </div>
             </header>
 
+            {error && (
+                <div className="bg-yellow-900/40 border border-yellow-600 rounded-lg p-3 mb-8 text-sm text-yellow-200">
+                    {error} Figures below may be out of date.
+                </div>
+            )}
+
+            {isLocked && (
+                <div className="bg-red-900/50 border border-red-500 rounded-lg p-4 mb-8 flex flex-col sm:flex-row justify-between items-center gap-4">
+                    <div>
+                        <h2 className="text-lg font-bold text-red-300">Kill switch engaged — trading is locked</h2>
+                        <p className="text-sm text-red-200">
+                            {data.killSwitch.reason} {data.killSwitch.engagedAt && `(${new Date(data.killSwitch.engagedAt).toLocaleString()})`}
+                        </p>
+                    </div>
+                    {canOperate && (
+                        <button
+                            onClick={handleRearm}
+                            className="bg-gray-700 text-white font-bold py-2 px-4 rounded-lg hover:bg-gray-600 transition duration-300"
+                        >
+                            Re-arm
+                        </button>
+                    )}
+                </div>
+            )}
+
             <main>
                 {/* KPIs */}
-                <section className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                    <KpiCard title="Total PnL (24h)" value={totalPnl} />
-                    <KpiCard title="Profit Strategies PnL" value={totalPnl} />
+                <section className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                    <KpiCard title="Net PnL (24h)" value={netPnl} />
+                    <KpiCard title="Long PnL" value={longPnl} />
+                    <KpiCard title="Short PnL" value={shortPnl} />
                 </section>
 
                 <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
                     {/* Main Content: Tables */}
                     <div className="xl:col-span-2 flex flex-col gap-8">
-                        <AccountsTable title="Profit-Seeking Agents" agents={profitAgents} borderColor="border-green-500" />
-                        <PositionsTable positions={data.openPositions} agents={data.agents} />
+                        <AccountsTable
+                            title="Profit-Seeking Agents"
+                            agents={profitAgents}
+                            positions={data.openPositions}
+                            borderColor="border-green-500"
+                            onAction={handleAgentAction}
+                            canOperate={canOperate}
+                        />
+                        <AccountsTable
+                            title="Short / Loss-Side Agents"
+                            agents={lossAgents}
+                            positions={data.openPositions}
+                            borderColor="border-red-500"
+                            onAction={handleAgentAction}
+                            canOperate={canOperate}
+                        />
+                        <PositionsTable positions={data.openPositions} agents={data.agents} onShowDecisions={setDecisionTradeId} />
+                        <TradesTable agents={data.agents} refreshKey={tradesVersion} onShowDecisions={setDecisionTradeId} />
                     </div>
 
                     {/* Sidebar: Logs and Reports */}
@@ -109,8 +244,25 @@ const App: React.FC = () => {
                     </div>
                 </div>
             </main>
+
+            {decisionTradeId && <DecisionTrail tradeId={decisionTradeId} onClose={() => setDecisionTradeId(null)} />}
+            {showStrategies && <StrategyEditor canEdit={hasRole(user.role, 'admin')} onClose={() => setShowStrategies(false)} />}
         </div>
     );
 };
 
+const App: React.FC = () => {
+    const { user, loading, login, logout, refresh } = useAuth();
+
+    if (loading) {
+        return <LoadingScreen />;
+    }
+
+    if (!user) {
+        return <LoginForm logo={<FlipEdgeLogo />} onLogin={login} />;
+    }
+
+    return <Dashboard user={user} onLogout={logout} onSessionCheck={refresh} />;
+};
+
 export default App;
\ No newline at end of file
@@ -1,15 +1,34 @@
 
 import React from 'react';
-import { Agent } from '../types';
+import { Agent, AgentState, Position } from '../types';
 import Badge from './ui/Badge';
 
+export type AgentAction = 'start' | 'stop' | 'pause' | 'flatten' | 'restart';
+
 interface AccountsTableProps {
   title: string;
   agents: Agent[];
+  positions: Position[];
   borderColor: 'border-green-500' | 'border-red-500';
+  onAction: (agentId: string, action: AgentAction) => void;
+  canOperate?: boolean; // False hides the action buttons for viewers
 }
 
-const AccountsTable: React.FC<AccountsTableProps> = ({ title, agents, borderColor }) => {
+const ActionButton: React.FC<{ label: string; className: string; onClick: () => void }> = ({ label, className, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`px-2 py-1 text-xs font-semibold rounded transition duration-200 ${className}`}
+  >
+    {label}
+  </button>
+);
+
+const AccountsTable: React.FC<AccountsTableProps> = ({ title, agents, positions, borderColor, onAction, canOperate = true }) => {
+  const confirmAndRun = (agent: Agent, action: AgentAction, question: string) => {
+    if (window.confirm(question)) {
+      onAction(agent.id, action);
+    }
+  };
     
   const PnlCell: React.FC<{ pnl: number }> = ({ pnl }) => {
     const isProfit = pnl >= 0;
@@ -33,20 +52,58 @@ const AccountsTable: React.FC<AccountsTableProps> = ({ title, agents, borderColo
               <th scope="col" className="px-4 py-3 text-right">Balance</th>
               <th scope="col" className="px-4 py-3 text-right">PnL (24h)</th>
               <th scope="col" className="px-4 py-3 text-right">Trades (24h)</th>
+              <th scope="col" className="px-4 py-3 text-right" title="Model trade decisions that failed validation">Rejected</th>
+              {canOperate && <th scope="col" className="px-4 py-3 text-right">Actions</th>}
             </tr>
           </thead>
           <tbody>
-            {agents.map((agent) => (
-              <tr key={agent.id} className="border-b border-gray-700 hover:bg-gray-700/40">
-                <td className="px-4 py-3 font-medium whitespace-nowrap">{agent.name}</td>
-                <td className="px-4 py-3">
-                  <Badge state={agent.state} />
-                </td>
-                <td className="px-4 py-3 text-right">${agent.balance.toFixed(2)}</td>
-                <PnlCell pnl={agent.pnl} />
-                <td className="px-4 py-3 text-right">{agent.tradesToday}</td>
-              </tr>
-            ))}
+            {agents.map((agent) => {
+              const hasPosition = positions.some(p => p.agentId === agent.id);
+              const isStopped = agent.state === AgentState.STOPPED;
+              const isPaused = agent.state === AgentState.PAUSED || agent.pausePending;
+              return (
+                <tr key={agent.id} className="border-b border-gray-700 hover:bg-gray-700/40">
+                  <td className="px-4 py-3 font-medium whitespace-nowrap">{agent.name}</td>
+                  <td className="px-4 py-3">
+                    <Badge state={agent.state} />
+                    {agent.pausePending && <span className="ml-2 text-xs text-orange-300">pausing</span>}
+                    {agent.haltReason && <div className="mt-1 text-xs text-red-300 max-w-xs">{agent.haltReason}</div>}
+                    {agent.entryBlockedReason && <div className="mt-1 text-xs text-yellow-300 max-w-xs">No new entries: {agent.entryBlockedReason}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-right">${agent.balance.toFixed(2)}</td>
+                  <PnlCell pnl={agent.pnl} />
+                  <td className="px-4 py-3 text-right">{agent.tradesToday}</td>
+                  <td className={`px-4 py-3 text-right ${agent.rejectedDecisions > 0 ? 'text-yellow-300' : 'text-gray-500'}`}>{agent.rejectedDecisions}</td>
+                  {canOperate && (
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        {agent.state === AgentState.ERROR ? (
+                          <ActionButton label="Restart" className="bg-blue-600 text-white hover:bg-blue-700" onClick={() => onAction(agent.id, 'restart')} />
+                        ) : (isStopped || isPaused || agent.state === AgentState.HALTED) ? (
+                          <ActionButton label={isStopped ? 'Start' : 'Resume'} className="bg-green-600 text-white hover:bg-green-700" onClick={() => onAction(agent.id, 'start')} />
+                        ) : (
+                          <ActionButton label="Pause" className="bg-orange-600 text-white hover:bg-orange-700" onClick={() => onAction(agent.id, 'pause')} />
+                        )}
+                        {!isStopped && (
+                          <ActionButton
+                            label="Stop"
+                            className="bg-gray-600 text-white hover:bg-gray-500"
+                            onClick={() => confirmAndRun(agent, 'stop', `Stop ${agent.name}?${hasPosition ? ' Its open position will stay open and unmonitored.' : ''}`)}
+                          />
+                        )}
+                        {hasPosition && (
+                          <ActionButton
+                            label="Flatten"
+                            className="bg-red-600 text-white hover:bg-red-700"
+                            onClick={() => confirmAndRun(agent, 'flatten', `Close ${agent.name}'s open position at market now?`)}
+                          />
+                        )}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { DecisionRecord } from '../types';
+
+interface DecisionTrailProps {
+  tradeId: string;
+  onClose: () => void;
+}
+
+// Every decision behind one trade: the entry call and each hold/close check, oldest first.
+const DecisionTrail: React.FC<DecisionTrailProps> = ({ tradeId, onClose }) => {
+  const [decisions, setDecisions] = useState<DecisionRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDecisions = async () => {
+      try {
+        const response = await fetch(`/api/decisions?tradeId=${encodeURIComponent(tradeId)}&limit=500`);
+        if (!response.ok) {
+          throw new Error(`Network response was not ok: ${response.statusText}`);
+        }
+        const records: DecisionRecord[] = await response.json();
+        setDecisions(records.reverse());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      }
+    };
+    fetchDecisions();
+  }, [tradeId]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-200">Decision trail <span className="text-xs text-gray-500 font-mono">{tradeId}</span></h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xl leading-none">&times;</button>
+        </div>
+        <div className="overflow-y-auto p-4 space-y-4">
+          {error && <p className="text-sm text-red-300">Failed to load decisions: {error}</p>}
+          {!error && decisions === null && <p className="text-sm text-gray-400">Loading...</p>}
+          {decisions?.length === 0 && <p className="text-sm text-gray-500">No decisions were recorded for this trade.</p>}
+          {decisions?.map(d => (
+            <div key={d.id} className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 text-sm">
+              <div className="flex flex-wrap justify-between gap-2">
+                <div className="font-semibold text-gray-200">
+                  {d.kind === 'trade' ? 'Entry' : 'Hold check'}
+                  {d.attempt !== undefined && d.attempt > 1 && <> (attempt {d.attempt})</>} &middot; {d.outcome}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {new Date(d.timestamp).toLocaleString()} &middot; {d.provider} &middot; {d.latencyMs} ms
+                  {d.usage?.totalTokens !== undefined && <> &middot; {d.usage.totalTokens} tokens</>}
+                </div>
+              </div>
+              <div className="mt-1 text-gray-300">
+                {[d.symbol, d.side, d.confidence && `${d.confidence} confidence`, d.candidateRank && `candidate #${d.candidateRank}`].filter(Boolean).join(' · ')}
+              </div>
+              {d.reason && <p className="mt-1 text-gray-400 italic">{d.reason}</p>}
+              {d.error && <p className="mt-1 text-red-300">Error: {d.error}</p>}
+              {d.orderId && <p className="mt-1 text-xs text-gray-500 font-mono">Order {d.orderId}</p>}
+              {d.prompt && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs text-blue-400">Prompt</summary>
+                  <pre className="mt-1 p-2 bg-black/40 rounded text-xs text-gray-300 whitespace-pre-wrap">{d.prompt}</pre>
+                </details>
+              )}
+              {d.rawResponse && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs text-blue-400">Raw response</summary>
+                  <pre className="mt-1 p-2 bg-black/40 rounded text-xs text-gray-300 whitespace-pre-wrap">{d.rawResponse}</pre>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DecisionTrail;
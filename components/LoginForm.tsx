@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+
+interface LoginFormProps {
+  logo: React.ReactNode;
+  onLogin: (username: string, password: string) => Promise<void>;
+}
+
+const LoginForm: React.FC<LoginFormProps> = ({ logo, onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onLogin(username, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+      setPassword('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-900 text-gray-200">
+      <form onSubmit={handleSubmit} className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-lg p-8 w-full max-w-sm flex flex-col gap-4">
+        <div className="flex items-center gap-3">
+          {logo}
+          <h1 className="text-xl font-bold text-white">FlipEdge sign in</h1>
+        </div>
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Username
+          <input
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded px-3 py-2 text-gray-200 focus:outline-none focus:border-blue-500"
+            required
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Password
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded px-3 py-2 text-gray-200 focus:outline-none focus:border-blue-500"
+            required
+          />
+        </label>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 transition duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginForm;
@@ -1,10 +1,11 @@
 
 import React from 'react';
-import { Agent, Position, OrderSide } from '../types';
+import { Agent, Position, OrderSide, StopChange } from '../types';
 
 interface PositionsTableProps {
   positions: Position[];
   agents: Agent[];
+  onShowDecisions: (tradeId: string) => void;
 }
 
 const SideCell: React.FC<{ side: OrderSide }> = ({ side }) => {
@@ -28,7 +29,25 @@ const PnlCell: React.FC<{ pnl: number }> = ({ pnl }) => {
     );
 };
 
-const PositionsTable: React.FC<PositionsTableProps> = ({ positions, agents }) => {
+// Current stop, with the agent's moves of it listed in the tooltip.
+const StopCell: React.FC<{ stopLoss?: number; changes?: StopChange[] }> = ({ stopLoss, changes = [] }) => {
+    const last = changes[changes.length - 1];
+    const history = changes
+      .map(c => `${new Date(c.timestamp).toLocaleTimeString()}: ${c.from ?? 'none'} -> ${c.to} (${c.reason})`)
+      .join('\n');
+    return (
+      <td className="px-4 py-3 text-right" title={history || undefined}>
+        {stopLoss !== undefined ? `$${stopLoss.toFixed(4)}` : '-'}
+        {last && (
+          <div className="text-xs text-gray-500">
+            {last.reason}{changes.length > 1 ? ` (${changes.length} moves)` : ''}
+          </div>
+        )}
+      </td>
+    );
+};
+
+const PositionsTable: React.FC<PositionsTableProps> = ({ positions, agents, onShowDecisions }) => {
   const getAgentName = (agentId: string) => {
     return agents.find(a => a.id === agentId)?.name || 'Unknown';
   };
@@ -56,7 +75,9 @@ const PositionsTable: React.FC<PositionsTableProps> = ({ positions, agents }) =>
                         <th scope="col" className="px-4 py-3">Side</th>
                         <th scope="col" className="px-4 py-3 text-right">Entry Price</th>
                         <th scope="col" className="px-4 py-3 text-right">Size</th>
+                        <th scope="col" className="px-4 py-3 text-right">Stop</th>
                         <th scope="col" className="px-4 py-3 text-right">Unrealized PnL</th>
+                        <th scope="col" className="px-4 py-3 text-right"></th>
                     </tr>
                 </thead>
                 <tbody>
@@ -66,8 +87,26 @@ const PositionsTable: React.FC<PositionsTableProps> = ({ positions, agents }) =>
                             <td className="px-4 py-3">{getAgentName(pos.agentId)}</td>
                             <td className="px-4 py-3"><SideCell side={pos.side} /></td>
                             <td className="px-4 py-3 text-right">${pos.entryPrice.toFixed(4)}</td>
-                            <td className="px-4 py-3 text-right">{pos.size.toFixed(4)}</td>
+                            <td className="px-4 py-3 text-right">
+                                {pos.size.toFixed(4)}
+                                {pos.legs && pos.legs.length > 0 && (
+                                    <div className="text-xs text-gray-500" title={pos.legs.map(l => `${l.size} @ ${l.closePrice} (${l.reason}): $${l.pnl.toFixed(2)}`).join('\n')}>
+                                        of {pos.initialSize?.toFixed(4)}, {(pos.realizedPnl ?? 0) >= 0 ? '+' : ''}${(pos.realizedPnl ?? 0).toFixed(2)} booked
+                                    </div>
+                                )}
+                            </td>
+                            <StopCell stopLoss={pos.stopLoss} changes={pos.stopChanges} />
                             <PnlCell pnl={pos.unrealizedPnl} />
+                            <td className="px-4 py-3 text-right">
+                                {pos.tradeId && (
+                                    <button
+                                        onClick={() => onShowDecisions(pos.tradeId!)}
+                                        className="px-2 py-1 text-xs font-semibold rounded bg-gray-600 text-white hover:bg-gray-500 transition duration-200"
+                                    >
+                                        Decisions
+                                    </button>
+                                )}
+                            </td>
                         </tr>
                     ))}
                 </tbody>
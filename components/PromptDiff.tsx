@@ -0,0 +1,62 @@
+import React from 'react';
+
+interface DiffPart {
+  text: string;
+  change: 'same' | 'added' | 'removed';
+}
+
+// Word-level diff via the longest common subsequence; whitespace runs count as words so the
+// original spacing and line breaks survive.
+const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  // lengths[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, change: DiffPart['change']) => {
+    const last = parts[parts.length - 1];
+    if (last?.change === change) {
+      last.text += text;
+    } else {
+      parts.push({ text, change });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i++], 'same');
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
+
+const PromptDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  if (before === after) {
+    return <p className="text-sm text-gray-500">The prompt did not change in this version.</p>;
+  }
+  return (
+    <pre className="p-2 bg-black/40 rounded text-xs text-gray-300 whitespace-pre-wrap">
+      {diffWords(before, after).map((part, index) => (
+        part.change === 'same' ? <span key={index}>{part.text}</span>
+          : part.change === 'added' ? <ins key={index} className="bg-green-900/60 text-green-200 no-underline">{part.text}</ins>
+          : <del key={index} className="bg-red-900/60 text-red-200">{part.text}</del>
+      ))}
+    </pre>
+  );
+};
+
+export default PromptDiff;
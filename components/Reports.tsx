@@ -23,7 +23,11 @@ const Reports: React.FC<ReportsProps> = ({ reports }) => {
           <ul className="space-y-2">
               {reports.map((reportName) => (
                   <li key={reportName}>
-                      <a href="#" className="text-blue-400 hover:text-blue-300 hover:underline text-sm">
+                      <a
+                        href={`/api/reports/${encodeURIComponent(reportName)}`}
+                        download={reportName}
+                        className="text-blue-400 hover:text-blue-300 hover:underline text-sm"
+                      >
                           {reportName}
                       </a>
                   </li>
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { Strategy, StrategyRecord, StrategyType } from '../types';
+import PromptDiff from './PromptDiff';
+
+interface StrategyEditorProps {
+  canEdit: boolean; // Admins edit; everyone else browses
+  onClose: () => void;
+}
+
+interface Draft {
+  id: string;
+  name: string;
+  type: StrategyType;
+  prompt: string;
+  settings: string; // Every other setting, as JSON
+}
+
+const EMPTY_DRAFT: Draft = { id: '', name: '', type: StrategyType.PROFIT, prompt: '', settings: '{}' };
+
+const toDraft = ({ id, name, type, prompt, ...settings }: Strategy): Draft => ({
+  id,
+  name,
+  type,
+  prompt,
+  settings: JSON.stringify(settings, null, 2),
+});
+
+const latest = (record: StrategyRecord) => record.versions[record.versions.length - 1];
+
+const inputClass = 'bg-gray-900 border border-gray-600 rounded px-3 py-2 text-gray-200 focus:outline-none focus:border-blue-500 disabled:text-gray-400';
+
+// Strategies with their version history. Saving adds a version; agents load it at their next ANALYZING cycle.
+const StrategyEditor: React.FC<StrategyEditorProps> = ({ canEdit, onClose }) => {
+  const [records, setRecords] = useState<StrategyRecord[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null); // null while creating a new one
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [diffVersion, setDiffVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const select = (record: StrategyRecord) => {
+    setSelectedId(record.id);
+    setDraft(toDraft(latest(record).strategy));
+    setDiffVersion(latest(record).version);
+    setError(null);
+  };
+
+  const loadRecords = async (selectId?: string) => {
+    try {
+      const response = await fetch('/api/strategies');
+      if (!response.ok) {
+        throw new Error(`Network response was not ok: ${response.statusText}`);
+      }
+      const loaded: StrategyRecord[] = await response.json();
+      setRecords(loaded);
+      const selected = loaded.find(r => r.id === selectId) ?? loaded[0];
+      if (selected) select(selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    }
+  };
+
+  useEffect(() => {
+    loadRecords();
+  }, []);
+
+  const startNew = () => {
+    setSelectedId(null);
+    setDraft(EMPTY_DRAFT);
+    setDiffVersion(null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    let settings: Record<string, unknown>;
+    try {
+      settings = JSON.parse(draft.settings);
+    } catch {
+      setError('Other settings must be valid JSON.');
+      return;
+    }
+    setSaving(true);
+    try {
+      const creating = selectedId === null;
+      const response = await fetch(creating ? '/api/strategies' : `/api/strategies/${encodeURIComponent(selectedId)}`, {
+        method: creating ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...settings, id: draft.id, name: draft.name, type: draft.type, prompt: draft.prompt }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save the strategy.');
+      }
+      await loadRecords(draft.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !window.confirm(`Delete strategy ${selectedId}? Its agent is removed; the version history is kept.`)) return;
+    try {
+      const response = await fetch(`/api/strategies/${encodeURIComponent(selectedId)}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete the strategy.');
+      }
+      await loadRecords();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    }
+  };
+
+  const selected = records?.find(r => r.id === selectedId);
+  const diffIndex = selected?.versions.findIndex(v => v.version === diffVersion) ?? -1;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-200">Strategies</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xl leading-none">&times;</button>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <div className="w-48 border-r border-gray-700 overflow-y-auto p-2 flex flex-col gap-1">
+            {records === null && !error && <p className="text-sm text-gray-400 p-2">Loading...</p>}
+            {records?.map(record => (
+              <button
+                key={record.id}
+                onClick={() => select(record)}
+                className={`text-left px-2 py-1 rounded text-sm ${record.id === selectedId ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+              >
+                <div className="font-medium">{record.id}</div>
+                <div className="text-xs text-gray-400 truncate">{latest(record).strategy.name} &middot; v{latest(record).version}</div>
+              </button>
+            ))}
+            {canEdit && (
+              <button onClick={startNew} className="mt-2 px-2 py-1 rounded text-sm text-blue-400 hover:bg-gray-800 text-left">+ New strategy</button>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="flex flex-col gap-3 text-sm">
+              <div className="grid grid-cols-3 gap-3">
+                <label className="flex flex-col gap-1 text-gray-400">
+                  ID
+                  <input className={inputClass} value={draft.id} disabled={!canEdit || selectedId !== null} onChange={e => setDraft({ ...draft, id: e.target.value })} />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-400">
+                  Name
+                  <input className={inputClass} value={draft.name} disabled={!canEdit} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-400">
+                  Type
+                  <select className={inputClass} value={draft.type} disabled={!canEdit} onChange={e => setDraft({ ...draft, type: e.target.value as StrategyType })}>
+                    <option value={StrategyType.PROFIT}>Profit</option>
+                    <option value={StrategyType.LOSS}>Loss</option>
+                  </select>
+                </label>
+              </div>
+              <label className="flex flex-col gap-1 text-gray-400">
+                Prompt
+                <textarea className={`${inputClass} h-40`} value={draft.prompt} disabled={!canEdit} onChange={e => setDraft({ ...draft, prompt: e.target.value })} />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-400">
+                Other settings (JSON)
+                <textarea className={`${inputClass} h-48 font-mono text-xs`} value={draft.settings} disabled={!canEdit} onChange={e => setDraft({ ...draft, settings: e.target.value })} />
+              </label>
+              {error && <p className="text-red-300">{error}</p>}
+              {canEdit && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-700 transition duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                  >
+                    {saving ? 'Saving...' : selectedId === null ? 'Create' : 'Save new version'}
+                  </button>
+                  {selectedId !== null && (
+                    <button onClick={handleDelete} className="bg-gray-700 text-white font-bold py-2 px-4 rounded-lg hover:bg-red-700 transition duration-300">
+                      Delete
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {selected && (
+              <div className="flex flex-col gap-3 text-sm">
+                <h3 className="font-semibold text-gray-200">Version history</h3>
+                <div className="flex flex-col gap-1">
+                  {[...selected.versions].reverse().map(v => (
+                    <button
+                      key={v.version}
+                      onClick={() => setDiffVersion(v.version)}
+                      className={`text-left px-2 py-1 rounded ${v.version === diffVersion ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+                    >
+                      v{v.version} &middot; {new Date(v.createdAt).toLocaleString()} &middot; {v.createdBy}
+                    </button>
+                  ))}
+                </div>
+                {diffIndex >= 0 && (
+                  <div>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-xs text-gray-400">
+                        {diffIndex === 0 ? 'Prompt of the first version' : `Prompt changes from v${selected.versions[diffIndex - 1].version} to v${selected.versions[diffIndex].version}`}
+                      </span>
+                      {canEdit && diffIndex < selected.versions.length - 1 && (
+                        <button onClick={() => setDraft(toDraft(selected.versions[diffIndex].strategy))} className="text-xs text-blue-400 hover:text-blue-300">
+                          Load into editor
+                        </button>
+                      )}
+                    </div>
+                    <PromptDiff
+                      before={diffIndex === 0 ? '' : selected.versions[diffIndex - 1].strategy.prompt}
+                      after={selected.versions[diffIndex].strategy.prompt}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrategyEditor;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Agent, Trade, OrderSide } from '../types';
+
+interface TradesTableProps {
+  agents: Agent[];
+  refreshKey: number; // Changes when a trade closes; the list is reloaded then rather than polled
+  onShowDecisions: (tradeId: string) => void;
+}
+
+const RECENT_TRADES = 20;
+
+const TradesTable: React.FC<TradesTableProps> = ({ agents, refreshKey, onShowDecisions }) => {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTrades = async () => {
+      try {
+        const response = await fetch(`/api/trades?limit=${RECENT_TRADES}`);
+        if (!response.ok) {
+          throw new Error(`Network response was not ok: ${response.statusText}`);
+        }
+        setTrades(await response.json());
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      }
+    };
+
+    fetchTrades();
+  }, [refreshKey]);
+
+  const getAgentName = (agentId: string) => {
+    return agents.find(a => a.id === agentId)?.name || agentId;
+  };
+
+  // Costs behind the PnL, for trades priced from their fills.
+  const getCostBreakdown = (trade: Trade) => {
+    if (trade.fees === undefined) return undefined;
+    const parts = [`Fees $${trade.fees.toFixed(2)}`, `funding $${(trade.fundingPaid ?? 0).toFixed(2)}`];
+    if (trade.slippageBps !== undefined) parts.push(`entry slippage ${trade.slippageBps.toFixed(1)} bps`);
+    return parts.join(', ');
+  };
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg shadow-lg overflow-hidden">
+      <h2 className="text-lg font-semibold text-gray-200 p-4">Recent Trades</h2>
+      {error && <p className="px-4 pb-4 text-sm text-red-300">Failed to load trades: {error}</p>}
+      {!error && trades.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No trades recorded yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-300">
+            <thead className="bg-gray-700/50 text-xs uppercase text-gray-400">
+              <tr>
+                <th scope="col" className="px-4 py-3">Closed</th>
+                <th scope="col" className="px-4 py-3">Symbol</th>
+                <th scope="col" className="px-4 py-3">Agent</th>
+                <th scope="col" className="px-4 py-3">Side</th>
+                <th scope="col" className="px-4 py-3 text-right">Entry / Close</th>
+                <th scope="col" className="px-4 py-3 text-right">PnL</th>
+                <th scope="col" className="px-4 py-3 text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {trades.map((trade) => (
+                <tr key={trade.id ? `${trade.id}-${trade.leg ?? 0}` : `${trade.agentId}-${trade.timestamp}`} className="border-b border-gray-700 hover:bg-gray-700/40">
+                  <td className="px-4 py-3 whitespace-nowrap">{new Date(trade.timestamp).toLocaleString()}</td>
+                  <td className="px-4 py-3 font-medium whitespace-nowrap">
+                    {trade.symbol}
+                    {trade.leg !== undefined && (
+                      <span className="ml-2 text-xs text-gray-500" title={`${trade.size} closed, ${trade.remainingSize ?? 0} left open`}>
+                        leg {trade.leg}{trade.remainingSize === 0 ? ' (final)' : ''}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">{getAgentName(trade.agentId)}</td>
+                  <td className={`px-4 py-3 text-xs font-semibold ${trade.side === OrderSide.LONG ? 'text-green-400' : 'text-red-400'}`}>{trade.side}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">${trade.entryPrice.toFixed(4)} / ${trade.closePrice.toFixed(4)}</td>
+                  <td className={`px-4 py-3 text-right font-medium ${trade.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`} title={getCostBreakdown(trade)}>
+                    {trade.pnl >= 0 ? '+' : ''}${trade.pnl.toFixed(2)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {trade.id && (
+                      <button
+                        onClick={() => onShowDecisions(trade.id!)}
+                        className="px-2 py-1 text-xs font-semibold rounded bg-gray-600 text-white hover:bg-gray-500 transition duration-200"
+                      >
+                        Decisions
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TradesTable;
@@ -9,8 +9,11 @@ const stateColors: Record<AgentState, string> = {
   [AgentState.STOPPED]: 'bg-gray-600/20 text-gray-400',
   [AgentState.ANALYZING]: 'bg-blue-500/20 text-blue-300',
   [AgentState.EXECUTING]: 'bg-purple-500/20 text-purple-300',
+  [AgentState.PENDING_ENTRY]: 'bg-indigo-500/20 text-indigo-300',
   [AgentState.HOLDING]: 'bg-green-500/20 text-green-300',
   [AgentState.COOLDOWN]: 'bg-yellow-500/20 text-yellow-300',
+  [AgentState.PAUSED]: 'bg-orange-500/20 text-orange-300',
+  [AgentState.HALTED]: 'bg-red-700/30 text-red-200',
   [AgentState.ERROR]: 'bg-red-500/20 text-red-300',
 };
 
@@ -1,40 +1,91 @@
 import { useState, useEffect } from 'react';
-import { ApiStatusResponse } from '../types';
+import { ApiStatusResponse, DashboardEvent } from '../types';
 
+const MAX_LOG_ENTRIES = 50; // Matches the worker's log buffer
+const INITIAL_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+// Applies one pushed event to the current status. Snapshots replace it; everything else patches it.
+const applyEvent = (data: ApiStatusResponse | null, event: DashboardEvent): ApiStatusResponse | null => {
+    if (event.type === 'snapshot') return event.status;
+    if (!data) return data; // Nothing to patch until the first snapshot arrives
+
+    switch (event.type) {
+        case 'agent': {
+            const exists = data.agents.some(a => a.id === event.agent.id);
+            return {
+                ...data,
+                agents: exists ? data.agents.map(a => (a.id === event.agent.id ? event.agent : a)) : [...data.agents, event.agent],
+            };
+        }
+        case 'position': {
+            const others = data.openPositions.filter(p => p.agentId !== event.agentId);
+            return { ...data, openPositions: event.position ? [...others, event.position] : others };
+        }
+        case 'log':
+            return { ...data, logs: [event.entry, ...data.logs].slice(0, MAX_LOG_ENTRIES) };
+        case 'killSwitch':
+            return { ...data, killSwitch: event.killSwitch };
+        default:
+            return data;
+    }
+};
+
+/**
+ * Live dashboard status, streamed from the worker's /events endpoint. After a disconnect the
+ * hook reconnects with exponential backoff and asks for everything after the last sequence
+ * number it applied, so no update is lost; the worker answers with a snapshot if it cannot.
+ * `tradesVersion` changes whenever trades may have changed, for components that load them.
+ */
 export const useAgentData = () => {
     const [data, setData] = useState<ApiStatusResponse | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [tradesVersion, setTradesVersion] = useState(0);
 
     useEffect(() => {
-        const fetchData = async () => {
-            try {
-                const response = await fetch('/api/status');
-                if (!response.ok) {
-                    throw new Error(`Network response was not ok: ${response.statusText}`);
+        let source: EventSource | null = null;
+        let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+        let reconnectDelay = INITIAL_RECONNECT_DELAY;
+        let lastSeq: number | null = null;
+        let closed = false;
+
+        const connect = () => {
+            source = new EventSource(lastSeq === null ? '/api/events' : `/api/events?since=${lastSeq}`);
+
+            source.onmessage = (message) => {
+                const event: DashboardEvent = JSON.parse(message.data);
+                // Anything at or below the last applied seq was already seen, except a snapshot, which resets it.
+                if (event.type !== 'snapshot' && lastSeq !== null && event.seq <= lastSeq) return;
+                lastSeq = event.seq;
+                reconnectDelay = INITIAL_RECONNECT_DELAY;
+                setData(current => applyEvent(current, event));
+                if (event.type === 'snapshot' || event.type === 'trade') {
+                    setTradesVersion(v => v + 1);
                 }
-                const json: ApiStatusResponse = await response.json();
-                setData(json);
                 setError(null);
-            } catch (err) {
-                 if (err instanceof Error) {
-                  setError(`Failed to connect to the backend worker: ${err.message}`);
-                } else {
-                  setError('An unknown error occurred while fetching data.');
-                }
-            } finally {
-                // Only set loading to false after the first fetch attempt
-                if (loading) {
-                    setLoading(false);
-                }
-            }
+                setLoading(false);
+            };
+
+            // EventSource retries on its own at a fixed rate; close it and retry with backoff instead.
+            source.onerror = () => {
+                source?.close();
+                if (closed) return;
+                setError(`Lost connection to the backend worker. Reconnecting in ${Math.round(reconnectDelay / 1000)}s...`);
+                setLoading(false);
+                reconnectTimer = setTimeout(connect, reconnectDelay);
+                reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+            };
         };
 
-        fetchData(); // Initial fetch
-        const intervalId = setInterval(fetchData, 5000);
+        connect();
 
-        return () => clearInterval(intervalId);
-    }, [loading]);
+        return () => {
+            closed = true;
+            source?.close();
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+        };
+    }, []);
 
-    return { data, loading, error };
+    return { data, loading, error, tradesVersion };
 };
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AuthUser, Role } from '../types';
+
+const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+// Roles nest: every role can do everything the ones before it can. Mirrors the worker's check.
+export const hasRole = (role: Role, required: Role) => ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+/**
+ * The signed-in dashboard user, from the worker's session cookie. `user` is null when nobody is
+ * signed in or the session has expired; call `refresh` after a request fails to find out which.
+ */
+export const useAuth = () => {
+    const [user, setUser] = useState<AuthUser | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        try {
+            const response = await fetch('/api/auth/me');
+            setUser(response.ok ? await response.json() : null);
+        } catch {
+            // The worker is unreachable; keep the current user and let the dashboard show the outage.
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const login = async (username: string, password: string) => {
+        const response = await fetch('/api/auth/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ username, password }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.message || 'Sign-in failed.');
+        }
+        setUser(result);
+    };
+
+    const logout = async () => {
+        try {
+            await fetch('/api/auth/logout', { method: 'POST' });
+        } finally {
+            setUser(null);
+        }
+    };
+
+    return { user, loading, login, logout, refresh };
+};
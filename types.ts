@@ -2,8 +2,11 @@ export enum AgentState {
   STOPPED = 'STOPPED',
   ANALYZING = 'ANALYZING',
   EXECUTING = 'EXECUTING',
+  PENDING_ENTRY = 'PENDING_ENTRY', // Waiting for a limit entry order to fill
   HOLDING = 'HOLDING',
   COOLDOWN = 'COOLDOWN',
+  PAUSED = 'PAUSED',
+  HALTED = 'HALTED',
   ERROR = 'ERROR',
 }
 
@@ -19,7 +22,13 @@ export interface Agent {
   state: AgentState;
   balance: number;
   pnl: number;
+  longPnl: number; // Realized PnL from LONG trades
+  shortPnl: number; // Realized PnL from SHORT trades
   tradesToday: number;
+  rejectedDecisions: number; // Trade decisions that failed validation
+  pausePending: boolean; // Pause requested; takes effect once the open position closes
+  haltReason: string | null; // Why the risk manager halted the agent, if it did
+  entryBlockedReason?: string | null; // Why new entries are on hold, e.g. outside trading hours or the daily trade cap
 }
 
 export enum OrderSide {
@@ -34,6 +43,54 @@ export interface Position {
   size: number;
   unrealizedPnl: number;
   agentId: string;
+  tradeId?: string; // Links the position's decisions to the Trade recorded when it closes
+  exitOrderId?: string; // Latest order that reduced the position, once known
+  stopLoss?: number; // Current stop, as set at entry or moved since
+  takeProfit?: number;
+  bestPrice?: number; // Most favorable price seen while holding; trailing stops follow it
+  stopChanges?: StopChange[]; // Oldest first
+  initialSize?: number; // Size at entry; `size` is what is still open after partial closes
+  realizedPnl?: number; // Booked so far by partial closes
+  legs?: PositionLeg[]; // Partial closes, oldest first
+  scaleOutStep?: number; // Scale-out ladder legs taken or skipped so far
+}
+
+// One partial close of a position by the strategy's scale-out ladder.
+export interface PositionLeg {
+  timestamp: number;
+  size: number;
+  closePrice: number;
+  pnl: number;
+  reason: string;
+  orderId?: string;
+}
+
+// One move of a position's stop loss by the agent's stop management rules.
+export interface StopChange {
+  timestamp: number;
+  from: number | null; // null when the position had no stop
+  to: number;
+  reason: string;
+}
+
+export interface Trade {
+  timestamp: string;
+  agentId: string;
+  symbol: string;
+  side: OrderSide;
+  size: number;
+  entryPrice: number;
+  closePrice: number;
+  pnl: number;
+  id?: string;
+  orderId?: string;
+  leg?: number; // 1-based close of a position closed in several legs
+  remainingSize?: number;
+  entryOrderIds?: string[];
+  exitOrderIds?: string[];
+  fees?: number; // USDT; pnl is net of fees and funding
+  fundingPaid?: number; // Negative when received
+  slippageBps?: number; // Entry fill vs the decision price; positive is worse
 }
 
 export interface LogEntry {
@@ -42,9 +99,139 @@ export interface LogEntry {
   message: string;
 }
 
+export interface KillSwitchStatus {
+  engaged: boolean;
+  engagedAt?: string;
+  reason?: string;
+}
+
+export interface EmergencyFlattenResult {
+  agentId: string;
+  closed: string[]; // Symbols confirmed flat on the exchange
+  stillOpen: string[]; // Symbols still open when the wait timed out
+  errors: string[];
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+// One call to a decision provider, as persisted in the decision audit trail.
+export interface DecisionRecord {
+  id: string;
+  timestamp: string;
+  agentId: string;
+  kind: 'trade' | 'hold';
+  provider: string; // Backend and model, e.g. "gemini:gemini-2.5-flash"
+  prompt: string | null; // Exact text sent to the model; null for rule-based providers
+  rawResponse: string | null;
+  decision: unknown; // Parsed trade decision, or 'HOLD' / 'CLOSE'
+  symbol?: string;
+  side?: OrderSide;
+  reason?: string;
+  confidence?: string;
+  latencyMs: number;
+  attempt?: number; // 1 for the first answer; higher when the model was re-asked after an invalid one
+  usage?: TokenUsage;
+  error?: string;
+  outcome: string; // What the agent did with it, e.g. "opened", "rejected: ...", "HOLD"
+  tradeId?: string; // The position (and later the closed Trade) this decision opened or managed
+  orderId?: string; // Entry order placed on this decision
+  candidateRank?: number; // Which of the model's ranked candidates was traded, 1 = best
+}
+
 export interface ApiStatusResponse {
   agents: Agent[];
   openPositions: Position[];
   logs: LogEntry[];
   reports: string[];
+  killSwitch: KillSwitchStatus;
+}
+
+// Pushed to the dashboard over /events. seq increases by one per event, so a client that reconnects
+// with the last seq it saw gets exactly what it missed, or a fresh snapshot if that is no longer buffered.
+export type DashboardEventPayload =
+  | { type: 'snapshot'; status: ApiStatusResponse } // Replaces everything the client holds
+  | { type: 'agent'; agent: Agent } // State transition or changed figures
+  | { type: 'position'; agentId: string; position: Position | null } // PnL tick, open or close; null when flat
+  | { type: 'log'; entry: LogEntry }
+  | { type: 'trade'; trade: Trade }
+  | { type: 'killSwitch'; killSwitch: KillSwitchStatus };
+
+export type DashboardEvent = DashboardEventPayload & { seq: number };
+
+// Access levels, lowest first: viewers read status and reports, operators also run and flatten
+// agents, admins also manage users, API tokens, risk limits and strategies.
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export interface AuthUser {
+  username: string;
+  role: Role;
+}
+
+// A long-lived token for API clients. The token itself is only shown once, when it is created.
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  createdBy: string;
+  lastUsedAt?: string;
+}
+
+// One privileged request, as recorded in the audit log.
+export interface AuditEntry {
+  timestamp: string;
+  actor: string; // Username, "token:<name>" for API tokens, or "anonymous" when signed out
+  role?: Role;
+  action: string; // e.g. "agent.start", "auth.login"
+  target?: string; // e.g. the agent ID
+  detail?: string;
+  status: number; // HTTP status of the response
+}
+
+// Result of checking an exchange API key's permissions before an agent may trade with it.
+export interface KeyPermissionCheck {
+  checkedAt: string;
+  canTradeDerivatives: boolean;
+  canWithdraw: boolean;
+  ipRestricted: boolean; // False means the key works from any IP address
+  expiresAt?: string;
+  problems: string[]; // Why the agent may not use the key; empty when it may
+}
+
+// An agent's exchange credentials as the API shows them: never the secret, only the key's last characters.
+export interface CredentialInfo {
+  agentId: string;
+  keyHint: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+  permissions?: KeyPermissionCheck; // The latest check, if one has run
+}
+
+// The worker validates the full definition; the dashboard reads these fields and edits the rest as JSON.
+export interface Strategy {
+  id: string;
+  name: string;
+  type: StrategyType;
+  prompt: string;
+  [setting: string]: unknown;
+}
+
+// One saved version of a strategy; versions are never edited, each change adds one.
+export interface StrategyVersion {
+  version: number; // 1-based per strategy
+  createdAt: string;
+  createdBy: string;
+  strategy: Strategy;
+}
+
+export interface StrategyRecord {
+  id: string;
+  versions: StrategyVersion[]; // Oldest first; the last one is what agents run
+  deletedAt?: string; // Deleted strategies keep their history
+  deletedBy?: string;
 }
\ No newline at end of file
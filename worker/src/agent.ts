@@ -1,32 +1,227 @@
 
-import { AgentState, Strategy, StrategyType, Position, OrderSide, Agent as AgentInfo } from './types';
-import { getTradeDecision, getHoldDecision, TradeDecision } from './gemini';
+import { randomUUID } from 'crypto';
+import { AgentState, Strategy, StrategyType, Position, OrderSide, Agent as AgentInfo, Trade, EmergencyFlattenResult, Candle, DecisionRecord, EntryOrderConfig, PendingEntry, DashboardEventPayload } from './types';
 import { log } from './logger';
-import { BybitClient } from './bybitClient';
-import { logTrade } from './tradeLogger';
+import { AccountEvent, AccountStream, ExchangeClient, ExchangeInstrument, getExchangeErrorKind, OPEN_ORDER_STATUSES, TickerStream, TimeInForce } from './exchange';
+import { combineTradeLegs, logTrade, queryTrades } from './tradeLogger';
+import { Clock, systemClock, TimerHandle } from './clock';
+import { createDecisionProvider, DecisionProvider, DecisionRepair, DecisionResponse, TradeCandidate, TradeDecision } from './decisionProvider';
+import { parseContextSymbols, validateTradeCandidate } from './decisionValidation';
+import { resolveTradeLevels } from './tradeLevels';
+import { computeManagedStop, getTrailingCandleRequest } from './stopManagement';
+import { logDecision } from './decisionLog';
+import { publishDashboardEvent } from './dashboardEvents';
+import { AgentStateStore, fileStateStore } from './stateStore';
+import { RiskManager } from './riskManager';
+import { buildMarketContext } from './marketContext';
+import { isKillSwitchEngaged } from './killSwitch';
+import { getActiveBlackout, getEntryBlock, getTimings, getTradingDay } from './tradingSchedule';
+import { buildOrderLinkId, OrderRole } from './orderLinkId';
+import { FillSettlement, isExitOfTrade, settleFromExecutions } from './tradeAttribution';
+import {
+    computeOrderQty,
+    DEFAULT_LEVERAGE,
+    fitQtyToInstrument,
+    getAtrCandleRequest,
+    getSizingModel,
+} from './positionSizing';
 
-const MAX_HOLD_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
+const ALL_SIDES = [OrderSide.LONG, OrderSide.SHORT];
+const EMERGENCY_POLL_INTERVAL = 2 * 1000;
+const CYCLE_DRAIN_POLL_INTERVAL = 200; // How often the kill switch checks whether an in-flight cycle has finished
+const MAX_DECISION_ATTEMPTS = 3; // The first answer plus two repair attempts
+const ENTRY_POLL_INTERVAL = 5 * 1000;
+const ENTRY_BLOCKED_POLL_INTERVAL = 60 * 1000; // How often an agent barred from new entries checks again
+const DEFAULT_ENTRY_FILL_TIMEOUT_SEC = 30;
+const DEFAULT_ENTRY_MAX_REPLACES = 2;
+const EXECUTION_LIST_DELAY = 2 * 1000; // Fills can take a moment to appear in the execution history
+
+// Overrides used by the backtester; production agents run on the defaults.
+export interface AgentOptions {
+    clock?: Clock;
+    decisionProvider?: DecisionProvider;
+    recordTrade?: (trade: Trade) => void;
+    recordDecision?: (record: DecisionRecord) => void;
+    stateStore?: AgentStateStore;
+    riskManager?: RiskManager;
+    tradeHistory?: (agentId: string) => Trade[]; // Closed trades, oldest first; used by Kelly sizing
+    accountStream?: AccountStream; // Wakes the agent on fills and position changes instead of waiting for the next poll
+    tickerStream?: TickerStream; // Keeps the held symbol's ticker streamed
+    publishEvent?: (event: DashboardEventPayload) => void; // Dashboard updates; closed trades included
+    isTradingLocked?: () => boolean; // True while the kill switch bars new entry orders
+}
+
+// A trade candidate that passed validation, with what was looked up to validate it.
+interface ValidatedCandidate {
+    candidate: TradeCandidate;
+    rank: number; // 1-based position in the model's ranking
+    instrument: ExchangeInstrument;
+    price: number;
+}
+
+// TP/SL as reported by the exchange; Bybit reports an unset level as "" or "0".
+const parseLevel = (value: string | undefined) => {
+    const level = parseFloat(value ?? '');
+    return level > 0 ? level : undefined;
+};
+
+// Rounds a price to the instrument's tick size.
+const formatPrice = (price: number, tickSize: number, rounding: 'nearest' | 'down' | 'up' = 'nearest') => {
+    const precision = tickSize.toString().includes('.') ? tickSize.toString().split('.')[1].length : 0;
+    const round = rounding === 'down' ? Math.floor : rounding === 'up' ? Math.ceil : Math.round;
+    // The epsilon keeps prices that are already on the tick from being pushed a tick away by float error.
+    const ticks = round(price / tickSize + (rounding === 'down' ? 1e-9 : rounding === 'up' ? -1e-9 : 0));
+    return (ticks * tickSize).toFixed(precision);
+};
+
+// The fill details a trade record carries when its close was matched to executions.
+const getFillDetails = (settlement: FillSettlement | null): Pick<Trade, 'fees' | 'fundingPaid' | 'slippageBps' | 'entryOrderIds' | 'exitOrderIds'> =>
+    settlement ? {
+        fees: settlement.fees,
+        fundingPaid: settlement.fundingPaid,
+        slippageBps: settlement.slippageBps,
+        entryOrderIds: settlement.entryOrderIds,
+        exitOrderIds: settlement.exitOrderIds,
+    } : {};
+
+const ledgerTradeHistory = (agentId: string) =>
+    queryTrades({ agentId }).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 
 export class Agent {
     private strategy: Strategy;
     private state: AgentState;
     private balance: number;
     private pnl: number;
+    private longPnl = 0;
+    private shortPnl = 0;
     private tradesToday: number;
+    private tradesDay: string; // Trading day tradesToday counts, per the strategy's schedule
+    private entryBlockedReason: string | null = null;
+    private rejectedDecisions = 0; // Trade decisions that failed validation, including repaired ones
     public openPosition: Position | null;
-    private tradingClient: BybitClient;
-    private timeoutId: ReturnType<typeof setTimeout> | null = null;
+    private pendingEntry: PendingEntry | null = null; // Resting limit entry, in PENDING_ENTRY
+    private tradingClient: ExchangeClient;
+    private timeoutId: TimerHandle | null = null;
     private isInitialized: boolean;
+    private clock: Clock;
+    private decisionProvider: DecisionProvider;
+    private recordTrade: (trade: Trade) => void;
+    private recordDecision: (record: DecisionRecord) => void;
+    private publishEvent: (event: DashboardEventPayload) => void;
+    private stateStore: AgentStateStore;
+    private riskManager: RiskManager;
+    private tradeHistory: (agentId: string) => Trade[];
+    private isTradingLocked: () => boolean;
+    private haltReason: string | null = null; // Set when the risk manager or a rejected API key halts the agent
+    private isRunning = false; // A run() cycle is in flight
+    private stopRequested = false; // stop() arrived while a cycle was in flight
+    private pauseRequested = false; // Finish the current position, then open no new ones
+    private tickerStream?: TickerStream;
+    private watchedTicker: { symbol: string; unsubscribe: () => void } | null = null;
+    private unsubscribeAccount: (() => void) | null = null;
+    private pendingStrategy: { strategy: Strategy; version: number } | null = null; // Applied at the next ANALYZING cycle
 
-    constructor(strategy: Strategy, apiKey: string, apiSecret: string) {
+    constructor(strategy: Strategy, tradingClient: ExchangeClient, options: AgentOptions = {}) {
         this.strategy = strategy;
         this.state = AgentState.STOPPED;
         this.balance = 0; // Initialized to 0, will be fetched from exchange
         this.pnl = 0;
         this.tradesToday = 0;
         this.openPosition = null;
-        this.tradingClient = new BybitClient(this.strategy.id, apiKey, apiSecret);
+        this.tradingClient = tradingClient;
         this.isInitialized = false;
+        this.clock = options.clock ?? systemClock;
+        this.tradesDay = getTradingDay(strategy.schedule, this.clock.now());
+        this.decisionProvider = options.decisionProvider ?? createDecisionProvider(strategy.decision);
+        this.publishEvent = options.publishEvent ?? publishDashboardEvent;
+        const recordTrade = options.recordTrade ?? logTrade;
+        this.recordTrade = trade => {
+            recordTrade(trade);
+            this.publishEvent({ type: 'trade', trade });
+        };
+        this.recordDecision = options.recordDecision ?? logDecision;
+        this.stateStore = options.stateStore ?? fileStateStore;
+        this.riskManager = options.riskManager ?? new RiskManager(undefined, this.clock);
+        this.tradeHistory = options.tradeHistory ?? ledgerTradeHistory;
+        this.isTradingLocked = options.isTradingLocked ?? isKillSwitchEngaged;
+        this.tickerStream = options.tickerStream;
+        this.setAccountStream(options.accountStream);
+    }
+
+    // Follows a different account stream, e.g. after the agent's keys were rotated; undefined stops following.
+    public setAccountStream(stream?: AccountStream) {
+        this.unsubscribeAccount?.();
+        this.unsubscribeAccount = stream?.subscribe(event => this.onAccountEvent(event)) ?? null;
+    }
+
+    /**
+     * Reacts to pushed account updates: a fill or position change that concerns what the agent
+     * is monitoring brings its next check forward to now. The check itself still reads the state
+     * from the exchange, so a missed or duplicated event only costs a poll interval.
+     */
+    private onAccountEvent(event: AccountEvent) {
+        if (this.state === AgentState.HOLDING && this.openPosition) {
+            const position = this.openPosition;
+            if (event.type === 'execution' && event.execution.symbol === position.symbol && parseFloat(event.execution.closedSize) > 0
+                && isExitOfTrade(event.execution, this.strategy.id, position.tradeId)) {
+                position.exitOrderId = event.execution.orderId;
+                log(this.strategy.id, `Fill of ${event.execution.closedSize} ${position.symbol} @ ${event.execution.execPrice} reduced the position (order ${event.execution.orderId}).`);
+                this.wake();
+            } else if (event.type === 'position' && event.position.symbol === position.symbol && parseFloat(event.position.size) === 0) {
+                log(this.strategy.id, `Position in ${position.symbol} reported flat by the exchange.`);
+                this.wake();
+            }
+        } else if (this.state === AgentState.PENDING_ENTRY && this.pendingEntry) {
+            if (event.type === 'order' && event.order.orderId === this.pendingEntry.orderId && !OPEN_ORDER_STATUSES.includes(event.order.orderStatus)) {
+                log(this.strategy.id, `Entry order ${event.order.orderId} is now ${event.order.orderStatus}.`);
+                this.wake();
+            }
+        }
+    }
+
+    // Runs the scheduled check now. A cycle already in flight reads the latest state itself.
+    private wake() {
+        if (this.isRunning || !this.timeoutId) return;
+        this.scheduleNextRun(0);
+    }
+
+    // Streams the ticker of the open position while there is one.
+    private syncTickerWatch() {
+        const symbol = this.openPosition?.symbol ?? null;
+        if (!this.tickerStream || this.watchedTicker?.symbol === symbol) return;
+        this.watchedTicker?.unsubscribe();
+        this.watchedTicker = symbol ? { symbol, unsubscribe: this.tickerStream.subscribeTicker(symbol) } : null;
+    }
+
+    /**
+     * Queues an edited strategy. It takes effect when the agent next starts ANALYZING, so a
+     * position or entry order in progress plays out under the settings it was opened with.
+     */
+    public updateStrategy(strategy: Strategy, version: number) {
+        this.pendingStrategy = { strategy, version };
+        log(this.strategy.id, `Strategy version ${version} saved. It applies from the next ANALYZING cycle.`);
+    }
+
+    // No position and no working entry order, even if the agent is stopped.
+    public isFlat(): boolean {
+        return !this.openPosition && !this.pendingEntry;
+    }
+
+    private applyPendingStrategy() {
+        if (!this.pendingStrategy) return;
+        const { strategy, version } = this.pendingStrategy;
+        this.pendingStrategy = null;
+        if (JSON.stringify(strategy.decision) !== JSON.stringify(this.strategy.decision)) {
+            try {
+                this.decisionProvider = createDecisionProvider(strategy.decision);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                log(this.strategy.id, `Cannot load strategy version ${version}: ${errorMessage}. Keeping the current version.`);
+                return;
+            }
+        }
+        this.strategy = strategy;
+        log(this.strategy.id, `Loaded strategy version ${version} (${this.decisionProvider.name}).`);
     }
 
     public getStatus(): AgentInfo {
@@ -37,7 +232,13 @@ export class Agent {
             state: this.state,
             balance: this.balance,
             pnl: this.pnl,
+            longPnl: this.longPnl,
+            shortPnl: this.shortPnl,
             tradesToday: this.tradesToday,
+            rejectedDecisions: this.rejectedDecisions,
+            pausePending: this.pauseRequested && this.state !== AgentState.PAUSED,
+            haltReason: this.haltReason,
+            entryBlockedReason: this.entryBlockedReason,
         };
     }
     
@@ -51,172 +252,783 @@ export class Agent {
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error during initialization';
             log(this.strategy.id, `CRITICAL: Agent initialization failed: ${errorMessage}. Agent will not start.`);
-            this.state = AgentState.ERROR;
+            this.transition(AgentState.ERROR);
             // This error will be caught by the start command handler
             throw new Error(`Agent ${this.strategy.id} failed to initialize.`);
         }
     }
 
+    /**
+     * Restores the last snapshot after a worker restart and reconciles it with the exchange.
+     * A position that is still open (or any open position found on the agent's account) is
+     * adopted and monitored again in HOLDING, and a working entry order is followed again in
+     * PENDING_ENTRY; agents that were running before resume their loop.
+     */
+    public async recover() {
+        const snapshot = this.stateStore.load(this.strategy.id);
+        if (snapshot) {
+            this.pnl = snapshot.pnl;
+            this.longPnl = snapshot.longPnl ?? 0;
+            this.shortPnl = snapshot.shortPnl ?? 0;
+            this.tradesToday = snapshot.tradesToday;
+            // Snapshots from before trading days were tracked count the day they were saved.
+            this.tradesDay = snapshot.tradesDay ?? getTradingDay(this.strategy.schedule, Date.parse(snapshot.updatedAt));
+            this.rejectedDecisions = snapshot.rejectedDecisions ?? 0;
+            this.pauseRequested = snapshot.pauseRequested ?? snapshot.state === AgentState.PAUSED;
+            this.haltReason = snapshot.haltReason ?? null;
+            log(this.strategy.id, `Restored snapshot from ${snapshot.updatedAt} (state ${snapshot.state}).`);
+        }
+
+        await this.initialize();
+        const wasRunning = !!snapshot && ![AgentState.STOPPED, AgentState.PAUSED, AgentState.HALTED].includes(snapshot.state);
+
+        if (snapshot?.openPosition) {
+            const bybitPosition = await this.tradingClient.getPosition(snapshot.openPosition.symbol);
+            const expectedSide = snapshot.openPosition.side === OrderSide.LONG ? 'Buy' : 'Sell';
+            if (bybitPosition && bybitPosition.side === expectedSide) {
+                this.openPosition = {
+                    ...snapshot.openPosition,
+                    tradeId: snapshot.openPosition.tradeId ?? randomUUID(),
+                    entryPrice: parseFloat(bybitPosition.avgPrice),
+                    size: parseFloat(bybitPosition.size),
+                    unrealizedPnl: parseFloat(bybitPosition.unrealisedPnl),
+                    stopLoss: parseLevel(bybitPosition.stopLoss) ?? snapshot.openPosition.stopLoss,
+                    takeProfit: parseLevel(bybitPosition.takeProfit) ?? snapshot.openPosition.takeProfit,
+                };
+            } else {
+                log(this.strategy.id, `Position in ${snapshot.openPosition.symbol} was closed while the worker was down. Recording it now.`);
+                await this.settleClosedPosition(snapshot.openPosition);
+            }
+        }
+
+        // A working entry order is followed up rather than adopted as an orphan position; the check
+        // picks up any fill that happened while the worker was down.
+        if (!this.openPosition && snapshot?.pendingEntry) {
+            this.pendingEntry = snapshot.pendingEntry;
+            log(this.strategy.id, `Restored pending ${this.pendingEntry.side} entry order ${this.pendingEntry.orderId} in ${this.pendingEntry.symbol}.`);
+        }
+
+        if (!this.openPosition && !this.pendingEntry) {
+            const openPositions = await this.tradingClient.getOpenPositions();
+            if (openPositions.length > 1) {
+                log(this.strategy.id, `WARNING: ${openPositions.length} open positions found on this account. Only ${openPositions[0].symbol} will be managed.`);
+            }
+            const orphan = openPositions[0];
+            if (orphan) {
+                const createdTime = parseInt(orphan.createdTime || '', 10);
+                this.openPosition = {
+                    symbol: orphan.symbol,
+                    side: orphan.side === 'Buy' ? OrderSide.LONG : OrderSide.SHORT,
+                    entryPrice: parseFloat(orphan.avgPrice),
+                    size: parseFloat(orphan.size),
+                    unrealizedPnl: parseFloat(orphan.unrealisedPnl),
+                    agentId: this.strategy.id,
+                    entryTimestamp: Number.isFinite(createdTime) && createdTime > 0 ? createdTime : this.clock.now(),
+                    tradeId: randomUUID(),
+                    stopLoss: parseLevel(orphan.stopLoss),
+                    takeProfit: parseLevel(orphan.takeProfit),
+                };
+                log(this.strategy.id, `Adopted untracked ${this.openPosition.side} position in ${orphan.symbol} found on the exchange.`);
+            }
+        }
+
+        if (this.openPosition) {
+            this.riskManager.registerPosition(this.strategy.id, this.openPosition.symbol, this.openPosition.size * this.openPosition.entryPrice);
+            this.transition(AgentState.HOLDING);
+            log(this.strategy.id, `Resuming in HOLDING for ${this.openPosition.symbol} (opened ${new Date(this.openPosition.entryTimestamp).toISOString()}).`);
+            this.scheduleNextRun(0);
+        } else if (this.pendingEntry) {
+            this.riskManager.registerPosition(this.strategy.id, this.pendingEntry.symbol, this.pendingEntry.qty * parseFloat(this.pendingEntry.price));
+            this.transition(AgentState.PENDING_ENTRY);
+            log(this.strategy.id, `Resuming in PENDING_ENTRY for ${this.pendingEntry.symbol}.`);
+            this.scheduleNextRun(0);
+        } else if (this.haltReason) {
+            this.transition(AgentState.HALTED);
+            log(this.strategy.id, `Agent was halted before the restart: ${this.haltReason}`);
+        } else if (this.pauseRequested) {
+            this.transition(AgentState.PAUSED);
+            log(this.strategy.id, "Agent was paused before the restart. Staying paused.");
+        } else if (wasRunning) {
+            this.transition(AgentState.COOLDOWN);
+            log(this.strategy.id, "Agent was running before the restart. Resuming trading cycle.");
+            this.scheduleNextRun(0);
+        } else {
+            this.persist();
+        }
+    }
+
     public async start() {
-        if (this.state !== AgentState.STOPPED) {
-            log(this.strategy.id, "Agent is already running.");
+        if (this.pauseRequested) {
+            this.resume();
             return;
         }
+        if (this.state === AgentState.ERROR) {
+            throw new Error('Agent is in ERROR state. Restart it instead.');
+        }
+        if (this.state === AgentState.HALTED) {
+            const haltReason = this.riskManager.getHaltReason(this.strategy.id);
+            if (haltReason) {
+                throw new Error(`Agent is halted by the risk manager: ${haltReason}`);
+            }
+            this.haltReason = null;
+            this.transition(this.getResumeState());
+            this.scheduleNextRun(0);
+            log(this.strategy.id, "Halt cleared. Agent resuming trading cycle.");
+            return;
+        }
+        if (this.state !== AgentState.STOPPED) {
+            throw new Error('Agent is already running.');
+        }
+        // The cycle interrupted by stop() is still in flight; starting now would run a second one beside it.
+        if (this.stopRequested) {
+            throw new Error('Agent is still finishing the cycle it was stopped in. Try again in a moment.');
+        }
         log(this.strategy.id, "Agent starting...");
         await this.initialize();
         
         log(this.strategy.id, "Agent starting trading cycle.");
-        this.run();
+        this.stopRequested = false;
+        // A position or entry order kept across a stop is monitored again rather than ignored.
+        if (this.openPosition || this.pendingEntry) {
+            this.transition(this.getResumeState());
+        }
+        this.scheduleNextRun(0);
     }
     
     public stop() {
         if (this.timeoutId) {
-            clearTimeout(this.timeoutId);
+            this.clock.clearTimeout(this.timeoutId);
             this.timeoutId = null;
         }
-        this.state = AgentState.STOPPED;
-        log(this.strategy.id, "Agent has been stopped.");
+        this.pauseRequested = false;
+        this.haltReason = null;
+        this.entryBlockedReason = null;
+        this.transition(AgentState.STOPPED);
+        // An in-flight cycle must not schedule another run or move the state on.
+        this.stopRequested = this.isRunning;
+        if (this.openPosition) {
+            log(this.strategy.id, `Agent has been stopped. WARNING: position in ${this.openPosition.symbol} is still open and no longer monitored.`);
+        } else if (this.pendingEntry) {
+            log(this.strategy.id, `Agent has been stopped. WARNING: entry order ${this.pendingEntry.orderId} in ${this.pendingEntry.symbol} is still working and no longer monitored.`);
+        } else {
+            log(this.strategy.id, "Agent has been stopped.");
+        }
+    }
+
+    // Lets an open position play out, but no new trades are opened until resumed.
+    public pause() {
+        if (this.state === AgentState.STOPPED) {
+            throw new Error('Agent is stopped. Start it before pausing.');
+        }
+        if (this.state === AgentState.PAUSED) {
+            throw new Error('Agent is already paused.');
+        }
+        this.pauseRequested = true;
+        if (this.openPosition || this.pendingEntry || this.isRunning) {
+            log(this.strategy.id, "Pause requested. No new positions will be opened; pausing once the current cycle finishes.");
+            this.persist();
+            return;
+        }
+        if (this.timeoutId) {
+            this.clock.clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+        this.transition(AgentState.PAUSED);
+        log(this.strategy.id, "Agent paused.");
+    }
+
+    private resume() {
+        this.pauseRequested = false;
+        if (this.state === AgentState.PAUSED) {
+            this.transition(AgentState.COOLDOWN);
+            this.scheduleNextRun(0);
+            log(this.strategy.id, "Agent resumed. Starting trading cycle.");
+        } else {
+            this.persist();
+            log(this.strategy.id, "Pause cancelled. Agent will keep trading after the current position.");
+        }
+    }
+
+    // Closes the open position immediately at market.
+    public async flatten() {
+        if (!this.openPosition) {
+            throw new Error('Agent has no open position.');
+        }
+        const position = this.openPosition;
+        log(this.strategy.id, `Flattening ${position.symbol} on operator request.`);
+        await this.tradingClient.closePosition(position.symbol, position.side, position.size.toString(), this.nextExitLinkId(position, 'exit'));
+
+        if (this.state === AgentState.HOLDING) {
+            // The running loop records the closed trade on its next check.
+            this.scheduleNextRun(5 * 1000);
+            return;
+        }
+
+        // No loop is monitoring the position (stopped, paused or errored), so book the trade here.
+        await this.clock.sleep(2000);
+        if (await this.tradingClient.getPosition(position.symbol)) {
+            throw new Error(`Close order sent but ${position.symbol} is still open on the exchange.`);
+        }
+        this.openPosition = null;
+        await this.settleClosedPosition(position);
+    }
+
+    /**
+     * Kill switch: stops the loop, waits for a cycle in flight to finish, sends reduce-only closes
+     * for every open position on the account (tracked or not) and waits until the exchange reports
+     * each one flat. The account is listed once more at the end, so a position opened meanwhile
+     * is reported as still open rather than missed.
+     */
+    public async emergencyFlatten(timeoutMs: number): Promise<EmergencyFlattenResult> {
+        this.stop();
+        const result: EmergencyFlattenResult = { agentId: this.strategy.id, closed: [], stillOpen: [], errors: [] };
+        log(this.strategy.id, "EMERGENCY: Flattening all positions.");
+        const deadline = this.clock.now() + timeoutMs;
+
+        // A cycle already past its entry checks may still be placing an order; let it land first.
+        while (this.isRunning && this.clock.now() < deadline) {
+            await this.clock.sleep(CYCLE_DRAIN_POLL_INTERVAL);
+        }
+        if (this.isRunning) {
+            result.errors.push('The trading cycle in flight did not finish in time; positions were listed without waiting for it.');
+        }
+
+        // Cancel a working entry first so it cannot fill after the positions are closed.
+        if (this.pendingEntry) {
+            try {
+                await this.tradingClient.cancelOrder(this.pendingEntry.symbol, this.pendingEntry.orderId);
+            } catch (error) {
+                result.errors.push(`Cancelling entry order in ${this.pendingEntry.symbol} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+            this.pendingEntry = null;
+            this.riskManager.release(this.strategy.id);
+        }
+
+        const targets = new Map<string, { side: OrderSide; size: string }>();
+        try {
+            for (const p of await this.tradingClient.getOpenPositions()) {
+                targets.set(p.symbol, { side: p.side === 'Buy' ? OrderSide.LONG : OrderSide.SHORT, size: p.size });
+            }
+        } catch (error) {
+            result.errors.push(`Listing open positions failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        if (this.openPosition && !targets.has(this.openPosition.symbol)) {
+            targets.set(this.openPosition.symbol, { side: this.openPosition.side, size: this.openPosition.size.toString() });
+        }
+
+        const pending = new Set<string>();
+        for (const [symbol, { side, size }] of targets) {
+            try {
+                const tracked = this.openPosition?.symbol === symbol ? this.openPosition : null;
+                await this.tradingClient.closePosition(symbol, side, size, tracked ? this.nextExitLinkId(tracked, 'exit') : undefined);
+                pending.add(symbol);
+            } catch (error) {
+                result.errors.push(`${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                // The position may already be gone; confirm below rather than assuming.
+                pending.add(symbol);
+            }
+        }
+
+        while (pending.size > 0 && this.clock.now() < deadline) {
+            await this.clock.sleep(EMERGENCY_POLL_INTERVAL);
+            for (const symbol of [...pending]) {
+                try {
+                    if (!(await this.tradingClient.getPosition(symbol))) {
+                        pending.delete(symbol);
+                        result.closed.push(symbol);
+                    }
+                } catch {
+                    // Keep polling until the deadline.
+                }
+            }
+        }
+        try {
+            for (const p of await this.tradingClient.getOpenPositions()) {
+                pending.add(p.symbol);
+            }
+        } catch (error) {
+            result.errors.push(`Confirming the account is flat failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        result.closed = result.closed.filter(symbol => !pending.has(symbol));
+        result.stillOpen = [...pending];
+
+        if (this.openPosition && result.closed.includes(this.openPosition.symbol)) {
+            const position = this.openPosition;
+            this.openPosition = null;
+            try {
+                await this.settleClosedPosition(position);
+            } catch (error) {
+                result.errors.push(`Recording closed ${position.symbol} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+        this.persist();
+
+        if (result.stillOpen.length > 0) {
+            log(this.strategy.id, `EMERGENCY: Positions still open after ${timeoutMs / 1000}s: ${result.stillOpen.join(', ')}. Manual action required.`);
+        } else {
+            log(this.strategy.id, `EMERGENCY: Flat. Closed: ${result.closed.join(', ') || 'nothing was open'}.`);
+        }
+        return result;
+    }
+
+    // Clears an ERROR state: re-runs initialization and resumes the loop right away.
+    public async restart() {
+        if (this.state !== AgentState.ERROR) {
+            throw new Error(`Agent is ${this.state}, not in ERROR.`);
+        }
+        if (this.isRunning) {
+            throw new Error('Agent is still finishing its current cycle. Try again in a moment.');
+        }
+        if (this.timeoutId) {
+            this.clock.clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+        log(this.strategy.id, "Restarting agent from ERROR state...");
+        this.isInitialized = false;
+        await this.initialize();
+        this.stopRequested = false;
+        this.transition(this.getResumeState());
+        this.scheduleNextRun(0);
     }
 
     private async run() {
+        this.isRunning = true;
+        this.rollTradingDay();
         try {
             switch (this.state) {
                 case AgentState.STOPPED:
                 case AgentState.COOLDOWN:
-                    this.state = AgentState.ANALYZING;
+                    if (this.pauseRequested) {
+                        this.transition(AgentState.PAUSED);
+                        log(this.strategy.id, "Agent paused.");
+                        break;
+                    }
+                    const haltReason = this.riskManager.getHaltReason(this.strategy.id);
+                    if (haltReason) {
+                        this.halt(haltReason);
+                        break;
+                    }
+                    this.applyPendingStrategy();
+                    if (this.checkEntryBlock()) {
+                        this.transition(AgentState.COOLDOWN);
+                        this.scheduleNextRun(ENTRY_BLOCKED_POLL_INTERVAL);
+                        break;
+                    }
+                    this.transition(AgentState.ANALYZING);
                     log(this.strategy.id, "State changed to ANALYZING. Looking for a trade...");
                     await this.analyze();
                     break;
                 
+                case AgentState.PENDING_ENTRY:
+                    await this.checkPendingEntry();
+                    break;
+
                 case AgentState.HOLDING:
                     log(this.strategy.id, `State is HOLDING. Monitoring position in ${this.openPosition!.symbol}.`);
                     await this.hold();
                     break;
                 
                 case AgentState.ERROR:
-                    log(this.strategy.id, "Agent is in ERROR state. Pausing for 1 minute before retry.");
-                    this.state = AgentState.COOLDOWN;
-                    this.scheduleNextRun(60 * 1000);
+                    log(this.strategy.id, `Agent is in ERROR state. Pausing for ${this.timings.errorPause / 1000}s before retry.`);
+                    // Go back to monitoring an open position or entry order, rather than looking for a new trade.
+                    this.transition(this.getResumeState());
+                    this.scheduleNextRun(this.timings.errorPause);
                     break;
 
                 // Other states are transitional, so we just wait for the scheduled run.
                 case AgentState.ANALYZING:
                 case AgentState.EXECUTING:
+                case AgentState.PAUSED:
+                case AgentState.HALTED:
                     break;
             }
         } catch (error) {
-            this.state = AgentState.ERROR;
             const errorMessage = error instanceof Error ? error.message : 'CRITICAL UNKNOWN ERROR';
             log(this.strategy.id, `CRITICAL ERROR in agent loop: ${errorMessage}`);
-            this.scheduleNextRun(10 * 1000);
+            this.recoverFromError(error);
+        } finally {
+            this.isRunning = false;
+            if (this.stopRequested) {
+                this.stopRequested = false;
+                this.persist(); // Capture anything the interrupted cycle changed, e.g. a position it opened
+            }
         }
     }
 
     private async analyze() {
-        const marketContext = await this.tradingClient.getMarketData();
-        const decision = await getTradeDecision(this.strategy.prompt, marketContext);
-
-        if (decision && decision.confidence !== 'low') {
-            log(this.strategy.id, `Gemini decision: Trade ${decision.symbol} with ${decision.confidence} confidence. Reason: ${decision.reason}`);
-            this.state = AgentState.EXECUTING;
-            log(this.strategy.id, "State changed to EXECUTING.");
-            await this.execute(decision);
-        } else {
-            const reason = decision ? "Confidence is too low" : "No trade decision received";
-            log(this.strategy.id, `${reason} from Gemini. Cooling down.`);
-            this.state = AgentState.COOLDOWN;
-            this.scheduleNextRun(60 * 1000); // 1 minute cooldown
+        const marketContext = await buildMarketContext(this.strategy.id, this.tradingClient, this.strategy.context);
+        const { decision, record, candidates } = await this.requestTradeDecision(marketContext);
+
+        try {
+            if (candidates.length && this.pauseRequested) {
+                log(this.strategy.id, `Skipping trade in ${candidates[0].candidate.symbol}: agent is pausing.`);
+                record.outcome = 'skipped: agent is pausing';
+                this.transition(AgentState.PAUSED);
+            } else if (candidates.length) {
+                const best = candidates[0].candidate;
+                log(this.strategy.id, `Decision from ${this.decisionProvider.name}: ${candidates.length} valid candidate(s), best ${best.side ?? 'Trade'} ${best.symbol} with ${best.confidence} confidence. Reason: ${best.reason}`);
+                this.transition(AgentState.EXECUTING);
+                log(this.strategy.id, "State changed to EXECUTING.");
+                await this.execute(candidates, record);
+            } else {
+                if (record.outcome === 'pending') {
+                    record.outcome = decision ? 'skipped: low confidence' : 'no decision';
+                }
+                const reason = decision ? "Confidence is too low" : "No usable trade decision received";
+                log(this.strategy.id, `${reason} from ${this.decisionProvider.name}. Cooling down.`);
+                this.transition(AgentState.COOLDOWN);
+                this.scheduleNextRun(this.timings.noTradeCooldown);
+            }
+        } finally {
+            this.saveDecision(record);
         }
     }
-    
-    private async execute(decision: TradeDecision) {
-        try {
-            // Set 10x leverage for the selected symbol before trading
-            await this.tradingClient.setLeverage(decision.symbol, '10');
-
-            const instrument = await this.tradingClient.getInstrumentInfo(decision.symbol);
-            const ticker = await this.tradingClient.getTicker(decision.symbol);
-            const price = parseFloat(ticker.lastPrice);
-            const minOrderSize = parseFloat(instrument.lotSizeFilter.minOrderQty);
-            const qtyStep = parseFloat(instrument.lotSizeFilter.qtyStep);
-            const tickSize = parseFloat(instrument.priceFilter.tickSize);
-
-            // Calculate TP/SL prices (10% movement for a $10 PnL on a $100 position)
-            const riskPercentage = 0.10; 
-            let takeProfitPrice: number;
-            let stopLossPrice: number;
-            const side = this.strategy.type === StrategyType.PROFIT ? OrderSide.LONG : OrderSide.SHORT;
-
-            if (side === OrderSide.LONG) {
-                stopLossPrice = price * (1 - riskPercentage);
-                takeProfitPrice = price * (1 + riskPercentage);
-            } else { // SHORT
-                stopLossPrice = price * (1 + riskPercentage);
-                takeProfitPrice = price * (1 - riskPercentage);
+
+    /**
+     * Asks for a trade decision and validates its candidates, re-asking with the validation
+     * errors when the answer is malformed or no candidate is valid. Every rejected attempt is
+     * saved and counted; the returned record is the final attempt, which the caller completes and
+     * saves. Low-confidence candidates are dropped without validation, so an answer with only
+     * those returns the decision with no candidates.
+     */
+    private async requestTradeDecision(marketContext: string): Promise<{ decision: TradeDecision | null; record: DecisionRecord; candidates: ValidatedCandidate[] }> {
+        const contextSymbols = parseContextSymbols(marketContext);
+        const allowedSides = this.getAllowedSides();
+        let repair: DecisionRepair | undefined;
+
+        for (let attempt = 1; ; attempt++) {
+            const { decision, record } = await this.requestDecision('trade', () =>
+                this.decisionProvider.getTradeDecision(this.strategy.prompt, marketContext, allowedSides, repair));
+            record.attempt = attempt;
+
+            let error: string;
+            if (!decision) {
+                // Only a malformed answer is worth repairing; transport errors are retried next cycle.
+                if (record.rawResponse === null) {
+                    return { decision: null, record, candidates: [] };
+                }
+                error = `the response could not be used (${record.error ?? 'invalid JSON structure'}).`;
+            } else {
+                const candidates: ValidatedCandidate[] = [];
+                const errors: string[] = [];
+                for (const [index, candidate] of decision.candidates.entries()) {
+                    if (candidate.confidence === 'low') continue;
+                    const validation = await validateTradeCandidate(candidate, contextSymbols, allowedSides, this.tradingClient);
+                    if (validation.status === 'valid') {
+                        candidates.push({ candidate, rank: index + 1, instrument: validation.instrument, price: validation.price });
+                    } else {
+                        errors.push(`candidate ${index + 1} (${candidate.symbol}): ${validation.error}`);
+                    }
+                }
+                this.describeCandidate(record, candidates[0]?.candidate ?? decision.candidates[0]);
+                if (candidates.length || !errors.length) {
+                    if (errors.length) {
+                        log(this.strategy.id, `Skipping invalid candidates: ${errors.join(' ')}`);
+                    }
+                    return { decision, record, candidates };
+                }
+                error = errors.join(' ');
             }
-            
-            // Format prices to the correct tick size
-            const formatPrice = (p: number) => {
-                const precision = tickSize.toString().includes('.') ? tickSize.toString().split('.')[1].length : 0;
-                return p.toFixed(precision);
-            };
-
-            const takeProfitString = formatPrice(takeProfitPrice);
-            const stopLossString = formatPrice(stopLossPrice);
-
-            // Calculate order size for a ~$100 position ($10 margin at 10x leverage)
-            const sizeInUsd = 100;
-            let qty = sizeInUsd / price;
-
-            // Adjust quantity to meet exchange rules
-            if (qty < minOrderSize) {
-                log(this.strategy.id, `Calculated quantity ${qty} is below minimum ${minOrderSize}. Aborting trade.`);
-                this.state = AgentState.COOLDOWN;
-                this.scheduleNextRun(30 * 1000);
-                return;
+
+            this.rejectedDecisions++;
+            log(this.strategy.id, `Rejected decision from ${this.decisionProvider.name} (attempt ${attempt}/${MAX_DECISION_ATTEMPTS}): ${error}`);
+            if (attempt >= MAX_DECISION_ATTEMPTS) {
+                record.outcome = `rejected: ${error}`;
+                return { decision: null, record, candidates: [] };
             }
+            record.outcome = `invalid: ${error}`;
+            this.saveDecision(record);
+            repair = { previousResponse: record.rawResponse ?? JSON.stringify(decision), error };
+        }
+    }
+
+    private describeCandidate(record: DecisionRecord, candidate: TradeCandidate) {
+        record.symbol = candidate.symbol;
+        record.side = candidate.side;
+        record.reason = candidate.reason;
+        record.confidence = candidate.confidence;
+    }
+
+    // Takes the best-ranked candidate that passes the strategy's side, sizing and risk checks.
+    private async execute(candidates: ValidatedCandidate[], record: DecisionRecord) {
+        try {
+            const rejections: string[] = [];
+            for (const { candidate, rank, instrument, price } of candidates) {
+                const symbol = candidate.symbol;
+                // The model picks the direction; recordings without one fall back to the strategy type.
+                const side = candidate.side ?? (this.strategy.type === StrategyType.PROFIT ? OrderSide.LONG : OrderSide.SHORT);
+                if (!this.getAllowedSides().includes(side)) {
+                    log(this.strategy.id, `Candidate ${side} ${symbol} is not allowed by this strategy. Skipping it.`);
+                    rejections.push(`${symbol}: ${side} is not allowed`);
+                    continue;
+                }
+
+                const leverage = this.strategy.leverage ?? DEFAULT_LEVERAGE;
+                const tickSize = parseFloat(instrument.priceFilter.tickSize);
+
+                // Limit entries are priced passively: rounded down to the tick for a LONG, up for a SHORT.
+                const useLimitEntry = this.strategy.entryOrder !== undefined && this.strategy.entryOrder.type !== 'market';
+                if (candidate.entryType === 'limit' && !useLimitEntry) {
+                    log(this.strategy.id, `Candidate ${symbol} suggests a limit entry at ${candidate.entryPrice}; this strategy enters at market.`);
+                }
+                const limitPrice = useLimitEntry
+                    ? formatPrice(await this.getEntryLimitPrice(symbol, side, candidate), tickSize, side === OrderSide.LONG ? 'down' : 'up')
+                    : undefined;
+                const entryPrice = limitPrice ? parseFloat(limitPrice) : price;
+                const { takeProfitPrice, stopLossPrice, detail: levelDetail } = resolveTradeLevels(this.strategy, side, entryPrice, candidate);
+
+                const takeProfitString = formatPrice(takeProfitPrice, tickSize);
+                const stopLossString = formatPrice(stopLossPrice, tickSize);
 
-            // Adjust to qtyStep (precision)
-            qty = Math.floor(qty / qtyStep) * qtyStep;
-            const finalQtyString = qty.toFixed(qtyStep.toString().includes('.') ? qtyStep.toString().split('.')[1].length : 0);
-
-            await this.tradingClient.placeOrder(decision.symbol, side, finalQtyString, takeProfitString, stopLossString);
-            
-            // Wait a moment for the position to register on the exchange
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            
-            const bybitPosition = await this.tradingClient.getPosition(decision.symbol);
-            if (!bybitPosition) {
-                throw new Error("Position not found on exchange after placing order.");
+                const sizing = getSizingModel(this.strategy);
+                let candles: Candle[] | undefined;
+                if (sizing.type === 'volatilityScaled') {
+                    const { interval, limit } = getAtrCandleRequest(sizing);
+                    candles = await this.tradingClient.getCandles(symbol, interval, limit);
+                }
+                const { qty: rawQty, detail } = computeOrderQty(sizing, {
+                    balance: this.balance,
+                    price: entryPrice,
+                    leverage,
+                    stopLossPrice,
+                    candles,
+                    recentTrades: sizing.type === 'kelly' ? combineTradeLegs(this.tradeHistory(this.strategy.id)) : undefined,
+                });
+
+                // Adjust quantity to meet exchange rules
+                const sized = fitQtyToInstrument(rawQty, entryPrice, instrument, !limitPrice);
+                if (sized.status === 'rejected') {
+                    log(this.strategy.id, `Order for ${symbol} rejected by sizing (${detail}): ${sized.reason} Skipping it.`);
+                    rejections.push(`${symbol}: ${sized.reason}`);
+                    continue;
+                }
+                const finalQtyString = sized.qtyString;
+                const qty = sized.qty;
+                log(this.strategy.id, `Sized ${symbol} order at ${finalQtyString} (~$${(qty * entryPrice).toFixed(2)} notional, ${leverage}x): ${detail}. Levels: ${levelDetail}.`);
+
+                const riskCheck = this.riskManager.reserve(this.strategy.id, symbol, qty * entryPrice);
+                if (!riskCheck.approved) {
+                    if (riskCheck.halt) {
+                        record.outcome = `rejected: ${riskCheck.reason}`;
+                        this.halt(riskCheck.reason!);
+                        return;
+                    }
+                    log(this.strategy.id, `Risk check rejected trade in ${symbol}: ${riskCheck.reason} Skipping it.`);
+                    rejections.push(`${symbol}: ${riskCheck.reason}`);
+                    continue;
+                }
+
+                const veto = this.getEntryVeto();
+                if (veto) {
+                    this.riskManager.release(this.strategy.id);
+                    log(this.strategy.id, `Not entering ${symbol}: ${veto}.`);
+                    record.outcome = `skipped: ${veto}`;
+                    this.transition(AgentState.COOLDOWN);
+                    this.scheduleNextRun(this.timings.noTradeCooldown);
+                    return;
+                }
+                await this.tradingClient.setLeverage(symbol, leverage.toString());
+                this.describeCandidate(record, candidate);
+                record.side = side;
+                record.candidateRank = rank;
+                const limit = limitPrice ? { price: limitPrice, timeInForce: this.getEntryTimeInForce() } : undefined;
+                const tradeId = randomUUID();
+                const decision = { decisionPrice: price, decidedAt: this.clock.now() };
+                const order = await this.tradingClient.placeOrder(symbol, side, finalQtyString, takeProfitString, stopLossString, limit,
+                    buildOrderLinkId(this.strategy.id, tradeId, 'entry', 0));
+                record.orderId = order.orderId;
+                record.tradeId = tradeId;
+
+                if (limit) {
+                    this.pendingEntry = {
+                        symbol,
+                        side,
+                        tradeId: record.tradeId,
+                        orderId: order.orderId,
+                        qty,
+                        filledQty: 0,
+                        price: limit.price,
+                        takeProfit: takeProfitString,
+                        stopLoss: stopLossString,
+                        placedAt: this.clock.now(),
+                        replaces: 0,
+                        ...decision,
+                    };
+                    record.outcome = 'entry order placed';
+                    this.transition(AgentState.PENDING_ENTRY);
+                    log(this.strategy.id, `Placed ${limit.timeInForce} limit ${side} entry for ${finalQtyString} ${symbol} @ ${limit.price}. Waiting for a fill.`);
+                    this.scheduleNextRun(ENTRY_POLL_INTERVAL);
+                    return;
+                }
+
+                await this.trackNewPosition(symbol, tradeId, order.orderId, takeProfitString, stopLossString, decision);
+                record.outcome = 'opened';
+                return;
             }
-            
-            this.openPosition = {
-                symbol: bybitPosition.symbol,
-                side: bybitPosition.side === 'Buy' ? OrderSide.LONG : OrderSide.SHORT,
-                entryPrice: parseFloat(bybitPosition.avgPrice),
-                size: parseFloat(bybitPosition.size),
-                unrealizedPnl: parseFloat(bybitPosition.unrealisedPnl),
-                agentId: this.strategy.id,
-                entryTimestamp: Date.now(),
-            };
-            
-            this.tradesToday += 1;
-            this.state = AgentState.HOLDING;
-            log(this.strategy.id, `Successfully opened ${side} position for ${finalQtyString} ${decision.symbol} with TP ${takeProfitString} and SL ${stopLossString}.`);
-            this.scheduleNextRun(15 * 1000); // Check position status every 15 seconds
+
+            log(this.strategy.id, `No candidate passed the entry checks (${rejections.join('; ')}). Cooling down.`);
+            record.outcome = `rejected: ${rejections.join('; ')}`;
+            this.transition(AgentState.COOLDOWN);
+            this.scheduleNextRun(this.timings.noTradeCooldown);
         } catch (error) {
-            this.state = AgentState.ERROR;
+            if (!this.openPosition && !this.pendingEntry) {
+                this.riskManager.release(this.strategy.id);
+            }
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            record.outcome = `error: ${errorMessage}`;
             log(this.strategy.id, `Error executing trade: ${errorMessage}`);
-            this.scheduleNextRun(10 * 1000);
+            this.recoverFromError(error);
+        }
+    }
+
+    // Waits for a just-filled entry to show up on the exchange and starts monitoring it.
+    private async trackNewPosition(symbol: string, tradeId: string, orderId: string, takeProfit: string, stopLoss: string, decision: Pick<Position, 'decisionPrice' | 'decidedAt'>) {
+        // Wait a moment for the position to register on the exchange
+        await this.clock.sleep(2000);
+
+        const bybitPosition = await this.tradingClient.getPosition(symbol);
+        if (!bybitPosition) {
+            throw new Error("Position not found on exchange after placing order.");
+        }
+
+        this.openPosition = {
+            symbol: bybitPosition.symbol,
+            side: bybitPosition.side === 'Buy' ? OrderSide.LONG : OrderSide.SHORT,
+            entryPrice: parseFloat(bybitPosition.avgPrice),
+            size: parseFloat(bybitPosition.size),
+            unrealizedPnl: parseFloat(bybitPosition.unrealisedPnl),
+            agentId: this.strategy.id,
+            entryTimestamp: this.clock.now(),
+            tradeId,
+            orderId,
+            stopLoss: parseFloat(stopLoss),
+            takeProfit: parseFloat(takeProfit),
+            initialSize: parseFloat(bybitPosition.size),
+            ...decision,
+        };
+        this.pendingEntry = null;
+
+        this.tradesToday += 1;
+        this.transition(AgentState.HOLDING);
+        log(this.strategy.id, `Successfully opened ${this.openPosition.side} position for ${bybitPosition.size} ${symbol} with TP ${takeProfit} and SL ${stopLoss}.`);
+        this.scheduleNextRun(this.timings.positionCheck);
+    }
+
+    /**
+     * Follows a resting entry order. A full fill moves on to HOLDING. An order still unfilled after
+     * the fill timeout, or one the exchange cancelled (e.g. a post-only order that would have
+     * crossed), is re-priced for its unfilled rest up to maxReplaces times; after that whatever
+     * filled is held, or the entry is abandoned.
+     */
+    private async checkPendingEntry() {
+        const entry = this.pendingEntry!;
+        const config = this.getEntryOrderConfig();
+        let order = await this.tradingClient.getOrder(entry.symbol, entry.orderId);
+        if (!order) {
+            throw new Error(`Entry order ${entry.orderId} for ${entry.symbol} not found on the exchange.`);
+        }
+
+        if (OPEN_ORDER_STATUSES.includes(order.orderStatus)) {
+            const timeoutMs = (config.fillTimeoutSec ?? DEFAULT_ENTRY_FILL_TIMEOUT_SEC) * 1000;
+            if (this.clock.now() - entry.placedAt < timeoutMs) {
+                this.scheduleNextRun(ENTRY_POLL_INTERVAL);
+                return;
+            }
+            log(this.strategy.id, `Entry order ${entry.orderId} still open after ${timeoutMs / 1000}s (${order.cumExecQty}/${order.qty} filled). Cancelling.`);
+            await this.tradingClient.cancelOrder(entry.symbol, entry.orderId);
+            // A fill can land between the check and the cancel, so the order's final state decides.
+            order = (await this.tradingClient.getOrder(entry.symbol, entry.orderId)) ?? order;
+        }
+
+        if (order.orderStatus === 'Filled') {
+            await this.completeEntry(entry);
+            return;
+        }
+        log(this.strategy.id, `Entry order ${entry.orderId} ended ${order.orderStatus} with ${order.cumExecQty || '0'}/${order.qty} filled.`);
+
+        entry.filledQty += parseFloat(order.cumExecQty || '0');
+        const remaining = entry.qty - entry.filledQty;
+        if (remaining > 0 && entry.replaces < (config.maxReplaces ?? DEFAULT_ENTRY_MAX_REPLACES) && !this.pauseRequested) {
+            if (await this.replaceEntryOrder(entry, remaining)) return;
+        }
+
+        if (entry.filledQty > 0) {
+            log(this.strategy.id, `Keeping the partial fill of ${entry.filledQty}/${entry.qty} ${entry.symbol}.`);
+            await this.completeEntry(entry);
+        } else {
+            log(this.strategy.id, `Entry in ${entry.symbol} abandoned after ${entry.replaces + 1} unfilled order(s). Cooling down.`);
+            this.pendingEntry = null;
+            this.riskManager.release(this.strategy.id);
+            this.transition(AgentState.COOLDOWN);
+            this.scheduleNextRun(this.timings.noTradeCooldown);
+        }
+    }
+
+    // Places a re-priced order for the unfilled rest; false if the rest is below the exchange minimum
+    // or no entry order may be sent any more.
+    private async replaceEntryOrder(entry: PendingEntry, remaining: number): Promise<boolean> {
+        const instrument = await this.tradingClient.getInstrumentInfo(entry.symbol);
+        const tickSize = parseFloat(instrument.priceFilter.tickSize);
+        const price = formatPrice(await this.getEntryLimitPrice(entry.symbol, entry.side), tickSize, entry.side === OrderSide.LONG ? 'down' : 'up');
+        const sized = fitQtyToInstrument(remaining, parseFloat(price), instrument, false);
+        if (sized.status === 'rejected') {
+            log(this.strategy.id, `Unfilled rest of ${remaining} ${entry.symbol} cannot be re-ordered: ${sized.reason}`);
+            return false;
+        }
+
+        const veto = this.getEntryVeto();
+        if (veto) {
+            log(this.strategy.id, `Not re-ordering the rest of ${entry.symbol}: ${veto}.`);
+            return false;
+        }
+        const limit = { price, timeInForce: this.getEntryTimeInForce() };
+        const order = await this.tradingClient.placeOrder(entry.symbol, entry.side, sized.qtyString, entry.takeProfit, entry.stopLoss, limit,
+            buildOrderLinkId(this.strategy.id, entry.tradeId, 'entry', entry.replaces + 1));
+        entry.orderId = order.orderId;
+        entry.price = price;
+        entry.placedAt = this.clock.now();
+        entry.replaces += 1;
+        this.persist();
+        log(this.strategy.id, `Replaced entry order: ${limit.timeInForce} limit ${entry.side} ${sized.qtyString} ${entry.symbol} @ ${price} (replace ${entry.replaces}).`);
+        this.scheduleNextRun(ENTRY_POLL_INTERVAL);
+        return true;
+    }
+
+    private async completeEntry(entry: PendingEntry) {
+        await this.trackNewPosition(entry.symbol, entry.tradeId, entry.orderId, entry.takeProfit, entry.stopLoss, entry);
+        // The reservation was for the full size; a partial fill holds less.
+        this.riskManager.registerPosition(this.strategy.id, entry.symbol, this.openPosition!.size * this.openPosition!.entryPrice);
+    }
+
+    // The model's price when it proposed a limit entry, otherwise the mid moved offsetBps to the passive side.
+    private async getEntryLimitPrice(symbol: string, side: OrderSide, candidate?: TradeCandidate): Promise<number> {
+        if (candidate?.entryType === 'limit' && candidate.entryPrice !== undefined) {
+            return candidate.entryPrice;
         }
+        const ticker = await this.tradingClient.getTicker(symbol);
+        const bid = parseFloat(ticker.bid1Price ?? '');
+        const ask = parseFloat(ticker.ask1Price ?? '');
+        const mid = bid > 0 && ask > 0 ? (bid + ask) / 2 : parseFloat(ticker.lastPrice);
+        const offset = (this.getEntryOrderConfig().offsetBps ?? 0) / 10000;
+        return side === OrderSide.LONG ? mid * (1 - offset) : mid * (1 + offset);
+    }
+
+    // A pending entry outlives a strategy edit that switches back to market entries; it is followed as a GTC limit.
+    private getEntryOrderConfig(): EntryOrderConfig {
+        const config = this.strategy.entryOrder;
+        return config && config.type !== 'market' ? config : { type: 'limit' };
+    }
+
+    private getEntryTimeInForce(): TimeInForce {
+        const config = this.getEntryOrderConfig();
+        return config.type === 'postOnly' ? 'PostOnly' : config.timeInForce ?? 'GTC';
     }
 
     private async hold() {
         if (!this.openPosition) {
-            this.state = AgentState.COOLDOWN;
+            this.transition(AgentState.COOLDOWN);
             log(this.strategy.id, "No open position to hold. Cooling down.");
-            this.scheduleNextRun(15 * 1000);
+            this.scheduleNextRun(this.timings.positionCheck);
             return;
         }
 
@@ -228,26 +1040,167 @@ export class Agent {
         }
 
         this.openPosition.unrealizedPnl = parseFloat(bybitPosition.unrealisedPnl);
+        this.openPosition.size = parseFloat(bybitPosition.size);
+        this.publishStatus();
         log(this.strategy.id, `Current PnL for ${this.openPosition.symbol}: $${this.openPosition.unrealizedPnl.toFixed(2)}`);
-        
-        const heldDuration = Date.now() - this.openPosition.entryTimestamp;
-        if (heldDuration > MAX_HOLD_DURATION) {
+        await this.scaleOut(this.openPosition, bybitPosition.markPrice);
+        await this.manageStop(this.openPosition, bybitPosition.markPrice);
+
+        const heldDuration = this.clock.now() - this.openPosition.entryTimestamp;
+        if (heldDuration > this.timings.maxHold) {
             log(this.strategy.id, "Max hold duration reached. Forcing position closure.");
             await this.closePosition("Max hold duration reached");
             return;
         }
 
-        const marketContext = await this.tradingClient.getMarketData();
-        const decision = await getHoldDecision(this.strategy.prompt, this.openPosition, marketContext);
+        const blackout = getActiveBlackout(this.strategy.schedule, this.clock.now());
+        if (blackout?.flatten) {
+            log(this.strategy.id, `Blackout until ${blackout.end}${blackout.reason ? ` (${blackout.reason})` : ''}. Closing the position.`);
+            await this.closePosition("Blackout");
+            return;
+        }
+
+        const marketContext = await buildMarketContext(this.strategy.id, this.tradingClient, this.strategy.context);
+        const position = this.openPosition;
+        const { decision, record } = await this.requestDecision('hold', () =>
+            this.decisionProvider.getHoldDecision(this.strategy.prompt, position, marketContext));
+        record.symbol = position.symbol;
+        record.side = position.side;
+        record.tradeId = position.tradeId;
+        record.orderId = position.orderId;
+        record.outcome = decision ?? 'HOLD: no decision';
+        this.saveDecision(record);
 
         if (decision === 'CLOSE') {
             await this.closePosition("AI decision");
         } else {
-            log(this.strategy.id, "AI decision is to HOLD. Checking again in 1 minute.");
-            this.scheduleNextRun(60 * 1000);
+            log(this.strategy.id, `AI decision is to HOLD. Checking again in ${this.timings.holdCheck / 1000}s.`);
+            this.scheduleNextRun(this.timings.holdCheck);
         }
     }
     
+    /**
+     * Closes the next leg of the strategy's scale-out ladder once its profit level is reached, and
+     * books that leg as its own entry in the trade ledger. A leg that would close (nearly) all of
+     * what is left, or falls below the exchange minimum, is skipped; the rest then runs to its
+     * exit like an unscaled position.
+     */
+    private async scaleOut(position: Position, markPrice: string | undefined) {
+        const ladder = [...(this.strategy.scaleOut ?? [])].sort((a, b) => a.profitPct - b.profitPct);
+        const done = position.scaleOutStep ?? 0;
+        const initialSize = position.initialSize ?? position.size;
+        const closedSoFar = initialSize - position.size;
+
+        try {
+            const price = parseFloat(markPrice ?? (await this.tradingClient.getTicker(position.symbol)).lastPrice);
+            const direction = position.side === OrderSide.LONG ? 1 : -1;
+            const profitPct = direction * (price - position.entryPrice) / position.entryPrice * 100;
+
+            // Legs reached at once (a gap, or a restart) are taken together as one close.
+            const reached = ladder.slice(done).filter(leg => profitPct >= leg.profitPct);
+            if (reached.length === 0) return;
+            const target = reached[reached.length - 1];
+            const closePct = ladder.slice(0, done + reached.length).reduce((sum, leg) => sum + leg.closePct, 0);
+
+            const instrument = await this.tradingClient.getInstrumentInfo(position.symbol);
+            const sized = fitQtyToInstrument(initialSize * closePct / 100 - closedSoFar, price, instrument);
+            if (sized.status === 'rejected' || sized.qty >= position.size) {
+                const why = sized.status === 'rejected' ? sized.reason : 'it would close the whole position.';
+                log(this.strategy.id, `Skipping scale-out at +${target.profitPct}% for ${position.symbol}: ${why}`);
+                position.scaleOutStep = done + reached.length;
+                this.persist();
+                return;
+            }
+
+            const order = await this.tradingClient.closePosition(position.symbol, position.side, sized.qtyString, this.nextExitLinkId(position, 'scaleOut'));
+            await this.clock.sleep(2000);
+            const settlement = await this.matchExit(position, sized.qty, order.orderId);
+            const matched = settlement ? null : await this.tradingClient.getClosedPnl(position.symbol, order.orderId);
+            if (!settlement && !matched) {
+                log(this.strategy.id, `WARNING: No fills found for scale-out order ${order.orderId}; the leg is booked at the mark price without fees.`);
+            }
+            const closePrice = settlement?.closePrice ?? (matched ? parseFloat(matched.avgExitPrice) : price);
+            const pnl = settlement?.pnl ?? (matched ? parseFloat(matched.closedPnl) : direction * (price - position.entryPrice) * sized.qty);
+            const closedAt = settlement?.closedAt ?? (matched ? parseInt(matched.updatedTime) : this.clock.now());
+
+            position.size = parseFloat((position.size - sized.qty).toFixed(12));
+            position.realizedPnl = (position.realizedPnl ?? 0) + pnl;
+            const reason = `scale-out ${reached.reduce((sum, leg) => sum + leg.closePct, 0)}% at +${target.profitPct}%`;
+            position.scaleOutStep = done + reached.length;
+            position.legs = [...(position.legs ?? []), { timestamp: this.clock.now(), size: sized.qty, closePrice, pnl, reason, orderId: order.orderId }];
+            this.bookPnl(position.side, pnl);
+            this.recordTrade({
+                timestamp: new Date(closedAt).toISOString(),
+                agentId: this.strategy.id,
+                symbol: position.symbol,
+                side: position.side,
+                size: sized.qty,
+                entryPrice: position.entryPrice,
+                closePrice,
+                pnl,
+                id: position.tradeId,
+                orderId: position.orderId,
+                leg: position.legs.length,
+                remainingSize: position.size,
+                ...getFillDetails(settlement),
+            });
+            this.riskManager.recordPartialClose(this.strategy.id, pnl, position.size * position.entryPrice);
+            this.persist();
+            log(this.strategy.id, `Closed ${sized.qtyString} of ${position.symbol} (${reason}). Realized PnL: $${pnl.toFixed(2)}. ${position.size} left open.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(this.strategy.id, `WARNING: Scale-out for ${position.symbol} failed: ${errorMessage}`);
+        }
+    }
+
+    private bookPnl(side: OrderSide, pnl: number) {
+        this.pnl += pnl;
+        if (side === OrderSide.LONG) {
+            this.longPnl += pnl;
+        } else {
+            this.shortPnl += pnl;
+        }
+        this.balance += pnl;
+    }
+
+    // Tightens the position's stop on the exchange when the strategy's stop management rules call for it.
+    private async manageStop(position: Position, markPrice: string | undefined) {
+        const config = this.strategy.stopManagement;
+        if (!config) return;
+
+        try {
+            const price = parseFloat(markPrice ?? (await this.tradingClient.getTicker(position.symbol)).lastPrice);
+            const direction = position.side === OrderSide.LONG ? 1 : -1;
+            const previousBest = position.bestPrice ?? position.entryPrice;
+            position.bestPrice = direction * (price - previousBest) > 0 ? price : previousBest;
+
+            const candleRequest = getTrailingCandleRequest(config);
+            const candles = candleRequest
+                ? await this.tradingClient.getCandles(position.symbol, candleRequest.interval, candleRequest.limit)
+                : undefined;
+            const managed = computeManagedStop(config, position.side, position.entryPrice, position.stopLoss, position.bestPrice, price, candles);
+            if (!managed) return;
+
+            // Rounded away from the price so the stop never ends up looser than computed.
+            const instrument = await this.tradingClient.getInstrumentInfo(position.symbol);
+            const stopLoss = formatPrice(managed.stopLoss, parseFloat(instrument.priceFilter.tickSize), position.side === OrderSide.LONG ? 'down' : 'up');
+            const from = position.stopLoss ?? null;
+            if (from !== null && parseFloat(stopLoss) === from) return;
+
+            await this.tradingClient.setTradingStop(position.symbol, { stopLoss });
+            position.stopLoss = parseFloat(stopLoss);
+            position.stopChanges = [
+                ...(position.stopChanges ?? []),
+                { timestamp: this.clock.now(), from, to: position.stopLoss, reason: managed.reason },
+            ];
+            this.persist();
+            log(this.strategy.id, `Stop for ${position.symbol} moved ${from ?? 'none'} -> ${stopLoss} (${managed.reason}).`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(this.strategy.id, `WARNING: Could not update the stop for ${position.symbol}: ${errorMessage}`);
+        }
+    }
+
     private async recordClosedPosition() {
         if (!this.openPosition) return;
         
@@ -255,63 +1208,267 @@ export class Agent {
         this.openPosition = null; // Clear position immediately to prevent race conditions
         
         try {
-            const closedPnlData = await this.tradingClient.getClosedPnl(originalPosition.symbol);
-            
-            if (!closedPnlData) {
-                log(this.strategy.id, `Could not find closed PnL data for ${originalPosition.symbol}. PnL will not be recorded for this trade.`);
-            } else {
-                const finalPnl = parseFloat(closedPnlData.closedPnl);
-                const closePrice = parseFloat(closedPnlData.avgExitPrice);
-                
-                this.pnl += finalPnl;
-                this.balance += finalPnl;
+            await this.settleClosedPosition(originalPosition);
 
-                logTrade({
-                    timestamp: new Date(parseInt(closedPnlData.updatedTime)).toISOString(),
-                    agentId: this.strategy.id,
-                    symbol: originalPosition.symbol,
-                    side: originalPosition.side,
-                    size: originalPosition.size,
-                    entryPrice: originalPosition.entryPrice,
-                    closePrice: closePrice,
-                    pnl: finalPnl,
-                });
-                
-                log(this.strategy.id, `Position recorded. Realized PnL: $${finalPnl.toFixed(2)}. New balance: $${this.balance.toFixed(2)}.`);
+            const haltReason = this.riskManager.getHaltReason(this.strategy.id);
+            if (haltReason) {
+                this.halt(haltReason);
+                return;
             }
-
-            this.state = AgentState.COOLDOWN;
-            log(this.strategy.id, `Cooling down for 2 minutes.`);
-            this.scheduleNextRun(2 * 60 * 1000);
+            if (this.pauseRequested) {
+                this.transition(AgentState.PAUSED);
+                log(this.strategy.id, "Position closed. Agent paused.");
+                return;
+            }
+            this.transition(AgentState.COOLDOWN);
+            log(this.strategy.id, `Cooling down for ${this.timings.closeCooldown / 1000}s.`);
+            this.scheduleNextRun(this.timings.closeCooldown);
 
         } catch(error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             log(this.strategy.id, `Error recording closed position: ${errorMessage}`);
-            this.state = AgentState.ERROR;
-            this.scheduleNextRun(10 * 1000);
+            this.riskManager.release(this.strategy.id);
+            this.recoverFromError(error);
         }
     }
 
 
+    /**
+     * Books the realized PnL of a position that is no longer open on the exchange. The close is
+     * priced from the trade's own fills: its entry orders, and the agent's close orders or the
+     * TP/SL or liquidation that closed it. Without them, the closed PnL record of the exit order is
+     * used when that order is known; a close that cannot be tied to this trade is not booked.
+     */
+    private async settleClosedPosition(originalPosition: Position) {
+        // A streamed scale-out fill is not the final exit; its leg is already booked.
+        const exitOrderId = originalPosition.legs?.some(leg => leg.orderId === originalPosition.exitOrderId)
+            ? undefined
+            : originalPosition.exitOrderId;
+        const settlement = await this.matchExit(originalPosition, originalPosition.size);
+        if (settlement && settlement.size < originalPosition.size * (1 - 1e-9)) {
+            log(this.strategy.id, `WARNING: Only ${settlement.size} of ${originalPosition.size} ${originalPosition.symbol} matched to exit fills; the rest is not booked.`);
+        }
+        const closedPnlData = !settlement && exitOrderId ? await this.tradingClient.getClosedPnl(originalPosition.symbol, exitOrderId) : null;
+
+        if (!settlement && !closedPnlData) {
+            log(this.strategy.id, `Could not attribute the close of ${originalPosition.symbol} to this trade's orders. PnL will not be recorded for this trade.`);
+            this.riskManager.release(this.strategy.id);
+        } else {
+            const finalPnl = settlement?.pnl ?? parseFloat(closedPnlData!.closedPnl);
+            const closePrice = settlement?.closePrice ?? parseFloat(closedPnlData!.avgExitPrice);
+            const closedAt = settlement?.closedAt ?? parseInt(closedPnlData!.updatedTime);
+
+            this.bookPnl(originalPosition.side, finalPnl);
+            const legsBefore = originalPosition.legs?.length ?? 0;
+
+            this.recordTrade({
+                timestamp: new Date(closedAt).toISOString(),
+                agentId: this.strategy.id,
+                symbol: originalPosition.symbol,
+                side: originalPosition.side,
+                size: originalPosition.size,
+                entryPrice: originalPosition.entryPrice,
+                closePrice: closePrice,
+                pnl: finalPnl,
+                id: originalPosition.tradeId,
+                orderId: originalPosition.orderId,
+                ...(legsBefore > 0 ? { leg: legsBefore + 1, remainingSize: 0 } : {}),
+                ...getFillDetails(settlement),
+            });
+            this.riskManager.recordClose(this.strategy.id, finalPnl);
+
+            log(this.strategy.id, `Position recorded. Realized PnL: $${finalPnl.toFixed(2)}. New balance: $${this.balance.toFixed(2)}.`);
+        }
+        // Persist right away so a crash before the next transition cannot book this trade twice.
+        this.persist();
+    }
+
+    // Matches a close of `size` of the position to its fills, waiting once for fills the execution
+    // history does not list yet. With exitOrderId, only that order's fills count.
+    private async matchExit(position: Position, size: number, exitOrderId?: string): Promise<FillSettlement | null> {
+        const since = position.decidedAt ?? position.entryTimestamp;
+        const lastLeg = position.legs?.[position.legs.length - 1];
+        const request = { size, exitOrderId, fundingSince: lastLeg?.timestamp ?? since };
+        const settle = async () =>
+            settleFromExecutions(await this.tradingClient.getExecutions(position.symbol, since), this.strategy.id, position, request);
+
+        const settlement = await settle();
+        if (settlement && settlement.size >= size * (1 - 1e-9)) return settlement;
+        await this.clock.sleep(EXECUTION_LIST_DELAY);
+        return (await settle()) ?? settlement;
+    }
+
+    // The orderLinkId for the position's next closing order; none for positions without a trade ID.
+    private nextExitLinkId(position: Position, role: OrderRole): string | undefined {
+        if (!position.tradeId) return undefined;
+        const n = position.exitOrders ?? 0;
+        position.exitOrders = n + 1;
+        return buildOrderLinkId(this.strategy.id, position.tradeId, role, n);
+    }
+
     private async closePosition(reason: string) {
         if (!this.openPosition) return;
 
         log(this.strategy.id, `Closing position for ${this.openPosition.symbol}. Reason: ${reason}`);
         
         try {
-            await this.tradingClient.closePosition(this.openPosition.symbol, this.openPosition.side, this.openPosition.size.toString());
+            const order = await this.tradingClient.closePosition(this.openPosition.symbol, this.openPosition.side, this.openPosition.size.toString(),
+                this.nextExitLinkId(this.openPosition, 'exit'));
+            this.openPosition.exitOrderId = order.orderId;
             log(this.strategy.id, `Close order sent for ${this.openPosition.symbol}. Will confirm closure shortly.`);
             this.scheduleNextRun(5 * 1000); // Check again quickly to record the closed trade
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             log(this.strategy.id, `Error sending close order for ${this.openPosition.symbol}: ${errorMessage}`);
-            this.state = AgentState.ERROR;
-            this.scheduleNextRun(10 * 1000);
+            this.recoverFromError(error);
+        }
+    }
+
+    // Calls the decision provider and builds its audit record; the caller fills in the outcome and saves it.
+    private async requestDecision<T>(kind: DecisionRecord['kind'], request: () => Promise<DecisionResponse<T>>): Promise<{ decision: T | null; record: DecisionRecord }> {
+        const startedAt = Date.now();
+        const response = await request();
+        const record: DecisionRecord = {
+            id: randomUUID(),
+            timestamp: new Date(this.clock.now()).toISOString(),
+            agentId: this.strategy.id,
+            kind,
+            provider: this.decisionProvider.name,
+            prompt: response.prompt ?? null,
+            rawResponse: response.rawResponse ?? null,
+            decision: response.decision,
+            reason: response.reason,
+            latencyMs: Date.now() - startedAt,
+            usage: response.usage,
+            error: response.error,
+            outcome: 'pending',
+        };
+        return { decision: response.decision, record };
+    }
+
+    private saveDecision(record: DecisionRecord) {
+        try {
+            this.recordDecision(record);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(this.strategy.id, `WARNING: Failed to record decision ${record.id}: ${errorMessage}`);
         }
     }
 
+    private getAllowedSides(): OrderSide[] {
+        return this.strategy.allowedSides?.length ? this.strategy.allowedSides : ALL_SIDES;
+    }
+
+    // Stops the trading loop until an operator restarts the agent once the cause is cleared.
+    private halt(reason: string) {
+        this.haltReason = reason;
+        log(this.strategy.id, `HALTED: ${reason}`);
+        this.transition(AgentState.HALTED);
+    }
+
+    /**
+     * Picks up after a failed step by the class of exchange error behind it. A rejected API key
+     * halts the agent, since retrying cannot help until the key is fixed. Without anything open,
+     * a lack of margin or an unlisted symbol cools it down until the next trade search. Anything
+     * else goes through ERROR and is retried shortly, after a longer pause when rate-limited.
+     */
+    private recoverFromError(error: unknown) {
+        const kind = getExchangeErrorKind(error);
+        if (kind === 'auth') {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.halt(`The exchange rejected the API key: ${errorMessage}`);
+            return;
+        }
+        if ((kind === 'insufficientMargin' || kind === 'invalidSymbol') && !this.openPosition && !this.pendingEntry) {
+            log(this.strategy.id, `Cooling down for ${this.timings.noTradeCooldown / 1000}s (${kind === 'insufficientMargin' ? 'insufficient margin' : 'symbol not tradable'}).`);
+            this.transition(AgentState.COOLDOWN);
+            this.scheduleNextRun(this.timings.noTradeCooldown);
+            return;
+        }
+        this.transition(AgentState.ERROR);
+        this.scheduleNextRun(kind === 'rateLimited' ? this.timings.errorPause : this.timings.errorRetry);
+    }
+
+    private transition(state: AgentState) {
+        if (this.stopRequested) return;
+        this.state = state;
+        this.syncTickerWatch();
+        this.persist();
+    }
+
+    private persist() {
+        try {
+            this.stateStore.save({
+                agentId: this.strategy.id,
+                state: this.state,
+                balance: this.balance,
+                pnl: this.pnl,
+                longPnl: this.longPnl,
+                shortPnl: this.shortPnl,
+                tradesToday: this.tradesToday,
+                tradesDay: this.tradesDay,
+                rejectedDecisions: this.rejectedDecisions,
+                pauseRequested: this.pauseRequested,
+                haltReason: this.haltReason,
+                openPosition: this.openPosition,
+                pendingEntry: this.pendingEntry,
+                updatedAt: new Date(this.clock.now()).toISOString(),
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(this.strategy.id, `WARNING: Failed to persist agent state: ${errorMessage}`);
+        }
+        this.publishStatus();
+    }
+
+    private publishStatus() {
+        this.publishEvent({ type: 'agent', agent: this.getStatus() });
+        this.publishEvent({ type: 'position', agentId: this.strategy.id, position: this.openPosition });
+    }
+
+    // Read on use, so an edited schedule applies as soon as the strategy is reloaded.
+    private get timings() {
+        return getTimings(this.strategy.schedule);
+    }
+
+    // Starts a new count of today's trades once the strategy's trading day has rolled over.
+    private rollTradingDay() {
+        const day = getTradingDay(this.strategy.schedule, this.clock.now());
+        if (day === this.tradesDay) return;
+        log(this.strategy.id, `New trading day ${day}: ${this.tradesToday} trade(s) on ${this.tradesDay}.`);
+        this.tradesDay = day;
+        this.tradesToday = 0;
+        this.persist();
+    }
+
+    // Whether new entries are barred right now: a blackout, the daily trade cap or outside trading hours.
+    private checkEntryBlock(): boolean {
+        const reason = getEntryBlock(this.strategy.schedule, this.clock.now(), this.tradesToday);
+        if (reason !== this.entryBlockedReason) {
+            this.entryBlockedReason = reason;
+            log(this.strategy.id, reason ? `No new entries: ${reason}.` : 'New entries are allowed again.');
+        }
+        return reason !== null;
+    }
+
+    // Why no entry order may be sent now, checked right before sending one: a cycle can outlast a
+    // stop or the kill switch while it waits on the decision provider.
+    private getEntryVeto(): string | null {
+        if (this.stopRequested || this.state === AgentState.STOPPED) return 'the agent was stopped';
+        if (this.isTradingLocked()) return 'the kill switch is engaged';
+        return null;
+    }
+
+    // Where a resumed loop picks up: monitoring what is open, or looking for a new trade.
+    private getResumeState(): AgentState {
+        if (this.openPosition) return AgentState.HOLDING;
+        if (this.pendingEntry) return AgentState.PENDING_ENTRY;
+        return AgentState.COOLDOWN;
+    }
+
     private scheduleNextRun(delay: number) {
-        if (this.timeoutId) clearTimeout(this.timeoutId);
-        this.timeoutId = setTimeout(() => this.run(), delay);
+        if (this.stopRequested) return;
+        if (this.timeoutId) this.clock.clearTimeout(this.timeoutId);
+        this.timeoutId = this.clock.setTimeout(() => this.run(), delay);
     }
 }
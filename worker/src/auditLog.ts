@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import { AuditEntry } from './types';
+import { getDataDir } from './storage';
+import { toLedgerDate } from './tradeLogger';
+import { getPrincipal } from './auth';
+import { log } from './logger';
+
+// Privileged requests are appended to one JSONL file per ledger day under <DATA_DIR>/audit.
+// Files are never rewritten.
+const PARTITION_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const DEFAULT_LIMIT = 100;
+
+export interface AuditQuery {
+    actor?: string;
+    from?: string; // Inclusive partition date, YYYY-MM-DD
+    to?: string; // Inclusive partition date, YYYY-MM-DD
+    limit?: number; // Newest first; default 100
+}
+
+const getAuditDir = () => path.join(getDataDir(), 'audit');
+
+export const recordAudit = (entry: AuditEntry) => {
+    const dir = getAuditDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, `${toLedgerDate(new Date(entry.timestamp))}.jsonl`);
+    fs.appendFileSync(file, JSON.stringify(entry) + '\n');
+};
+
+/**
+ * Records the request in the audit log once its response is sent, with the response status, so
+ * refused and failed attempts are kept too. The target is the :id route parameter, if any.
+ * A failed write is logged; it runs outside the request, where a throw would end the worker.
+ */
+export const audited = (action: string, detail?: (req: express.Request) => string | undefined): express.RequestHandler => (req, res, next) => {
+    res.on('finish', () => {
+        try {
+            const principal = getPrincipal(res);
+            recordAudit({
+                timestamp: new Date().toISOString(),
+                actor: principal?.actor ?? 'anonymous',
+                role: principal?.role,
+                action,
+                target: req.params.id,
+                detail: detail?.(req),
+                status: res.statusCode,
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log('SYSTEM', `WARNING: Could not write the audit entry for ${action} (status ${res.statusCode}): ${errorMessage}`);
+        }
+    });
+    next();
+};
+
+// Partition dates present on disk, newest first.
+const listAuditDates = (): string[] => {
+    const dir = getAuditDir();
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+        .map(file => PARTITION_PATTERN.exec(file)?.[1])
+        .filter((date): date is string => date !== undefined)
+        .sort()
+        .reverse();
+};
+
+const readPartition = (date: string): AuditEntry[] => {
+    const file = path.join(getAuditDir(), `${date}.jsonl`);
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as AuditEntry];
+            } catch {
+                // A torn final line from a crash mid-write must not hide the rest of the day.
+                return [];
+            }
+        });
+};
+
+// Matching entries, newest first.
+export const queryAudit = (query: AuditQuery = {}): AuditEntry[] => {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const results: AuditEntry[] = [];
+    for (const date of listAuditDates()) {
+        if ((query.from && date < query.from) || (query.to && date > query.to)) continue;
+        results.push(...readPartition(date).filter(e => !query.actor || e.actor === query.actor).reverse());
+        if (results.length >= limit) break;
+    }
+    return results.slice(0, limit);
+};
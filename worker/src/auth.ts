@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import path from 'path';
+import express from 'express';
+import { ApiTokenInfo, AuthUser, Role } from './types';
+import { getDataDir, readJson, writeJsonAtomic } from './storage';
+import { log } from './logger';
+
+// Users and API tokens live in <DATA_DIR>/auth.json. Only hashes are stored: scrypt for
+// passwords, SHA-256 for tokens (they are random, so a slow hash adds nothing).
+const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+const SESSION_COOKIE = 'flipedge_session';
+const SESSION_TTL = 12 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 10;
+const LAST_USED_SAVE_INTERVAL = 60 * 1000; // A busy token rewrites auth.json at most this often
+
+interface StoredUser {
+    username: string;
+    role: Role;
+    salt: string;
+    passwordHash: string;
+}
+
+interface StoredToken extends ApiTokenInfo {
+    tokenHash: string;
+}
+
+interface AuthStore {
+    users: StoredUser[];
+    tokens: StoredToken[];
+}
+
+interface Session extends AuthUser {
+    expiresAt: number;
+}
+
+// Who made the request; set by authenticate() on res.locals.principal.
+export interface Principal extends AuthUser {
+    actor: string; // How the audit log names them
+}
+
+const getAuthFile = () => path.join(getDataDir(), 'auth.json');
+
+let store: AuthStore | null = null;
+const sessions = new Map<string, Session>(); // By token hash; a worker restart logs everyone out
+const lastUseSavedAt = new Map<string, number>(); // By token hash
+
+const loadStore = (): AuthStore => {
+    if (!store) {
+        store = readJson<AuthStore>(getAuthFile()) ?? { users: [], tokens: [] };
+    }
+    return store;
+};
+
+const saveStore = () => writeJsonAtomic(getAuthFile(), loadStore());
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const hashPassword = (password: string, salt: string) => crypto.scryptSync(password, salt, 64).toString('hex');
+
+const newToken = () => crypto.randomBytes(32).toString('base64url');
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const hasRole = (role: Role, required: Role) => ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+/**
+ * Creates the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when no users exist yet. Later
+ * users are added through the API; changing the variables afterwards has no effect.
+ */
+export const bootstrapAdmin = () => {
+    if (loadStore().users.length > 0) return;
+    const username = process.env.ADMIN_USERNAME?.trim();
+    const password = process.env.ADMIN_PASSWORD;
+    if (!username || !password) {
+        log('SYSTEM', 'CRITICAL: No users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin; until then nobody can sign in.');
+        return;
+    }
+    const error = createUser(username, password, 'admin');
+    log('SYSTEM', error ? `CRITICAL: Could not create the first admin: ${error}` : `Created admin user ${username}.`);
+};
+
+// Returns an error message, or null on success.
+export const createUser = (username: string, password: string, role: Role): string | null => {
+    const users = loadStore().users;
+    if (!/^[A-Za-z0-9_.-]{3,32}$/.test(username)) return 'Usernames are 3-32 letters, digits, dots, dashes or underscores.';
+    if (password.length < MIN_PASSWORD_LENGTH) return `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+    if (users.some(u => u.username === username)) return `User ${username} already exists.`;
+    const salt = crypto.randomBytes(16).toString('hex');
+    users.push({ username, role, salt, passwordHash: hashPassword(password, salt) });
+    saveStore();
+    return null;
+};
+
+export const deleteUser = (username: string): boolean => {
+    const current = loadStore();
+    const before = current.users.length;
+    current.users = current.users.filter(u => u.username !== username);
+    if (current.users.length === before) return false;
+    saveStore();
+    for (const [hash, session] of sessions) {
+        if (session.username === username) sessions.delete(hash);
+    }
+    return true;
+};
+
+export const listUsers = (): AuthUser[] => loadStore().users.map(({ username, role }) => ({ username, role }));
+
+const verifyPassword = (username: string, password: string): StoredUser | null => {
+    const user = loadStore().users.find(u => u.username === username);
+    // Hash anyway for unknown users so response times do not reveal which usernames exist.
+    const expected = Buffer.from(user?.passwordHash ?? '0'.repeat(128), 'hex');
+    const actual = Buffer.from(hashPassword(password, user?.salt ?? 'unknown-user'), 'hex');
+    return user && crypto.timingSafeEqual(expected, actual) ? user : null;
+};
+
+export const createApiToken = (name: string, role: Role, createdBy: string): { token: string; info: ApiTokenInfo } => {
+    const token = `fe_${newToken()}`;
+    const info: ApiTokenInfo = { id: crypto.randomUUID(), name, role, createdAt: new Date().toISOString(), createdBy };
+    loadStore().tokens.push({ ...info, tokenHash: hashToken(token) });
+    saveStore();
+    return { token, info };
+};
+
+export const listApiTokens = (): ApiTokenInfo[] => loadStore().tokens.map(({ tokenHash, ...info }) => info);
+
+export const revokeApiToken = (id: string): boolean => {
+    const current = loadStore();
+    const before = current.tokens.length;
+    current.tokens = current.tokens.filter(t => t.id !== id);
+    if (current.tokens.length === before) return false;
+    saveStore();
+    return true;
+};
+
+const getCookie = (req: express.Request, name: string): string | undefined => {
+    for (const part of (req.headers.cookie ?? '').split(';')) {
+        const [key, ...value] = part.trim().split('=');
+        if (key === name) return decodeURIComponent(value.join('='));
+    }
+    return undefined;
+};
+
+// Records the token's use, saving it unless the token's last use was saved within the save interval.
+const touchToken = (token: StoredToken) => {
+    const now = Date.now();
+    token.lastUsedAt = new Date(now).toISOString();
+    if (now - (lastUseSavedAt.get(token.tokenHash) ?? 0) < LAST_USED_SAVE_INTERVAL) return;
+    lastUseSavedAt.set(token.tokenHash, now);
+    try {
+        saveStore();
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log('SYSTEM', `WARNING: Could not save the last use of API token ${token.name}: ${errorMessage}`);
+    }
+};
+
+const findPrincipal = (req: express.Request): Principal | null => {
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '')?.[1];
+    if (bearer) {
+        const stored = loadStore().tokens.find(t => t.tokenHash === hashToken(bearer));
+        if (!stored) return null;
+        touchToken(stored);
+        return { username: stored.name, role: stored.role, actor: `token:${stored.name}` };
+    }
+
+    const cookie = getCookie(req, SESSION_COOKIE);
+    if (!cookie) return null;
+    const hash = hashToken(cookie);
+    const session = sessions.get(hash);
+    if (!session) return null;
+    if (session.expiresAt < Date.now()) {
+        sessions.delete(hash);
+        return null;
+    }
+    return { username: session.username, role: session.role, actor: session.username };
+};
+
+// Resolves the caller from a Bearer token or the dashboard's session cookie, if either is valid.
+export const authenticate: express.RequestHandler = (req, res, next) => {
+    const principal = findPrincipal(req);
+    if (principal) res.locals.principal = principal;
+    next();
+};
+
+export const getPrincipal = (res: express.Response): Principal | undefined => res.locals.principal;
+
+export const requireRole = (role: Role): express.RequestHandler => (req, res, next) => {
+    const principal = getPrincipal(res);
+    if (!principal) {
+        return res.status(401).json({ message: 'Sign in or send an API token to use this endpoint.' });
+    }
+    if (!hasRole(principal.role, role)) {
+        return res.status(403).json({ message: `This requires the ${role} role; you are signed in as ${principal.role}.` });
+    }
+    next();
+};
+
+// Starts a dashboard session; null when the credentials are wrong.
+export const login = (req: express.Request, res: express.Response, username: string, password: string): AuthUser | null => {
+    const user = verifyPassword(username, password);
+    if (!user) return null;
+
+    const token = newToken();
+    sessions.set(hashToken(token), { username: user.username, role: user.role, expiresAt: Date.now() + SESSION_TTL });
+    res.cookie(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'strict', // Also keeps other sites from riding the session with cross-site POSTs
+        secure: req.secure,
+        maxAge: SESSION_TTL,
+        path: '/',
+    });
+    return { username: user.username, role: user.role };
+};
+
+export const logout = (req: express.Request, res: express.Response) => {
+    const cookie = getCookie(req, SESSION_COOKIE);
+    if (cookie) sessions.delete(hashToken(cookie));
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+};
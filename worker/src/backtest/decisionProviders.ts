@@ -0,0 +1,52 @@
+import fs from 'fs';
+import { Clock } from '../clock';
+import { DecisionProvider, DecisionResponse, HoldDecision, TradeCandidate, TradeDecision } from '../decisionProvider';
+import { normalizeTradeDecision } from '../decisionPrompts';
+
+export type RecordedDecision =
+    | { timestamp: number; type: 'trade'; decision: TradeDecision | TradeCandidate | null } // Older recordings hold one candidate
+    | { timestamp: number; type: 'hold'; decision: HoldDecision | null };
+
+/**
+ * Replays decisions captured from a real model run. Each request is answered with the most
+ * recent not-yet-used recording of that type at or before the current clock time; older
+ * unused recordings are skipped.
+ */
+export class RecordedDecisionProvider implements DecisionProvider {
+    readonly name = 'recorded';
+    private trade: Extract<RecordedDecision, { type: 'trade' }>[];
+    private hold: Extract<RecordedDecision, { type: 'hold' }>[];
+
+    constructor(recordings: RecordedDecision[], private clock: Clock) {
+        const sorted = [...recordings].sort((a, b) => a.timestamp - b.timestamp);
+        this.trade = sorted.filter((r): r is Extract<RecordedDecision, { type: 'trade' }> => r.type === 'trade');
+        this.hold = sorted.filter((r): r is Extract<RecordedDecision, { type: 'hold' }> => r.type === 'hold');
+    }
+
+    // One JSON RecordedDecision per line.
+    static fromJsonl(file: string, clock: Clock): RecordedDecisionProvider {
+        const recordings = fs.readFileSync(file, 'utf8')
+            .split(/\r?\n/)
+            .filter(line => line.trim().length > 0)
+            .map(line => JSON.parse(line) as RecordedDecision);
+        return new RecordedDecisionProvider(recordings, clock);
+    }
+
+    async getTradeDecision(): Promise<DecisionResponse<TradeDecision>> {
+        const recorded = this.take(this.trade)?.decision;
+        return { decision: recorded ? normalizeTradeDecision(recorded) : null };
+    }
+
+    async getHoldDecision(): Promise<DecisionResponse<HoldDecision>> {
+        return { decision: this.take(this.hold)?.decision ?? null };
+    }
+
+    private take<T extends RecordedDecision>(queue: T[]): T | undefined {
+        const now = this.clock.now();
+        let taken: T | undefined;
+        while (queue.length > 0 && queue[0].timestamp <= now) {
+            taken = queue.shift();
+        }
+        return taken;
+    }
+}
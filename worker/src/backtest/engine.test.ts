@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DecisionProvider, DecisionResponse, HoldDecision, TradeDecision } from '../decisionProvider';
+import { OrderSide, Strategy, StrategyType } from '../types';
+import { runBacktest } from './engine';
+import { CandleSeries } from './historicalData';
+
+const MINUTE_MS = 60 * 1000;
+
+const assertClose = (actual: number, expected: number) =>
+    assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+const strategy: Strategy = { id: 'BT', name: 'Backtest', type: StrategyType.PROFIT, prompt: 'Test strategy.' };
+
+// One-minute candles around the given closes, each spanning 1 either side unless overridden.
+const series = (symbol: string, bars: [close: number, high?: number, low?: number][]): CandleSeries => ({
+    symbol,
+    interval: MINUTE_MS,
+    candles: bars.map(([close, high = close + 1, low = close - 1], i) => ({ timestamp: i * MINUTE_MS, open: close, high, low, close, volume: 1 })),
+});
+
+// Answers trade requests from a script, then with no trade; always holds.
+class ScriptedDecisionProvider implements DecisionProvider {
+    readonly name = 'scripted';
+    tradeRequests = 0;
+
+    constructor(private script: TradeDecision[]) {}
+
+    async getTradeDecision(): Promise<DecisionResponse<TradeDecision>> {
+        this.tradeRequests++;
+        return { decision: this.script.shift() ?? null };
+    }
+
+    async getHoldDecision(): Promise<DecisionResponse<HoldDecision>> {
+        return { decision: 'HOLD' };
+    }
+}
+
+describe('runBacktest', () => {
+    it('replays a scripted long to its take profit and reports the fills and equity', async () => {
+        const provider = new ScriptedDecisionProvider([{
+            candidates: [{ symbol: 'BTCUSDT', side: OrderSide.LONG, entryType: 'market', stopLoss: 95, takeProfit: 110, reason: 'test', confidence: 'high' }],
+        }]);
+        // The entry fills at the first close of 100; the fourth candle trades through 110.
+        const result = await runBacktest(strategy, {
+            series: [series('BTCUSDT', [[100], [102], [105], [108, 111], [109], [109]])],
+            createDecisionProvider: () => provider,
+            startingBalance: 1000,
+            feeRate: 0.001,
+        });
+
+        assert.equal(result.trades.length, 1);
+        const [trade] = result.trades;
+        assert.equal(trade.symbol, 'BTCUSDT');
+        assert.equal(trade.side, OrderSide.LONG);
+        // The default sizing is $100 of notional.
+        assertClose(trade.size, 1);
+        assertClose(trade.entryPrice, 100);
+        assertClose(trade.closePrice, 110);
+        assertClose(trade.fees!, 0.1 + 0.11);
+        assertClose(trade.pnl, 10 - 0.21);
+
+        assert.equal(result.equityCurve.length, 6);
+        assertClose(result.stats.endingEquity, 1000 + 10 - 0.21);
+        assertClose(result.stats.netPnl, 10 - 0.21);
+        assert.equal(result.stats.totalTrades, 1);
+        assert.equal(result.stats.wins, 1);
+    });
+
+    it('stops out a short and books the loss against the starting balance', async () => {
+        const provider = new ScriptedDecisionProvider([{
+            candidates: [{ symbol: 'ETHUSDT', side: OrderSide.SHORT, entryType: 'market', stopLoss: 104, takeProfit: 90, reason: 'test', confidence: 'high' }],
+        }]);
+        const result = await runBacktest(strategy, {
+            series: [series('ETHUSDT', [[100], [101], [103, 105], [102], [102]])],
+            createDecisionProvider: () => provider,
+            startingBalance: 1000,
+            feeRate: 0,
+        });
+
+        assert.equal(result.trades.length, 1);
+        assertClose(result.trades[0].closePrice, 104);
+        assertClose(result.trades[0].pnl, -4);
+        assertClose(result.stats.endingEquity, 996);
+        assert.equal(result.stats.losses, 1);
+        assertClose(result.stats.maxDrawdownPct, 0.4);
+    });
+
+    it('is deterministic across runs', async () => {
+        const run = () => runBacktest(strategy, {
+            series: [series('BTCUSDT', [[100], [102], [105], [108, 111], [109], [109]])],
+            createDecisionProvider: () => new ScriptedDecisionProvider([{
+                candidates: [{ symbol: 'BTCUSDT', side: OrderSide.LONG, entryType: 'market', stopLoss: 95, takeProfit: 110, reason: 'test', confidence: 'high' }],
+            }]),
+        });
+        assert.deepEqual((await run()).stats, (await run()).stats);
+    });
+});
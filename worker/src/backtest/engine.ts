@@ -0,0 +1,110 @@
+import { Agent } from '../agent';
+import { VirtualClock } from '../clock';
+import { DecisionProvider } from '../decisionProvider';
+import { ExchangeInstrument } from '../exchange';
+import { PaperExchangeClient } from '../paperExchange';
+import { createMemoryStateStore } from '../stateStore';
+import { BacktestResult, BacktestStats, EquityPoint, Strategy, Trade } from '../types';
+import { combineTradeLegs } from '../tradeLogger';
+import { CandleSeries, HistoricalMarketData } from './historicalData';
+
+export interface BacktestOptions {
+    series: CandleSeries[];
+    instruments?: Record<string, ExchangeInstrument>;
+    // A factory, so stateful providers (e.g. recordings) can be bound to the run's clock.
+    createDecisionProvider: (clock: VirtualClock) => DecisionProvider;
+    startingBalance?: number;
+    feeRate?: number;
+}
+
+const DEFAULT_STARTING_BALANCE = 10000;
+
+/**
+ * Replays candle history through a real Agent running against a paper exchange on a
+ * virtual clock. Every candle close is a step: timers due before it fire first, then the
+ * candle's range is applied to resting orders and TP/SL, then timers due at the close fire and
+ * equity is sampled.
+ */
+export const runBacktest = async (strategy: Strategy, options: BacktestOptions): Promise<BacktestResult> => {
+    const startingBalance = options.startingBalance ?? DEFAULT_STARTING_BALANCE;
+    const steps = [...new Set(options.series.flatMap(s => s.candles.map(c => c.timestamp + s.interval)))].sort((a, b) => a - b);
+    if (steps.length === 0) {
+        throw new Error('Backtest has no candle data.');
+    }
+
+    const clock = new VirtualClock(steps[0]);
+    const marketData = new HistoricalMarketData(options.series, clock, options.instruments);
+    const exchange = new PaperExchangeClient(strategy.id, marketData, { startingBalance, feeRate: options.feeRate, clock });
+    const trades: Trade[] = [];
+    const agent = new Agent(strategy, exchange, {
+        clock,
+        decisionProvider: options.createDecisionProvider(clock),
+        recordTrade: trade => trades.push(trade),
+        recordDecision: () => {},
+        stateStore: createMemoryStateStore(),
+        tradeHistory: () => trades,
+        publishEvent: () => {},
+        isTradingLocked: () => false,
+    });
+
+    const candlesByClose = new Map<number, { symbol: string; high: number; low: number; close: number }[]>();
+    for (const s of options.series) {
+        for (const c of s.candles) {
+            const closeTime = c.timestamp + s.interval;
+            const bucket = candlesByClose.get(closeTime) ?? [];
+            bucket.push({ symbol: s.symbol, high: c.high, low: c.low, close: c.close });
+            candlesByClose.set(closeTime, bucket);
+        }
+    }
+
+    const equityCurve: EquityPoint[] = [];
+    await agent.start();
+    for (const step of steps) {
+        await clock.advanceTo(step - 1);
+        for (const candle of candlesByClose.get(step) ?? []) {
+            exchange.applyCandle(candle.symbol, candle.high, candle.low, candle.close);
+        }
+        await clock.advanceTo(step);
+        equityCurve.push({ timestamp: step, equity: exchange.getEquity() });
+    }
+    agent.stop();
+
+    return {
+        stats: computeStats(strategy, startingBalance, equityCurve, trades),
+        equityCurve,
+        trades,
+    };
+};
+
+export const computeStats = (strategy: Strategy, startingBalance: number, equityCurve: EquityPoint[], legs: Trade[]): BacktestStats => {
+    // Scale-out legs count as one trade per position.
+    const trades = combineTradeLegs(legs);
+    const endingEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : startingBalance;
+    const wins = trades.filter(t => t.pnl > 0);
+    const losses = trades.filter(t => t.pnl <= 0);
+    const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+    const grossLoss = -losses.reduce((sum, t) => sum + t.pnl, 0);
+
+    let peak = startingBalance;
+    let maxDrawdownPct = 0;
+    for (const point of equityCurve) {
+        peak = Math.max(peak, point.equity);
+        maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - point.equity) / peak) * 100);
+    }
+
+    return {
+        strategyId: strategy.id,
+        strategyName: strategy.name,
+        startingBalance,
+        endingEquity,
+        netPnl: endingEquity - startingBalance,
+        returnPct: ((endingEquity - startingBalance) / startingBalance) * 100,
+        totalTrades: trades.length,
+        wins: wins.length,
+        losses: losses.length,
+        winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+        averagePnl: trades.length > 0 ? trades.reduce((sum, t) => sum + t.pnl, 0) / trades.length : 0,
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+        maxDrawdownPct,
+    };
+};
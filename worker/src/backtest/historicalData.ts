@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { Candle } from '../types';
+import { ExchangeInstrument, ExchangeTicker, MarketDataSource } from '../exchange';
+import { Clock } from '../clock';
+import { aggregateCandles, intervalToMs, KlineInterval } from '../candles';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CandleSeries {
+    symbol: string;
+    interval: number; // Candle length in ms
+    candles: Candle[]; // Sorted by timestamp, oldest first
+}
+
+/**
+ * Loads `<SYMBOL>.csv` files (header: timestamp,open,high,low,close,volume; timestamp = candle
+ * open time in ms) from a directory. An optional `instruments.json` maps symbols to
+ * ExchangeInstrument overrides; otherwise a permissive default instrument is used.
+ */
+export const loadHistory = (dir: string): { series: CandleSeries[]; instruments: Record<string, ExchangeInstrument> } => {
+    const series: CandleSeries[] = fs.readdirSync(dir)
+        .filter(file => file.toLowerCase().endsWith('.csv'))
+        .map(file => {
+            const symbol = path.basename(file, path.extname(file)).toUpperCase();
+            return toSeries(symbol, parseCandlesCsv(fs.readFileSync(path.join(dir, file), 'utf8')));
+        });
+
+    const instrumentsFile = path.join(dir, 'instruments.json');
+    const instruments = fs.existsSync(instrumentsFile)
+        ? JSON.parse(fs.readFileSync(instrumentsFile, 'utf8')) as Record<string, ExchangeInstrument>
+        : {};
+
+    return { series, instruments };
+};
+
+export const parseCandlesCsv = (csv: string): Candle[] => {
+    return csv
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.toLowerCase().startsWith('timestamp'))
+        .map(line => {
+            const [timestamp, open, high, low, close, volume] = line.split(',').map(v => parseFloat(v));
+            return { timestamp, open, high, low, close, volume };
+        })
+        .filter(c => [c.timestamp, c.open, c.high, c.low, c.close, c.volume].every(Number.isFinite));
+};
+
+export const toSeries = (symbol: string, candles: Candle[]): CandleSeries => {
+    const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    if (sorted.length < 2) {
+        throw new Error(`Not enough candles for ${symbol}: at least 2 are required.`);
+    }
+    return { symbol, interval: sorted[1].timestamp - sorted[0].timestamp, candles: sorted };
+};
+
+const defaultInstrument = (symbol: string): ExchangeInstrument => ({
+    symbol,
+    status: 'Trading',
+    contractType: 'LinearPerpetual',
+    quoteCoin: 'USDT',
+    lotSizeFilter: { minOrderQty: '0.001', maxOrderQty: '1000000', qtyStep: '0.001' },
+    priceFilter: { tickSize: '0.0001' },
+});
+
+/**
+ * Serves stored candles as market data. At any clock time only candles that have fully
+ * closed are visible, so the agent never sees the future.
+ */
+export class HistoricalMarketData implements MarketDataSource {
+    private bySymbol: Map<string, CandleSeries>;
+
+    constructor(series: CandleSeries[], private clock: Clock, private instruments: Record<string, ExchangeInstrument> = {}) {
+        this.bySymbol = new Map(series.map(s => [s.symbol, s]));
+    }
+
+    async getMarketData(): Promise<string> {
+        return [...this.bySymbol.keys()]
+            .map(symbol => {
+                const summary = this.summarize(symbol);
+                if (!summary) return null;
+                return `${symbol}, Price: ${summary.last.close}, 24h Change: ${(summary.change * 100).toFixed(2)}%, Volume: ${summary.volume.toFixed(0)}`;
+            })
+            .filter((line): line is string => line !== null)
+            .join('\n');
+    }
+
+    async getTicker(symbol: string): Promise<ExchangeTicker> {
+        const summary = this.summarize(symbol);
+        if (!summary) {
+            throw new Error(`Failed to get ticker info for ${symbol}: no candle data at ${new Date(this.clock.now()).toISOString()}`);
+        }
+        return {
+            symbol,
+            lastPrice: summary.last.close.toString(),
+            price24hPcnt: summary.change.toString(),
+            volume24h: summary.volume.toString(),
+            turnover24h: summary.turnover.toString(),
+        };
+    }
+
+    async getInstrumentInfo(symbol: string): Promise<ExchangeInstrument> {
+        if (!this.bySymbol.has(symbol)) {
+            throw new Error(`Failed to get instrument info for ${symbol}: symbol not in backtest data`);
+        }
+        return this.instruments[symbol] ?? defaultInstrument(symbol);
+    }
+
+    async getCandles(symbol: string, interval: KlineInterval, limit: number): Promise<Candle[]> {
+        const series = this.bySymbol.get(symbol);
+        if (!series) {
+            throw new Error(`Failed to get klines for ${symbol}: symbol not in backtest data`);
+        }
+        const targetMs = intervalToMs(interval);
+        // Only the source candles needed to fill `limit` target candles (plus one partial bucket).
+        const needed = (limit + 1) * Math.max(1, Math.round(targetMs / series.interval));
+        const closed = this.getClosedCandles(symbol);
+        return aggregateCandles(closed.slice(-needed), series.interval, targetMs).slice(-limit);
+    }
+
+    // Candles whose close time (open + interval) is at or before the current clock time.
+    getClosedCandles(symbol: string): Candle[] {
+        const series = this.bySymbol.get(symbol);
+        if (!series) return [];
+        return series.candles.slice(0, this.closedCount(series));
+    }
+
+    private closedCount(series: CandleSeries): number {
+        const now = this.clock.now();
+        let lo = 0;
+        let hi = series.candles.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (series.candles[mid].timestamp + series.interval <= now) lo = mid + 1;
+            else hi = mid;
+        }
+        return lo;
+    }
+
+    // Last close plus the rolling 24h change, volume and turnover, mirroring Bybit's ticker fields.
+    private summarize(symbol: string) {
+        const series = this.bySymbol.get(symbol);
+        if (!series) return null;
+        const count = this.closedCount(series);
+        if (count === 0) return null;
+
+        const last = series.candles[count - 1];
+        let first = last;
+        let volume = 0;
+        let turnover = 0;
+        for (let i = count - 1; i >= 0 && series.candles[i].timestamp > last.timestamp - DAY_MS; i--) {
+            first = series.candles[i];
+            volume += first.volume;
+            turnover += first.volume * first.close;
+        }
+        return { last, change: (last.close - first.open) / first.open, volume, turnover };
+    }
+}
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import { getStrategies } from '../strategyStore';
+import { GeminiDecisionProvider } from '../gemini';
+import { OpenAiCompatibleDecisionProvider } from '../openaiCompatible';
+import { MomentumDecisionProvider } from '../ruleBasedProvider';
+import { loadHistory } from './historicalData';
+import { RecordedDecisionProvider } from './decisionProviders';
+import { runBacktest, BacktestOptions } from './engine';
+
+/**
+ * Usage:
+ *   npm run backtest -- --data <dir> [--strategy P1] [--provider momentum|recorded|gemini|openai]
+ *                       [--model <name>] [--recording <file.jsonl>] [--balance 10000] [--out backtest-results]
+ */
+const parseArgs = (argv: string[]): Record<string, string> => {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            args[argv[i].slice(2)] = argv[i + 1] ?? '';
+            i++;
+        }
+    }
+    return args;
+};
+
+const main = async () => {
+    const args = parseArgs(process.argv.slice(2));
+    if (!args.data) {
+        throw new Error('Missing --data <dir> with <SYMBOL>.csv candle files.');
+    }
+
+    const provider = args.provider || 'momentum';
+    if (provider === 'recorded' && !args.recording) {
+        throw new Error('The recorded provider needs --recording <file.jsonl>.');
+    }
+    const createDecisionProvider: BacktestOptions['createDecisionProvider'] = clock => {
+        switch (provider) {
+            case 'recorded': return RecordedDecisionProvider.fromJsonl(args.recording, clock);
+            case 'gemini': return new GeminiDecisionProvider({ model: args.model });
+            case 'openai': return new OpenAiCompatibleDecisionProvider({ model: args.model });
+            case 'momentum': return new MomentumDecisionProvider();
+            default: throw new Error(`Unknown decision provider: ${provider}`);
+        }
+    };
+
+    // The saved versions under DATA_DIR, so edited strategies can be backtested before they go live.
+    const strategies = getStrategies();
+    const selected = args.strategy ? strategies.filter(s => s.id === args.strategy) : strategies;
+    if (selected.length === 0) {
+        throw new Error(`Unknown strategy: ${args.strategy}`);
+    }
+
+    const { series, instruments } = loadHistory(args.data);
+    const outDir = args.out || 'backtest-results';
+    fs.mkdirSync(outDir, { recursive: true });
+
+    const summary = [];
+    for (const strategy of selected) {
+        const result = await runBacktest(strategy, {
+            series,
+            instruments,
+            createDecisionProvider,
+            startingBalance: args.balance ? parseFloat(args.balance) : undefined,
+        });
+        fs.writeFileSync(path.join(outDir, `${strategy.id}.json`), JSON.stringify(result, null, 2));
+        summary.push(result.stats);
+    }
+
+    fs.writeFileSync(path.join(outDir, 'summary.json'), JSON.stringify(summary, null, 2));
+    console.table(summary.map(s => ({
+        strategy: s.strategyId,
+        trades: s.totalTrades,
+        winRate: `${s.winRate.toFixed(1)}%`,
+        netPnl: s.netPnl.toFixed(2),
+        returnPct: `${s.returnPct.toFixed(2)}%`,
+        maxDrawdown: `${s.maxDrawdownPct.toFixed(2)}%`,
+        profitFactor: s.profitFactor === null ? '-' : s.profitFactor.toFixed(2),
+    })));
+    console.log(`Results written to ${path.resolve(outDir)}`);
+};
+
+main().catch(error => {
+    console.error(`Backtest failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+});
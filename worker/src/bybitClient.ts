@@ -1,42 +1,106 @@
-import { RestClientV5 } from 'bybit-api';
+import { randomUUID } from 'crypto';
+import { APIResponseV3, RestClientV5 } from 'bybit-api';
 import { log } from './logger';
-import { OrderSide } from './types';
+import { Candle, KeyPermissionCheck, OrderSide } from './types';
+import { intervalToMs, KlineInterval } from './candles';
+import { sendBybitRequest } from './bybitRequest';
+import {
+    ExchangeClient,
+    ExchangeError,
+    ExchangeExecution,
+    ExchangeOrder,
+    ExchangeTicker,
+    getExchangeErrorKind,
+    LimitOrderParams,
+    OrderResult,
+    TickerStream,
+    TradingMode,
+    TradingStopParams,
+} from './exchange';
 
 const HIGH_VOLUME_THRESHOLD = 50000000; // 50 Million USD
+const ORDER_NOT_FOUND = 110001; // Order does not exist, or is too late to cancel
+const TPSL_NOT_MODIFIED = 34040;
+const CLOSED_PNL_SEARCH_LIMIT = 50;
+const EXECUTION_PAGE_SIZE = 100;
+const MAX_EXECUTION_PAGES = 10;
+const EXECUTION_HISTORY_WINDOW = 7 * 24 * 60 * 60 * 1000; // The widest range the endpoint serves per query
+const LEVERAGE_NOT_MODIFIED = 110043;
+const DUPLICATE_ORDER_LINK_ID = 110072; // An earlier attempt of this submission already reached the exchange
 
-export class BybitClient {
+export class BybitClient implements ExchangeClient {
+    readonly mode: TradingMode = 'live';
     private client: RestClientV5;
+    private account?: string; // The API key; private requests share its account's rate limit
 
-    constructor(private agentId: string, apiKey: string, apiSecret: string) {
-        this.client = new RestClientV5({
+    // Keys may be omitted when the client is only used for public market data (e.g. as a paper-trading price feed).
+    // With a ticker stream, tickers it has fresh are served from the stream instead of REST.
+    constructor(private agentId: string, apiKey?: string, apiSecret?: string, private tickerStream?: TickerStream) {
+        this.client = BybitClient.createRestClient(apiKey, apiSecret);
+        this.account = apiKey;
+    }
+
+    private static createRestClient(apiKey?: string, apiSecret?: string) {
+        return new RestClientV5({
             key: apiKey,
             secret: apiSecret,
             // By default, the library connects to the mainnet. No `testnet: true` is needed.
             recv_window: 10000,
+            parseAPIRateLimits: true,
         });
     }
 
+    // Switches to rotated keys; requests already in flight finish with the old ones.
+    setCredentials(apiKey: string, apiSecret: string) {
+        this.client = BybitClient.createRestClient(apiKey, apiSecret);
+        this.account = apiKey;
+    }
+
+    // Sends an account request with retries; non-zero retCodes other than `accept` are thrown as ExchangeErrors.
+    private request<T>(label: string, call: (client: RestClientV5) => Promise<APIResponseV3<T>>, accept?: number[]) {
+        return sendBybitRequest(() => call(this.client), { agentId: this.agentId, label, account: this.account, accept });
+    }
+
+    private publicRequest<T>(label: string, call: (client: RestClientV5) => Promise<APIResponseV3<T>>) {
+        return sendBybitRequest(() => call(this.client), { agentId: this.agentId, label });
+    }
+
+    /**
+     * Reads what the API key may do. Agents need derivatives trading (contract orders and
+     * positions) and must not be able to withdraw; anything else is reported in `problems`.
+     */
+    async checkKeyPermissions(): Promise<KeyPermissionCheck> {
+        const response = await this.request('read API key permissions', client => client.getQueryApiKey());
+        const { readOnly, permissions, ips, expiredAt } = response.result;
+        const contractTrade = permissions.ContractTrade ?? [];
+        const canTradeDerivatives = readOnly === 0 && contractTrade.includes('Order') && contractTrade.includes('Position');
+        const canWithdraw = (permissions.Wallet ?? []).includes('Withdraw');
+
+        const problems: string[] = [];
+        if (!canTradeDerivatives) problems.push(readOnly === 1 ? 'The key is read-only.' : 'The key lacks contract order and position permissions.');
+        if (canWithdraw) problems.push('The key has withdrawal rights. Create a key without them.');
+        return {
+            checkedAt: new Date().toISOString(),
+            canTradeDerivatives,
+            canWithdraw,
+            ipRestricted: ips.length > 0 && !ips.includes('*'),
+            expiresAt: expiredAt || undefined,
+            problems,
+        };
+    }
+
     async getWalletBalance(): Promise<number> {
         log(this.agentId, "Fetching wallet balance from Bybit...");
 
         const tryFetchBalance = async (accountType: 'UNIFIED' | 'CONTRACT'): Promise<number | null> => {
             log(this.agentId, `Attempting to fetch balance for ${accountType} account type...`);
-            try {
-                const response = await this.client.getWalletBalance({ accountType });
-                if (response.retCode === 0) {
-                    const usdtBalance = response.result.list?.[0]?.coin.find((c: any) => c.coin === 'USDT');
-                    if (usdtBalance?.walletBalance) {
-                        log(this.agentId, `Successfully fetched wallet balance (${accountType}): ${usdtBalance.walletBalance} USDT`);
-                        return parseFloat(usdtBalance.walletBalance);
-                    }
-                    return null; // Found account but no USDT balance
-                } else {
-                   throw new Error(`Bybit API error (${accountType}): [${response.retCode}] ${response.retMsg}`);
-                }
-            } catch (error) {
-                // Re-throw to be handled by the main logic
-                throw error;
+            const response = await this.request(`fetch ${accountType} wallet balance`, client => client.getWalletBalance({ accountType }));
+            const usdtBalance = response.result.list?.[0]?.coin.find((c: any) => c.coin === 'USDT');
+            if (usdtBalance?.walletBalance) {
+                log(this.agentId, `Successfully fetched wallet balance (${accountType}): ${usdtBalance.walletBalance} USDT`);
+                return parseFloat(usdtBalance.walletBalance);
             }
+            return null; // Found account but no USDT balance
         };
 
         // Attempt 1: UNIFIED Account
@@ -65,10 +129,7 @@ export class BybitClient {
     async getMarketData(): Promise<string> {
         log(this.agentId, "Fetching market data from Bybit...");
         try {
-            const response = await this.client.getTickers({ category: 'linear' });
-            if (response.retCode !== 0) {
-                throw new Error(`Bybit API error: ${response.retMsg}`);
-            }
+            const response = await this.publicRequest('fetch market data', client => client.getTickers({ category: 'linear' }));
 
             const highVolumeTickers = response.result.list
                 .filter(ticker => ticker.symbol.endsWith('USDT') && parseFloat(ticker.turnover24h) > HIGH_VOLUME_THRESHOLD)
@@ -87,12 +148,15 @@ export class BybitClient {
         }
     }
     
-    async getTicker(symbol: string) {
+    async getTicker(symbol: string): Promise<ExchangeTicker> {
+        const streamed = this.tickerStream?.getLatestTicker(symbol);
+        if (streamed) return streamed;
+
         log(this.agentId, `Fetching ticker for ${symbol}...`);
         try {
-            const response = await this.client.getTickers({ category: 'linear', symbol });
-            if (response.retCode !== 0 || !response.result.list.length) {
-                throw new Error(`Failed to get ticker info for ${symbol}: ${response.retMsg}`);
+            const response = await this.publicRequest(`get ticker info for ${symbol}`, client => client.getTickers({ category: 'linear', symbol }));
+            if (!response.result.list.length) {
+                throw new ExchangeError(`Failed to get ticker info for ${symbol}: no such symbol`, 'invalidSymbol');
             }
             return response.result.list[0];
         } catch (error) {
@@ -105,9 +169,9 @@ export class BybitClient {
     async getInstrumentInfo(symbol: string) {
         log(this.agentId, `Fetching instrument info for ${symbol}...`);
         try {
-            const response = await this.client.getInstrumentsInfo({ category: 'linear', symbol });
-            if (response.retCode !== 0 || !response.result.list.length) {
-                throw new Error(`Failed to get instrument info for ${symbol}: ${response.retMsg}`);
+            const response = await this.publicRequest(`get instrument info for ${symbol}`, client => client.getInstrumentsInfo({ category: 'linear', symbol }));
+            if (!response.result.list.length) {
+                throw new ExchangeError(`Failed to get instrument info for ${symbol}: no such symbol`, 'invalidSymbol');
             }
             return response.result.list[0];
         } catch (error) {
@@ -117,22 +181,46 @@ export class BybitClient {
         }
     }
 
+    async getCandles(symbol: string, interval: KlineInterval, limit: number): Promise<Candle[]> {
+        log(this.agentId, `Fetching ${limit} ${interval} candles for ${symbol}...`);
+        try {
+            // Request one extra kline: Bybit includes the still-forming candle, which is dropped below.
+            const response = await this.publicRequest(`get klines for ${symbol}`, client =>
+                client.getKline({ category: 'linear', symbol, interval, limit: Math.min(limit + 1, 1000) }));
+            const intervalMs = intervalToMs(interval);
+            const now = Date.now();
+            // Bybit returns [startTime, open, high, low, close, volume, turnover], newest first.
+            return response.result.list
+                .map(k => ({
+                    timestamp: parseInt(k[0], 10),
+                    open: parseFloat(k[1]),
+                    high: parseFloat(k[2]),
+                    low: parseFloat(k[3]),
+                    close: parseFloat(k[4]),
+                    volume: parseFloat(k[5]),
+                }))
+                .filter(c => c.timestamp + intervalMs <= now)
+                .reverse()
+                .slice(-limit);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log(this.agentId, `Error fetching klines: ${errorMessage}`);
+            throw error;
+        }
+    }
+
     async setLeverage(symbol: string, leverage: string) {
         log(this.agentId, `Setting leverage for ${symbol} to ${leverage}x...`);
         try {
-            const response = await this.client.setLeverage({
+            const response = await this.request('set leverage', client => client.setLeverage({
                 category: 'linear',
                 symbol,
                 buyLeverage: leverage,
                 sellLeverage: leverage,
-            });
-            if (response.retCode !== 0) {
-                // Bybit returns success even if leverage is already set, so we can ignore specific messages
-                if (response.retMsg.includes('leverage not modified')) {
-                    log(this.agentId, `Leverage for ${symbol} is already ${leverage}x.`);
-                    return;
-                }
-                throw new Error(`Failed to set leverage: ${response.retMsg}`);
+            }), [LEVERAGE_NOT_MODIFIED]);
+            if (response.retCode === LEVERAGE_NOT_MODIFIED) {
+                log(this.agentId, `Leverage for ${symbol} is already ${leverage}x.`);
+                return;
             }
             log(this.agentId, `Leverage for ${symbol} set to ${leverage}x successfully.`);
         } catch (error) {
@@ -142,24 +230,24 @@ export class BybitClient {
         }
     }
 
-    async placeOrder(symbol: string, side: OrderSide, qty: string, takeProfit?: string, stopLoss?: string) {
+    async placeOrder(symbol: string, side: OrderSide, qty: string, takeProfit?: string, stopLoss?: string, limit?: LimitOrderParams, orderLinkId?: string) {
         const orderRequest = {
             category: 'linear' as const,
             symbol,
             side: (side === OrderSide.LONG ? 'Buy' : 'Sell') as 'Buy' | 'Sell',
-            orderType: 'Market' as const,
+            orderType: (limit ? 'Limit' : 'Market') as 'Limit' | 'Market',
             qty,
+            price: limit?.price,
+            timeInForce: limit?.timeInForce,
             takeProfit,
             stopLoss,
+            orderLinkId: orderLinkId ?? randomUUID(),
         };
         log(this.agentId, `Placing order: ${JSON.stringify(orderRequest)}`);
         try {
-            const response = await this.client.submitOrder(orderRequest);
-            if (response.retCode !== 0) {
-                throw new Error(`Failed to place order: ${response.retMsg}`);
-            }
-            log(this.agentId, `Order placed successfully. Order ID: ${response.result.orderId}`);
-            return response.result;
+            const result = await this.submitOrder('place order', orderRequest);
+            log(this.agentId, `Order placed successfully. Order ID: ${result.orderId}`);
+            return result;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
             log(this.agentId, `Error placing order: ${errorMessage}`);
@@ -167,13 +255,82 @@ export class BybitClient {
         }
     }
     
+    /**
+     * Submits an order under its orderLinkId, so a retry after a lost response cannot place it
+     * twice: Bybit refuses the duplicate, and the order the first attempt placed is looked up
+     * instead. When every attempt fails without an answer, the lookup tells whether it went through.
+     */
+    private async submitOrder(label: string, orderRequest: Parameters<RestClientV5['submitOrder']>[0] & { orderLinkId: string }): Promise<OrderResult> {
+        const { symbol, orderLinkId } = orderRequest;
+        const findSubmitted = async () => {
+            const order = await this.findOrder(symbol, { orderLinkId });
+            return order ? { orderId: order.orderId, orderLinkId } : null;
+        };
+        try {
+            const response = await this.request(label, client => client.submitOrder(orderRequest), [DUPLICATE_ORDER_LINK_ID]);
+            if (response.retCode !== DUPLICATE_ORDER_LINK_ID) {
+                return response.result;
+            }
+            const submitted = await findSubmitted();
+            if (!submitted) {
+                throw new ExchangeError(`Failed to ${label}: order ${orderLinkId} was accepted but cannot be found`, 'retryable');
+            }
+            log(this.agentId, `Order ${orderLinkId} was already placed by an earlier attempt. Order ID: ${submitted.orderId}`);
+            return submitted;
+        } catch (error) {
+            const kind = getExchangeErrorKind(error);
+            if (kind === 'retryable' || kind === 'rateLimited') {
+                const submitted = await findSubmitted().catch(() => null);
+                if (submitted) {
+                    log(this.agentId, `Order ${orderLinkId} reached the exchange despite the error. Order ID: ${submitted.orderId}`);
+                    return submitted;
+                }
+            }
+            throw error;
+        }
+    }
+
+    // Open orders are served by the realtime endpoint; filled and cancelled ones move to history.
+    private async findOrder(symbol: string, id: { orderId?: string; orderLinkId?: string }): Promise<ExchangeOrder | null> {
+        const active = await this.request('get order', client => client.getActiveOrders({ category: 'linear', symbol, ...id }));
+        if (active.result.list.length) {
+            return active.result.list[0];
+        }
+        const history = await this.request('get order history', client => client.getHistoricOrders({ category: 'linear', symbol, ...id }));
+        return history.result.list[0] || null;
+    }
+
+    async getOrder(symbol: string, orderId: string): Promise<ExchangeOrder | null> {
+        log(this.agentId, `Fetching order ${orderId} for ${symbol}...`);
+        try {
+            return await this.findOrder(symbol, { orderId });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log(this.agentId, `Error fetching order: ${errorMessage}`);
+            throw error;
+        }
+    }
+
+    async cancelOrder(symbol: string, orderId: string) {
+        log(this.agentId, `Cancelling order ${orderId} for ${symbol}...`);
+        try {
+            const response = await this.request('cancel order', client => client.cancelOrder({ category: 'linear', symbol, orderId }), [ORDER_NOT_FOUND]);
+            if (response.retCode === ORDER_NOT_FOUND) {
+                log(this.agentId, `Order ${orderId} is no longer open; nothing to cancel.`);
+                return;
+            }
+            log(this.agentId, `Order ${orderId} cancelled.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log(this.agentId, `Error cancelling order: ${errorMessage}`);
+            throw error;
+        }
+    }
+
     async getPosition(symbol: string) {
         log(this.agentId, `Fetching position for ${symbol}...`);
         try {
-            const response = await this.client.getPositionInfo({ category: 'linear', symbol });
-             if (response.retCode !== 0) {
-                throw new Error(`Failed to get position: ${response.retMsg}`);
-            }
+            const response = await this.request('get position', client => client.getPositionInfo({ category: 'linear', symbol }));
             // A position exists if size is greater than 0
             const position = response.result.list.find(p => parseFloat(p.size) > 0);
             return position || null;
@@ -184,22 +341,54 @@ export class BybitClient {
         }
     }
     
-    async closePosition(symbol: string, side: OrderSide, size: string) {
+    async getOpenPositions() {
+        log(this.agentId, "Fetching all open positions...");
+        try {
+            const response = await this.request('get open positions', client => client.getPositionInfo({ category: 'linear', settleCoin: 'USDT' }));
+            return response.result.list.filter(p => parseFloat(p.size) > 0);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log(this.agentId, `Error fetching open positions: ${errorMessage}`);
+            throw error;
+        }
+    }
+    
+    async setTradingStop(symbol: string, stops: TradingStopParams) {
+        log(this.agentId, `Setting trading stop for ${symbol}: ${JSON.stringify(stops)}`);
+        try {
+            const response = await this.request('set trading stop', client => client.setTradingStop({
+                category: 'linear',
+                symbol,
+                positionIdx: 0, // One-way mode
+                tpslMode: 'Full',
+                ...stops,
+            }), [TPSL_NOT_MODIFIED]);
+            if (response.retCode === TPSL_NOT_MODIFIED) {
+                log(this.agentId, `Trading stop for ${symbol} is already set to these levels.`);
+                return;
+            }
+            log(this.agentId, `Trading stop for ${symbol} updated.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log(this.agentId, `Error setting trading stop: ${errorMessage}`);
+            throw error;
+        }
+    }
+
+    async closePosition(symbol: string, side: OrderSide, size: string, orderLinkId?: string) {
         log(this.agentId, `Closing ${side} position of size ${size} for ${symbol}...`);
         try {
-            const response = await this.client.submitOrder({
+            const result = await this.submitOrder('close position', {
                 category: 'linear',
                 symbol: symbol,
                 side: side === OrderSide.LONG ? 'Sell' : 'Buy', // Opposite side to close
                 orderType: 'Market',
                 qty: size,
                 reduceOnly: true,
+                orderLinkId: orderLinkId ?? randomUUID(),
             });
-            if (response.retCode !== 0) {
-                throw new Error(`Failed to close position: ${response.retMsg}`);
-            }
-            log(this.agentId, `Position close order sent. Order ID: ${response.result.orderId}`);
-            return response.result;
+            log(this.agentId, `Position close order sent. Order ID: ${result.orderId}`);
+            return result;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
             log(this.agentId, `Error closing position: ${errorMessage}`);
@@ -207,21 +396,39 @@ export class BybitClient {
         }
     }
     
-    async getClosedPnl(symbol: string) {
-        log(this.agentId, `Fetching last closed PnL for ${symbol}...`);
+    async getClosedPnl(symbol: string, orderId: string) {
+        log(this.agentId, `Fetching closed PnL of order ${orderId} in ${symbol}...`);
         try {
-            const response = await this.client.getClosedPnL({ category: 'linear', symbol, limit: 1 });
-            if (response.retCode !== 0) {
-                throw new Error(`Failed to get closed PnL: ${response.retMsg}`);
-            }
-            if (response.result.list.length > 0) {
-                return response.result.list[0];
-            }
-            return null;
+            // The endpoint cannot filter by order, so the order is looked up among the most recent records.
+            const response = await this.request('get closed PnL', client =>
+                client.getClosedPnL({ category: 'linear', symbol, limit: CLOSED_PNL_SEARCH_LIMIT }));
+            return response.result.list.find(record => record.orderId === orderId) ?? null;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
             log(this.agentId, `Error fetching closed PnL: ${errorMessage}`);
             throw error;
         }
     }
+
+    async getExecutions(symbol: string, since: number): Promise<ExchangeExecution[]> {
+        log(this.agentId, `Fetching executions in ${symbol} since ${new Date(since).toISOString()}...`);
+        try {
+            const startTime = Math.max(since, Date.now() - EXECUTION_HISTORY_WINDOW);
+            const executions: ExchangeExecution[] = [];
+            let cursor: string | undefined;
+            for (let page = 0; page < MAX_EXECUTION_PAGES; page++) {
+                const response = await this.request('get executions', client =>
+                    client.getExecutionList({ category: 'linear', symbol, startTime, limit: EXECUTION_PAGE_SIZE, cursor }));
+                executions.push(...response.result.list.map(e => ({ ...e, closedSize: e.closedSize ?? '0' })));
+                cursor = response.result.nextPageCursor;
+                if (!cursor || response.result.list.length < EXECUTION_PAGE_SIZE) break;
+            }
+            // Bybit lists the newest first.
+            return executions.sort((a, b) => parseInt(a.execTime, 10) - parseInt(b.execTime, 10));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log(this.agentId, `Error fetching executions: ${errorMessage}`);
+            throw error;
+        }
+    }
 }
\ No newline at end of file
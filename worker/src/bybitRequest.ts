@@ -0,0 +1,162 @@
+import { APIRateLimit } from 'bybit-api';
+import { log } from './logger';
+import { ExchangeError, ExchangeErrorKind } from './exchange';
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const PRIVATE_REQUEST_SPACING_MS = 100; // 10/s per account, Bybit's lowest per-UID endpoint limit
+const PUBLIC_REQUEST_SPACING_MS = 20; // Well inside the 600 requests per 5s IP limit
+const PUBLIC_GROUP = 'public';
+
+// Bybit V5 retCodes by what the caller can do about them; any other non-zero code is 'rejected'.
+const RET_CODE_KINDS: Record<number, ExchangeErrorKind> = {
+    10000: 'retryable', // Server timeout
+    10002: 'retryable', // Request outside the recv window, e.g. clock drift
+    10016: 'retryable', // Internal server error
+    10019: 'retryable', // Service restarting
+    10006: 'rateLimited', // Too many requests for this account
+    10018: 'rateLimited', // IP rate limit exceeded
+    10429: 'rateLimited', // System-level frequency protection
+    10003: 'auth', // Invalid API key
+    10004: 'auth', // Signature error
+    10005: 'auth', // Permission denied
+    10007: 'auth', // Authentication failed
+    10009: 'auth', // IP banned
+    10010: 'auth', // Request from an IP the key is not bound to
+    33004: 'auth', // API key expired
+    10029: 'invalidSymbol', // Symbol not on the whitelist
+    110004: 'insufficientMargin', // Wallet balance insufficient
+    110007: 'insufficientMargin', // Available balance insufficient
+    110012: 'insufficientMargin', // Available balance insufficient
+    110044: 'insufficientMargin', // Available margin insufficient
+    110045: 'insufficientMargin', // Wallet balance insufficient
+};
+const PARAMS_ERROR = 10001;
+
+// Network failures where the request may never have reached Bybit, or its answer never came back.
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+
+const classifyRetCode = (retCode: number, retMsg: string): ExchangeErrorKind =>
+    RET_CODE_KINDS[retCode] ?? (retCode === PARAMS_ERROR && /symbol/i.test(retMsg) ? 'invalidSymbol' : 'rejected');
+
+/**
+ * Turns whatever the SDK threw into an ExchangeError. It throws HTTP failures as
+ * { code: status, message, body }, network failures as axios errors and setup failures as strings.
+ */
+const classifyThrown = (error: unknown, label: string): ExchangeError => {
+    if (error instanceof ExchangeError) return error;
+    const thrown = (typeof error === 'object' && error !== null ? error : {}) as { code?: unknown; message?: unknown };
+    const detail = typeof error === 'string' ? error : typeof thrown.message === 'string' ? thrown.message : 'unknown error';
+    if (typeof thrown.code === 'number') {
+        // Bybit answers an IP over its limit with 403 rather than a retCode.
+        const kind: ExchangeErrorKind = thrown.code === 403 || thrown.code === 429 ? 'rateLimited'
+            : thrown.code === 401 ? 'auth'
+            : thrown.code >= 500 ? 'retryable'
+            : 'rejected';
+        return new ExchangeError(`Failed to ${label}: HTTP ${thrown.code} ${detail}`, kind);
+    }
+    const networkFailure = typeof thrown.code === 'string' && RETRYABLE_NETWORK_CODES.includes(thrown.code);
+    return new ExchangeError(`Failed to ${label}: ${detail}`, networkFailure ? 'retryable' : 'rejected');
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Full jitter: a random wait below the exponential ceiling, so clients that failed together do not retry together.
+const getBackoff = (attempt: number) => Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+
+/**
+ * Spaces out the requests that share one Bybit rate limit. A rate-limit answer pauses the
+ * whole group until the limit resets, including requests already waiting for their turn.
+ */
+class RequestLimiter {
+    private nextSlot = 0;
+    private resumeAt = 0;
+
+    constructor(private spacingMs: number) {}
+
+    async acquire() {
+        for (;;) {
+            const now = Date.now();
+            const slot = Math.max(now, this.nextSlot, this.resumeAt);
+            if (slot <= now) {
+                this.nextSlot = now + this.spacingMs;
+                return;
+            }
+            await sleep(slot - now);
+        }
+    }
+
+    pauseUntil(timestamp: number) {
+        this.resumeAt = Math.max(this.resumeAt, timestamp);
+    }
+}
+
+// Shared by every client in the process: agents trading one account draw on the same limit.
+const limiters = new Map<string, RequestLimiter>();
+
+const getLimiter = (group: string) => {
+    let limiter = limiters.get(group);
+    if (!limiter) {
+        limiter = new RequestLimiter(group === PUBLIC_GROUP ? PUBLIC_REQUEST_SPACING_MS : PRIVATE_REQUEST_SPACING_MS);
+        limiters.set(group, limiter);
+    }
+    return limiter;
+};
+
+interface BybitResponse {
+    retCode: number;
+    retMsg: string;
+    rateLimitApi?: APIRateLimit;
+}
+
+export interface BybitRequestOptions {
+    agentId: string;
+    label: string; // What the request does, e.g. "place order"; used in logs and error messages
+    account?: string; // API key of a private request; public market data shares the IP-wide limit
+    accept?: number[]; // Non-zero retCodes returned rather than thrown, e.g. "not modified"
+}
+
+/**
+ * Sends one Bybit request through its account's rate limiter, retrying retryable and
+ * rate-limited failures with exponential backoff and jitter. `call` is invoked afresh for every
+ * attempt so each one is signed with a current timestamp, which means only idempotent requests
+ * belong here: order submissions must carry a fixed orderLinkId. Anything else that fails
+ * is thrown as an ExchangeError with its class.
+ */
+export const sendBybitRequest = async <T extends BybitResponse>(call: () => Promise<T>, options: BybitRequestOptions): Promise<T> => {
+    const limiter = getLimiter(options.account ?? PUBLIC_GROUP);
+    for (let attempt = 1; ; attempt++) {
+        await limiter.acquire();
+        let error: ExchangeError;
+        let resetAt: number | undefined;
+        try {
+            const response = await call();
+            // A drained per-endpoint limit is waited out before the group's next request rather than answered with 10006.
+            if (response.rateLimitApi && response.rateLimitApi.remainingRequests <= 0) {
+                limiter.pauseUntil(response.rateLimitApi.resetAtTimestamp);
+            }
+            if (response.retCode === 0 || options.accept?.includes(response.retCode)) {
+                return response;
+            }
+            error = new ExchangeError(
+                `Failed to ${options.label}: ${response.retMsg} (retCode ${response.retCode})`,
+                classifyRetCode(response.retCode, response.retMsg),
+                response.retCode,
+            );
+            resetAt = response.rateLimitApi?.resetAtTimestamp;
+        } catch (thrown) {
+            error = classifyThrown(thrown, options.label);
+        }
+
+        if ((error.kind !== 'retryable' && error.kind !== 'rateLimited') || attempt >= MAX_ATTEMPTS) {
+            throw error;
+        }
+        const backoff = getBackoff(attempt);
+        if (error.kind === 'rateLimited') {
+            limiter.pauseUntil(Math.max(resetAt ?? 0, Date.now() + backoff));
+        }
+        log(options.agentId, `${error.message}. Retrying (attempt ${attempt + 1}/${MAX_ATTEMPTS}).`);
+        await sleep(backoff);
+    }
+};
@@ -0,0 +1,60 @@
+import { Candle } from './types';
+
+// Bybit kline intervals: minutes, or D/W/M.
+export type KlineInterval = '1' | '3' | '5' | '15' | '30' | '60' | '120' | '240' | '360' | '720' | 'D' | 'W' | 'M';
+export const KLINE_INTERVALS: KlineInterval[] = ['1', '3', '5', '15', '30', '60', '120', '240', '360', '720', 'D', 'W', 'M'];
+
+const MINUTE_MS = 60 * 1000;
+
+export const intervalToMs = (interval: KlineInterval): number => {
+    switch (interval) {
+        case 'D': return 24 * 60 * MINUTE_MS;
+        case 'W': return 7 * 24 * 60 * MINUTE_MS;
+        case 'M': return 30 * 24 * 60 * MINUTE_MS; // Approximation; only used for bucketing and freshness checks
+        default: return parseInt(interval, 10) * MINUTE_MS;
+    }
+};
+
+// Short label for prompts and logs, e.g. '60' -> '1h', 'D' -> '1d'.
+export const intervalLabel = (interval: KlineInterval): string => {
+    switch (interval) {
+        case 'D': return '1d';
+        case 'W': return '1w';
+        case 'M': return '1M';
+        default: {
+            const minutes = parseInt(interval, 10);
+            return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+        }
+    }
+};
+
+/**
+ * Merges candles (oldest first) into buckets of `targetMs`, aligned to the epoch.
+ * Incomplete trailing buckets are dropped so callers only ever see closed candles.
+ */
+export const aggregateCandles = (candles: Candle[], sourceMs: number, targetMs: number): Candle[] => {
+    if (targetMs === sourceMs) return candles;
+    if (targetMs < sourceMs || targetMs % sourceMs !== 0) {
+        throw new Error(`Cannot build ${targetMs / MINUTE_MS}m candles from ${sourceMs / MINUTE_MS}m data.`);
+    }
+
+    const perBucket = targetMs / sourceMs;
+    const buckets = new Map<number, Candle[]>();
+    for (const c of candles) {
+        const bucketStart = Math.floor(c.timestamp / targetMs) * targetMs;
+        const bucket = buckets.get(bucketStart) ?? [];
+        bucket.push(c);
+        buckets.set(bucketStart, bucket);
+    }
+
+    return [...buckets.entries()]
+        .filter(([, bucket]) => bucket.length === perBucket)
+        .map(([timestamp, bucket]) => ({
+            timestamp,
+            open: bucket[0].open,
+            high: Math.max(...bucket.map(c => c.high)),
+            low: Math.min(...bucket.map(c => c.low)),
+            close: bucket[bucket.length - 1].close,
+            volume: bucket.reduce((sum, c) => sum + c.volume, 0),
+        }));
+};
@@ -0,0 +1,69 @@
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+export interface Clock {
+    now(): number;
+    setTimeout(callback: () => void | Promise<void>, delay: number): TimerHandle;
+    clearTimeout(handle: TimerHandle): void;
+    sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, delay) => setTimeout(callback, delay),
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+    sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+interface VirtualTimer {
+    id: number;
+    dueAt: number;
+    callback: () => void | Promise<void>;
+}
+
+/**
+ * A simulated clock for backtests. Time only moves when `advanceTo` is called,
+ * which fires due timers in order and waits for each (possibly async) callback to settle.
+ */
+export class VirtualClock implements Clock {
+    private current: number;
+    private nextId = 1;
+    private timers: VirtualTimer[] = [];
+
+    constructor(startTime: number) {
+        this.current = startTime;
+    }
+
+    now(): number {
+        return this.current;
+    }
+
+    setTimeout(callback: () => void | Promise<void>, delay: number): TimerHandle {
+        const id = this.nextId++;
+        this.timers.push({ id, dueAt: this.current + Math.max(0, delay), callback });
+        return id;
+    }
+
+    clearTimeout(handle: TimerHandle) {
+        this.timers = this.timers.filter(t => t.id !== handle);
+    }
+
+    // Sleeping inside a timer callback cannot wait for another timer (the callback itself is
+    // being awaited), so simulated sleeps simply move the clock forward.
+    async sleep(ms: number) {
+        this.current += Math.max(0, ms);
+    }
+
+    async advanceTo(time: number) {
+        for (;;) {
+            const due = this.timers
+                .filter(t => t.dueAt <= time)
+                .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0];
+            if (!due) break;
+
+            this.timers = this.timers.filter(t => t.id !== due.id);
+            this.current = Math.max(this.current, due.dueAt);
+            await due.callback();
+        }
+        this.current = Math.max(this.current, time);
+    }
+}
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import path from 'path';
+import { CredentialInfo, KeyPermissionCheck } from './types';
+import { getDataDir, readJson, writeJsonAtomic } from './storage';
+
+// Exchange credentials are kept in <DATA_DIR>/credentials.json, encrypted with AES-256-GCM under
+// a key derived from the master key (VAULT_MASTER_KEY). Only the agent ID, a key hint and
+// metadata are stored in the clear; the master key itself is never written anywhere.
+const ALGORITHM = 'aes-256-gcm';
+const KEY_HINT_LENGTH = 4;
+const CHECK_VALUE = 'flipedge-vault'; // Encrypted on creation so a wrong master key is caught on open
+
+export interface ExchangeCredentials {
+    apiKey: string;
+    apiSecret: string;
+}
+
+interface EncryptedValue {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+interface StoredCredential extends CredentialInfo {
+    encrypted: EncryptedValue; // ExchangeCredentials as JSON
+}
+
+interface VaultFile {
+    salt: string;
+    check: EncryptedValue;
+    credentials: StoredCredential[];
+    importedFromEnv?: string[]; // Agent IDs whose keys were imported, so revoking them sticks
+}
+
+const getVaultFile = () => path.join(getDataDir(), 'credentials.json');
+
+const deriveKey = (masterKey: string, salt: string) => crypto.scryptSync(masterKey, salt, 32);
+
+const encrypt = (key: Buffer, plaintext: string): EncryptedValue => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+};
+
+// Throws when the key is wrong or the value was tampered with.
+const decrypt = (key: Buffer, value: EncryptedValue): string => {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(value.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]).toString('utf8');
+};
+
+const toInfo = ({ encrypted, ...info }: StoredCredential): CredentialInfo => info;
+
+export class CredentialVault {
+    private constructor(private key: Buffer, private vault: VaultFile) {}
+
+    /**
+     * Unlocks the vault with the master key, creating an empty one on first use. Throws when the
+     * master key does not match the one the vault was created with.
+     */
+    static open(masterKey: string): CredentialVault {
+        const existing = readJson<VaultFile>(getVaultFile());
+        if (existing) {
+            const key = deriveKey(masterKey, existing.salt);
+            try {
+                if (decrypt(key, existing.check) !== CHECK_VALUE) throw new Error('check value mismatch');
+            } catch {
+                throw new Error('VAULT_MASTER_KEY does not unlock the credential vault.');
+            }
+            return new CredentialVault(key, existing);
+        }
+
+        const salt = crypto.randomBytes(16).toString('hex');
+        const key = deriveKey(masterKey, salt);
+        const vault = new CredentialVault(key, { salt, check: encrypt(key, CHECK_VALUE), credentials: [] });
+        vault.save();
+        return vault;
+    }
+
+    list(): CredentialInfo[] {
+        return this.vault.credentials.map(toInfo);
+    }
+
+    getInfo(agentId: string): CredentialInfo | null {
+        const stored = this.find(agentId);
+        return stored ? toInfo(stored) : null;
+    }
+
+    get(agentId: string): ExchangeCredentials | null {
+        const stored = this.find(agentId);
+        return stored ? JSON.parse(decrypt(this.key, stored.encrypted)) : null;
+    }
+
+    // Adds the agent's credentials, or replaces them when it already has some.
+    set(agentId: string, credentials: ExchangeCredentials, updatedBy: string, permissions?: KeyPermissionCheck): CredentialInfo {
+        const now = new Date().toISOString();
+        const previous = this.find(agentId);
+        const stored: StoredCredential = {
+            agentId,
+            keyHint: `...${credentials.apiKey.slice(-KEY_HINT_LENGTH)}`,
+            createdAt: previous?.createdAt ?? now,
+            updatedAt: now,
+            updatedBy,
+            permissions,
+            encrypted: encrypt(this.key, JSON.stringify(credentials)),
+        };
+        this.vault.credentials = [...this.vault.credentials.filter(c => c.agentId !== agentId), stored];
+        this.save();
+        return toInfo(stored);
+    }
+
+    /**
+     * Stores keys found in the environment, unless keys for the agent were imported before: those
+     * may have been rotated or revoked since. Returns whether the keys were stored.
+     */
+    importOnce(agentId: string, credentials: ExchangeCredentials): boolean {
+        const imported = this.vault.importedFromEnv ?? [];
+        if (imported.includes(agentId) || this.find(agentId)) return false;
+        this.vault.importedFromEnv = [...imported, agentId];
+        this.set(agentId, credentials, 'env-import');
+        return true;
+    }
+
+    recordPermissionCheck(agentId: string, permissions: KeyPermissionCheck) {
+        const stored = this.find(agentId);
+        if (!stored) return;
+        stored.permissions = permissions;
+        this.save();
+    }
+
+    remove(agentId: string): boolean {
+        const before = this.vault.credentials.length;
+        this.vault.credentials = this.vault.credentials.filter(c => c.agentId !== agentId);
+        if (this.vault.credentials.length === before) return false;
+        this.save();
+        return true;
+    }
+
+    private find(agentId: string): StoredCredential | undefined {
+        return this.vault.credentials.find(c => c.agentId === agentId);
+    }
+
+    private save() {
+        writeJsonAtomic(getVaultFile(), this.vault, 0o600);
+    }
+}
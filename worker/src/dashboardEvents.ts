@@ -0,0 +1,39 @@
+import { DashboardEvent, DashboardEventPayload } from './types';
+
+// Enough for a client to ride out a short disconnect; after a longer one it gets a fresh snapshot.
+const MAX_BUFFERED_EVENTS = 1000;
+
+type Listener = (event: DashboardEvent) => void;
+
+let lastSeq = 0;
+const buffer: DashboardEvent[] = [];
+const listeners = new Set<Listener>();
+
+export const publishDashboardEvent = (payload: DashboardEventPayload) => {
+    const event = { ...payload, seq: ++lastSeq } as DashboardEvent;
+    buffer.push(event);
+    if (buffer.length > MAX_BUFFERED_EVENTS) {
+        buffer.shift();
+    }
+    for (const listener of [...listeners]) {
+        listener(event);
+    }
+};
+
+export const getLastSeq = () => lastSeq;
+
+/**
+ * Events after `since`, oldest first, or null when some of them are no longer buffered (or
+ * `since` is from before a worker restart) and the client has to start over from a snapshot.
+ */
+export const getEventsSince = (since: number): DashboardEvent[] | null => {
+    if (since > lastSeq) return null;
+    if (since === lastSeq) return [];
+    if (buffer.length === 0 || buffer[0].seq > since + 1) return null;
+    return buffer.filter(event => event.seq > since);
+};
+
+export const subscribeDashboardEvents = (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
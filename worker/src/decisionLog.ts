@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { DecisionRecord } from './types';
+import { getDataDir } from './storage';
+import { toLedgerDate } from './tradeLogger';
+
+// Every decision-provider call is appended to one JSONL file per ledger day under
+// <DATA_DIR>/decisions, next to the trade ledger. Files are never rewritten.
+const PARTITION_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const DEFAULT_LIMIT = 100;
+
+export interface DecisionQuery {
+    agentId?: string;
+    tradeId?: string;
+    from?: string; // Inclusive partition date, YYYY-MM-DD
+    to?: string; // Inclusive partition date, YYYY-MM-DD
+    limit?: number; // Newest first; default 100
+}
+
+const getDecisionDir = () => path.join(getDataDir(), 'decisions');
+
+export const logDecision = (record: DecisionRecord) => {
+    const dir = getDecisionDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, `${toLedgerDate(new Date(record.timestamp))}.jsonl`);
+    fs.appendFileSync(file, JSON.stringify(record) + '\n');
+};
+
+// Partition dates present on disk, newest first.
+const listDecisionDates = (): string[] => {
+    const dir = getDecisionDir();
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+        .map(file => PARTITION_PATTERN.exec(file)?.[1])
+        .filter((date): date is string => date !== undefined)
+        .sort()
+        .reverse();
+};
+
+const readPartition = (date: string): DecisionRecord[] => {
+    const file = path.join(getDecisionDir(), `${date}.jsonl`);
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as DecisionRecord];
+            } catch {
+                // A torn final line from a crash mid-write must not hide the rest of the day.
+                return [];
+            }
+        });
+};
+
+// Matching records, newest first.
+export const queryDecisions = (query: DecisionQuery = {}): DecisionRecord[] => {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const results: DecisionRecord[] = [];
+    for (const date of listDecisionDates()) {
+        if ((query.from && date < query.from) || (query.to && date > query.to)) continue;
+        const matches = readPartition(date)
+            .filter(d => (!query.agentId || d.agentId === query.agentId) && (!query.tradeId || d.tradeId === query.tradeId))
+            .reverse();
+        results.push(...matches);
+        if (results.length >= limit) break;
+    }
+    return results.slice(0, limit);
+};
+
+export const getDecision = (id: string): DecisionRecord | null => {
+    for (const date of listDecisionDates()) {
+        const record = readPartition(date).find(d => d.id === id);
+        if (record) return record;
+    }
+    return null;
+};
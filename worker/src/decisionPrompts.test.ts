@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeTradeDecision, parseHoldDecision, parseTradeDecision } from './decisionPrompts';
+import { OrderSide } from './types';
+
+describe('parseTradeDecision', () => {
+    it('reads JSON, with or without a markdown code fence', () => {
+        const json = '{"candidates": [{"symbol": "BTCUSDT", "side": "LONG", "reason": "Breakout.", "confidence": "high"}]}';
+        assert.equal(parseTradeDecision(json)?.candidates[0].symbol, 'BTCUSDT');
+        assert.equal(parseTradeDecision(`\`\`\`json\n${json}\n\`\`\``)?.candidates[0].symbol, 'BTCUSDT');
+    });
+
+    it('returns null for an answer in prose instead of throwing', () => {
+        assert.equal(parseTradeDecision('Sure! I would go long BTCUSDT.'), null);
+        assert.equal(parseTradeDecision(''), null);
+    });
+});
+
+describe('normalizeTradeDecision', () => {
+    const candidate = (symbol: string, overrides: Record<string, unknown> = {}) => ({ symbol, reason: 'Breakout.', confidence: 'high', ...overrides });
+
+    it('keeps the ranking of the candidates', () => {
+        const decision = normalizeTradeDecision({ candidates: [candidate('ETHUSDT'), candidate('BTCUSDT'), candidate('SOLUSDT')] });
+        assert.deepEqual(decision?.candidates.map(c => c.symbol), ['ETHUSDT', 'BTCUSDT', 'SOLUSDT']);
+    });
+
+    it('drops malformed candidates and keeps the rest in order', () => {
+        const decision = normalizeTradeDecision({ candidates: [
+            candidate('ETHUSDT', { reason: undefined }),
+            'BTCUSDT',
+            candidate('SOLUSDT'),
+            candidate('XRPUSDT', { confidence: '' }),
+            candidate('BTCUSDT'),
+        ] });
+        assert.deepEqual(decision?.candidates.map(c => c.symbol), ['SOLUSDT', 'BTCUSDT']);
+    });
+
+    it('accepts a single candidate object as older prompts answered', () => {
+        assert.deepEqual(normalizeTradeDecision(candidate('BTCUSDT'))?.candidates.map(c => c.symbol), ['BTCUSDT']);
+    });
+
+    it('returns null when nothing has the expected shape', () => {
+        assert.equal(normalizeTradeDecision({ candidates: [] }), null);
+        assert.equal(normalizeTradeDecision({ candidates: [{ symbol: 'BTCUSDT' }] }), null);
+        assert.equal(normalizeTradeDecision(null), null);
+        assert.equal(normalizeTradeDecision([candidate('BTCUSDT')]), null);
+    });
+
+    it('reads prices sent as strings and drops prices that are not positive numbers', () => {
+        const [normalized] = normalizeTradeDecision(candidate('BTCUSDT', { entryPrice: '101.5', stopLoss: -1, takeProfit: 'soon' }))!.candidates;
+        assert.equal(normalized.entryPrice, 101.5);
+        assert.equal(normalized.stopLoss, undefined);
+        assert.equal(normalized.takeProfit, undefined);
+    });
+
+    it('passes unknown enum values on as text for validation to report', () => {
+        const [normalized] = normalizeTradeDecision(candidate('BTCUSDT', { side: 'BUY', entryType: 1, confidence: 'certain' }))!.candidates;
+        assert.equal(normalized.side, 'BUY');
+        assert.equal(normalized.entryType, '1');
+        assert.equal(normalized.confidence, 'certain');
+        assert.equal(normalizeTradeDecision(candidate('BTCUSDT', { side: OrderSide.SHORT }))!.candidates[0].side, OrderSide.SHORT);
+    });
+});
+
+describe('parseHoldDecision', () => {
+    it('reads HOLD or CLOSE with the reason', () => {
+        assert.deepEqual(parseHoldDecision('{"decision": "CLOSE", "reason": "Target reached."}'), { decision: 'CLOSE', reason: 'Target reached.' });
+        assert.deepEqual(parseHoldDecision('{"decision": "HOLD"}'), { decision: 'HOLD', reason: '' });
+    });
+
+    it('returns null for other decisions and for prose', () => {
+        assert.equal(parseHoldDecision('{"decision": "SELL"}'), null);
+        assert.equal(parseHoldDecision('I would hold for now.'), null);
+    });
+});
@@ -0,0 +1,117 @@
+import { DecisionRepair, EntryType, HoldDecision, TradeCandidate, TradeDecision } from './decisionProvider';
+import { OrderSide, Position } from './types';
+
+// Prompt text and response parsing shared by the LLM-backed decision providers.
+
+const CONTEXT_HEADER = '**Current Market Context (Symbol, Last Price, 24h Change %, 24h Volume; indented lines are technical indicators per timeframe, computed on closed candles):**';
+
+export const MAX_CANDIDATES = 3;
+
+const buildRepairNote = (repair: DecisionRepair) => `
+**Your previous answer was rejected.**
+Previous answer: ${repair.previousResponse}
+Problem: ${repair.error}
+Answer again, correcting the problem and following the instructions above.
+`;
+
+export const buildTradePrompt = (prompt: string, marketContext: string, allowedSides: OrderSide[], repair?: DecisionRepair) => `
+You are an expert crypto trading analyst. Your task is to select the best cryptocurrency to trade based on the given strategy and market context.
+Provide your response in JSON format.
+
+**Strategy:**
+${prompt}
+
+${CONTEXT_HEADER}
+${marketContext}
+
+Propose up to ${MAX_CANDIDATES} trades on symbols from the market context list that fit the strategy, ranked best first.
+For each, give the direction, the entry type (market, or limit with an entry price), a stop-loss price, a take-profit price,
+and the condition that would invalidate the idea.
+Allowed directions: ${allowedSides.join(', ')}.
+${repair ? buildRepairNote(repair) : ''}        `;
+
+export const buildHoldPrompt = (strategyPrompt: string, position: Position, marketContext: string) => `
+You are an expert crypto trading analyst. You are currently in a trade and need to decide whether to hold or close the position.
+Provide your response in JSON format.
+
+**Original Strategy:**
+${strategyPrompt}
+
+**Current Position:**
+- Symbol: ${position.symbol}
+- Side: ${position.side}
+- Entry Price: ${position.entryPrice}
+- Current Unrealized PnL: ${position.unrealizedPnl.toFixed(2)} USD
+
+${CONTEXT_HEADER}
+${marketContext}
+
+Based on the original strategy and current market conditions, should you HOLD or CLOSE this position?
+        `;
+
+// For backends without schema-constrained output, the expected JSON shape is spelled out in the prompt.
+export const TRADE_RESPONSE_FORMAT = 'Respond with a single JSON object: {"candidates": [{"symbol": "<SYMBOL>", "side": "LONG" | "SHORT", "entryType": "market" | "limit", "entryPrice": <number, limit only>, "stopLoss": <number>, "takeProfit": <number>, "invalidation": "<condition>", "reason": "<short explanation>", "confidence": "high" | "medium" | "low"}]}, best candidate first.';
+export const HOLD_RESPONSE_FORMAT = 'Respond with a single JSON object: {"decision": "HOLD" | "CLOSE", "reason": "<short explanation>"}.';
+
+// Tolerates models that wrap the JSON in a markdown code fence. Text that is not JSON at all, such
+// as an answer in prose, gives null so it is rejected like any other malformed answer.
+const parseJson = (text: string): unknown => {
+    try {
+        return JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+    } catch (error) {
+        if (error instanceof SyntaxError) return null;
+        throw error;
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Models sometimes send numbers as strings; anything that is not a positive number is dropped.
+const toPrice = (value: unknown): number | undefined => {
+    const price = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof price === 'number' && Number.isFinite(price) && price > 0 ? price : undefined;
+};
+
+// Enum fields are passed on as text even when the value is not one of the enum's: validateTradeCandidate
+// checks them and tells the model what it got wrong.
+const toText = (value: unknown): string | undefined => {
+    if (value === undefined) return undefined;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const toCandidate = (raw: unknown): TradeCandidate | null => {
+    if (!isObject(raw) || typeof raw.symbol !== 'string' || typeof raw.reason !== 'string' || !raw.symbol || !raw.reason || !raw.confidence) return null;
+    return {
+        symbol: raw.symbol,
+        side: toText(raw.side) as OrderSide | undefined,
+        entryType: toText(raw.entryType) as EntryType | undefined,
+        entryPrice: toPrice(raw.entryPrice),
+        stopLoss: toPrice(raw.stopLoss),
+        takeProfit: toPrice(raw.takeProfit),
+        invalidation: toText(raw.invalidation),
+        reason: raw.reason,
+        confidence: toText(raw.confidence) as TradeCandidate['confidence'],
+    };
+};
+
+/**
+ * Accepts a ranked proposal, or a single candidate object as answered by older prompts and
+ * found in older recordings. Returns null when nothing has the expected shape; malformed
+ * candidates inside an otherwise valid list are dropped.
+ */
+export const normalizeTradeDecision = (raw: unknown): TradeDecision | null => {
+    const list: unknown[] = isObject(raw) && Array.isArray(raw.candidates) ? raw.candidates : [raw];
+    const candidates = list.map(toCandidate).filter((c): c is TradeCandidate => c !== null);
+    return candidates.length ? { candidates } : null;
+};
+
+export const parseTradeDecision = (text: string): TradeDecision | null => normalizeTradeDecision(parseJson(text));
+
+export const parseHoldDecision = (text: string): { decision: HoldDecision; reason: string } | null => {
+    const parsed = parseJson(text);
+    if (isObject(parsed) && (parsed.decision === 'HOLD' || parsed.decision === 'CLOSE')) {
+        return { decision: parsed.decision, reason: typeof parsed.reason === 'string' ? parsed.reason : '' };
+    }
+    return null;
+};
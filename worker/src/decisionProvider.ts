@@ -0,0 +1,74 @@
+import { GeminiDecisionProvider } from './gemini';
+import { OpenAiCompatibleDecisionProvider } from './openaiCompatible';
+import { MomentumDecisionProvider } from './ruleBasedProvider';
+import { DecisionProviderConfig, OrderSide, Position, TokenUsage } from './types';
+
+export type EntryType = 'market' | 'limit';
+
+// One proposed trade. Levels are absolute prices; without them the strategy's fixed
+// takeProfitPct / stopLossPct apply.
+export interface TradeCandidate {
+    symbol: string;
+    side?: OrderSide; // Omitted by older recordings; the agent then falls back to its strategy type
+    entryType?: EntryType; // Defaults to market
+    entryPrice?: number; // Required for limit entries
+    stopLoss?: number;
+    takeProfit?: number;
+    invalidation?: string; // The condition under which the trade idea no longer holds
+    reason: string;
+    confidence: 'high' | 'medium' | 'low';
+}
+
+// Candidates ranked best first; the agent takes the first that passes validation and risk checks.
+export interface TradeDecision {
+    candidates: TradeCandidate[];
+}
+
+export type HoldDecision = 'HOLD' | 'CLOSE';
+
+// Sent back to the model when its previous answer failed validation.
+export interface DecisionRepair {
+    previousResponse: string;
+    error: string;
+}
+
+// A decision plus what is needed to audit it. `decision` is null when there was no usable answer.
+export interface DecisionResponse<T> {
+    decision: T | null;
+    prompt?: string; // Exact text sent to the model
+    rawResponse?: string;
+    reason?: string; // The model's explanation of a hold decision
+    usage?: TokenUsage;
+    error?: string;
+}
+
+// The source of trade/hold decisions for an Agent: an LLM backend in production, or recorded
+// and deterministic stand-ins for backtests and offline runs.
+export interface DecisionProvider {
+    readonly name: string; // Backend and model, for logs, e.g. "gemini:gemini-2.5-flash"
+    getTradeDecision(prompt: string, marketContext: string, allowedSides: OrderSide[], repair?: DecisionRepair): Promise<DecisionResponse<TradeDecision>>;
+    getHoldDecision(prompt: string, position: Position, marketContext: string): Promise<DecisionResponse<HoldDecision>>;
+}
+
+// Strategies without a `decision` setting use DECISION_PROVIDER / DECISION_MODEL, then Gemini.
+const getDefaultConfig = (): DecisionProviderConfig => {
+    const provider = (process.env.DECISION_PROVIDER || 'gemini').trim().toLowerCase();
+    const model = process.env.DECISION_MODEL?.trim() || undefined;
+    switch (provider) {
+        case 'gemini': return { provider: 'gemini', model };
+        case 'openai': return { provider: 'openai', model };
+        case 'rules': return { provider: 'rules' };
+        default: throw new Error(`Unknown DECISION_PROVIDER '${provider}'. Use gemini, openai or rules.`);
+    }
+};
+
+export const createDecisionProvider = (config: DecisionProviderConfig = getDefaultConfig()): DecisionProvider => {
+    switch (config.provider) {
+        case 'gemini':
+            return new GeminiDecisionProvider({ model: config.model });
+        case 'openai':
+            return new OpenAiCompatibleDecisionProvider({ model: config.model, baseUrl: config.baseUrl });
+        case 'rules':
+            return new MomentumDecisionProvider(config);
+    }
+};
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TradeCandidate } from './decisionProvider';
+import { parseContextSymbols, validateTradeCandidate } from './decisionValidation';
+import { ExchangeInstrument, MarketDataSource } from './exchange';
+import { OrderSide } from './types';
+
+const BOTH_SIDES = [OrderSide.LONG, OrderSide.SHORT];
+const CONTEXT = parseContextSymbols('BTCUSDT, Price: 100\n  15m: RSI 55\nETHUSDT, Price: 100\nBTCUSD, Price: 100\nBTC-27DEC24, Price: 100');
+
+const instrument = (symbol: string, overrides: Partial<ExchangeInstrument> = {}): ExchangeInstrument => ({
+    symbol,
+    status: 'Trading',
+    contractType: 'LinearPerpetual',
+    quoteCoin: 'USDT',
+    lotSizeFilter: { minOrderQty: '0.001', maxOrderQty: '100', qtyStep: '0.001' },
+    priceFilter: { tickSize: '0.1' },
+    ...overrides,
+});
+
+// Every symbol trades at 100; ETHUSDT is delisting, BTCUSD is inverse and BTC-27DEC24 a future.
+const market: MarketDataSource = {
+    getMarketData: async () => '',
+    getTicker: async symbol => ({ symbol, lastPrice: '100', price24hPcnt: '0', volume24h: '0', turnover24h: '0' }),
+    getInstrumentInfo: async symbol => {
+        switch (symbol) {
+            case 'ETHUSDT': return instrument(symbol, { status: 'Closed' });
+            case 'BTCUSD': return instrument(symbol, { contractType: 'InverseFutures', quoteCoin: 'USD' });
+            case 'BTC-27DEC24': return instrument(symbol, { contractType: 'LinearFutures' });
+            default: return instrument(symbol);
+        }
+    },
+    getCandles: async () => [],
+};
+
+const candidate = (overrides: Partial<TradeCandidate> = {}): TradeCandidate => ({
+    symbol: 'BTCUSDT',
+    side: OrderSide.LONG,
+    entryType: 'market',
+    stopLoss: 95,
+    takeProfit: 110,
+    reason: 'Breakout.',
+    confidence: 'high',
+    ...overrides,
+});
+
+const validate = (overrides: Partial<TradeCandidate> = {}, allowedSides = BOTH_SIDES) =>
+    validateTradeCandidate(candidate(overrides), CONTEXT, allowedSides, market);
+
+const errorOf = async (overrides: Partial<TradeCandidate>, allowedSides = BOTH_SIDES) => {
+    const validation = await validate(overrides, allowedSides);
+    assert.equal(validation.status, 'invalid');
+    return validation.status === 'invalid' ? validation.error : '';
+};
+
+describe('parseContextSymbols', () => {
+    it('reads the symbol of each unindented line, skipping indicator lines', () => {
+        assert.deepEqual([...CONTEXT], ['BTCUSDT', 'ETHUSDT', 'BTCUSD', 'BTC-27DEC24']);
+    });
+});
+
+describe('validateTradeCandidate', () => {
+    it('accepts a well-formed candidate with the instrument and last price', async () => {
+        const validation = await validate();
+        assert.equal(validation.status, 'valid');
+        assert.equal(validation.status === 'valid' && validation.price, 100);
+    });
+
+    it('rejects unknown enum values and sides the strategy does not allow', async () => {
+        assert.match(await errorOf({ confidence: 'certain' as TradeCandidate['confidence'] }), /confidence must be one of high, medium, low, got 'certain'/);
+        assert.match(await errorOf({ side: 'BUY' as OrderSide }), /side must be one of LONG, SHORT/);
+        assert.match(await errorOf({ side: OrderSide.SHORT, stopLoss: 105, takeProfit: 90 }, [OrderSide.LONG]), /side must be one of LONG, got 'SHORT'/);
+        assert.match(await errorOf({ entryType: 'stop' as TradeCandidate['entryType'] }), /entryType must be one of market, limit/);
+    });
+
+    it('only accepts trading USDT linear perpetuals that were in the market context', async () => {
+        assert.match(await errorOf({ symbol: 'DOGEUSDT' }), /'DOGEUSDT' is not in the market context. Pick one of: BTCUSDT, ETHUSDT/);
+        assert.match(await errorOf({ symbol: 'ETHUSDT' }), /not currently trading \(status Closed\)/);
+        assert.match(await errorOf({ symbol: 'BTCUSD' }), /is a InverseFutures, not a linear perpetual/);
+        assert.match(await errorOf({ symbol: 'BTC-27DEC24' }), /is a LinearFutures, not a linear perpetual/);
+    });
+
+    it('rejects a stop or target on the wrong side of a market entry', async () => {
+        assert.match(await errorOf({ stopLoss: 101 }), /the stopLoss of a LONG must be below the entry price 100, got 101/);
+        assert.match(await errorOf({ takeProfit: 100 }), /the takeProfit of a LONG must be above the entry price 100/);
+        assert.match(await errorOf({ side: OrderSide.SHORT, stopLoss: 95, takeProfit: 90 }), /the stopLoss of a SHORT must be above the entry price 100, got 95/);
+        assert.match(await errorOf({ side: OrderSide.SHORT, stopLoss: 105, takeProfit: 110 }), /the takeProfit of a SHORT must be below/);
+    });
+
+    it('checks the levels of a limit entry far from the market against its limit price', async () => {
+        // A buy limit at 80 with its stop at 78 and target at 90 is valid even though the target is below the market.
+        assert.equal((await validate({ entryType: 'limit', entryPrice: 80, stopLoss: 78, takeProfit: 90 })).status, 'valid');
+        // A stop below the market but above the limit would trigger as soon as the order fills.
+        assert.match(await errorOf({ entryType: 'limit', entryPrice: 80, stopLoss: 85, takeProfit: 90 }), /below the entry price 80, got 85/);
+        assert.match(await errorOf({ entryType: 'limit', entryPrice: undefined }), /a limit entry needs a positive entryPrice/);
+    });
+
+    it('has no levels to check without a side', async () => {
+        assert.equal((await validate({ side: undefined, stopLoss: 120, takeProfit: 80 })).status, 'valid');
+    });
+});
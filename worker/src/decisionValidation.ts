@@ -0,0 +1,86 @@
+import { TradeCandidate } from './decisionProvider';
+import { ExchangeInstrument, MarketDataSource } from './exchange';
+import { OrderSide } from './types';
+
+const CONFIDENCE_LEVELS = ['high', 'medium', 'low'];
+const ENTRY_TYPES = ['market', 'limit'];
+
+export type DecisionValidation =
+    | { status: 'valid'; instrument: ExchangeInstrument; price: number } // Last price at validation
+    | { status: 'invalid'; error: string };
+
+// Symbols offered to the model: the first field of each unindented market context line.
+export const parseContextSymbols = (marketContext: string): Set<string> =>
+    new Set(marketContext
+        .split('\n')
+        .filter(line => line.trim().length > 0 && !/^\s/.test(line))
+        .map(line => line.split(',')[0].trim()));
+
+/**
+ * Checks one of the model's trade candidates before anything is sent to the exchange: the
+ * confidence, side and entry type must be known values, the symbol must be one that was offered
+ * and a trading USDT linear perpetual, and the stop-loss and take-profit must sit on the correct
+ * side of the entry. The returned error is phrased so it can be fed back to the model.
+ */
+export const validateTradeCandidate = async (
+    candidate: TradeCandidate,
+    contextSymbols: Set<string>,
+    allowedSides: OrderSide[],
+    source: MarketDataSource,
+): Promise<DecisionValidation> => {
+    const invalid = (error: string): DecisionValidation => ({ status: 'invalid', error });
+
+    if (!CONFIDENCE_LEVELS.includes(candidate.confidence)) {
+        return invalid(`confidence must be one of ${CONFIDENCE_LEVELS.join(', ')}, got '${candidate.confidence}'.`);
+    }
+    if (candidate.side !== undefined && !allowedSides.includes(candidate.side)) {
+        return invalid(`side must be one of ${allowedSides.join(', ')}, got '${candidate.side}'.`);
+    }
+    if (candidate.entryType !== undefined && !ENTRY_TYPES.includes(candidate.entryType)) {
+        return invalid(`entryType must be one of ${ENTRY_TYPES.join(', ')}, got '${candidate.entryType}'.`);
+    }
+    if (candidate.entryType === 'limit' && candidate.entryPrice === undefined) {
+        return invalid('a limit entry needs a positive entryPrice.');
+    }
+    if (typeof candidate.symbol !== 'string' || !contextSymbols.has(candidate.symbol)) {
+        return invalid(`symbol '${candidate.symbol}' is not in the market context. Pick one of: ${[...contextSymbols].join(', ')}.`);
+    }
+
+    let instrument: ExchangeInstrument;
+    let price: number;
+    try {
+        instrument = await source.getInstrumentInfo(candidate.symbol);
+        price = parseFloat((await source.getTicker(candidate.symbol)).lastPrice);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return invalid(`symbol '${candidate.symbol}' could not be looked up on the exchange (${errorMessage}).`);
+    }
+    if (instrument.status !== 'Trading') {
+        return invalid(`symbol '${candidate.symbol}' is not currently trading (status ${instrument.status}).`);
+    }
+    if (instrument.contractType !== undefined && instrument.contractType !== 'LinearPerpetual') {
+        return invalid(`symbol '${candidate.symbol}' is a ${instrument.contractType}, not a linear perpetual.`);
+    }
+    if ((instrument.quoteCoin ?? candidate.symbol.slice(-4)) !== 'USDT') {
+        return invalid(`symbol '${candidate.symbol}' is not a USDT contract.`);
+    }
+
+    // Without a side the agent falls back to its strategy type, and there are no levels to check.
+    const entryPrice = candidate.entryType === 'limit' ? candidate.entryPrice! : price;
+    if (candidate.side === OrderSide.LONG) {
+        if (candidate.stopLoss !== undefined && candidate.stopLoss >= entryPrice) {
+            return invalid(`the stopLoss of a LONG must be below the entry price ${entryPrice}, got ${candidate.stopLoss}.`);
+        }
+        if (candidate.takeProfit !== undefined && candidate.takeProfit <= entryPrice) {
+            return invalid(`the takeProfit of a LONG must be above the entry price ${entryPrice}, got ${candidate.takeProfit}.`);
+        }
+    } else if (candidate.side === OrderSide.SHORT) {
+        if (candidate.stopLoss !== undefined && candidate.stopLoss <= entryPrice) {
+            return invalid(`the stopLoss of a SHORT must be above the entry price ${entryPrice}, got ${candidate.stopLoss}.`);
+        }
+        if (candidate.takeProfit !== undefined && candidate.takeProfit >= entryPrice) {
+            return invalid(`the takeProfit of a SHORT must be below the entry price ${entryPrice}, got ${candidate.takeProfit}.`);
+        }
+    }
+    return { status: 'valid', instrument, price };
+};
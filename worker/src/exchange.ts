@@ -0,0 +1,174 @@
+import { Candle, OrderSide } from './types';
+import { KlineInterval } from './candles';
+
+export type TradingMode = 'live' | 'paper';
+
+// What a failed exchange request means for the caller. Only retryable and rateLimited failures
+// can succeed when sent again; 'rejected' covers every other refusal, e.g. an invalid quantity.
+export type ExchangeErrorKind = 'retryable' | 'rateLimited' | 'insufficientMargin' | 'invalidSymbol' | 'auth' | 'rejected';
+
+export class ExchangeError extends Error {
+    constructor(message: string, readonly kind: ExchangeErrorKind, readonly retCode?: number) {
+        super(message);
+        this.name = 'ExchangeError';
+    }
+}
+
+// The class of a caught error; errors not raised by an exchange client count as retryable.
+export const getExchangeErrorKind = (error: unknown): ExchangeErrorKind =>
+    error instanceof ExchangeError ? error.kind : 'retryable';
+
+// The subset of Bybit's V5 response shapes the agent relies on. Bybit's own
+// response objects are structurally compatible, so BybitClient can return them as-is.
+export interface ExchangeTicker {
+    symbol: string;
+    lastPrice: string;
+    price24hPcnt: string;
+    volume24h: string;
+    turnover24h: string;
+    bid1Price?: string; // Best bid/ask; replayed feeds without a book omit them
+    ask1Price?: string;
+}
+
+export interface ExchangeInstrument {
+    symbol: string;
+    status: string;
+    contractType?: string; // e.g. 'LinearPerpetual'
+    quoteCoin?: string;
+    lotSizeFilter: {
+        minOrderQty: string;
+        maxOrderQty: string;
+        qtyStep: string;
+        maxMktOrderQty?: string;
+        minNotionalValue?: string;
+    };
+    priceFilter: {
+        tickSize: string;
+    };
+}
+
+export interface ExchangePosition {
+    symbol: string;
+    side: string; // 'Buy' | 'Sell'
+    size: string;
+    avgPrice: string;
+    unrealisedPnl: string;
+    markPrice?: string;
+    takeProfit?: string;
+    stopLoss?: string;
+    createdTime?: string; // Position open time (ms)
+}
+
+export interface ClosedPnlRecord {
+    symbol: string;
+    orderId: string;
+    side: string;
+    qty: string;
+    orderType: string;
+    closedSize: string;
+    cumEntryValue: string;
+    avgEntryPrice: string;
+    cumExitValue: string;
+    avgExitPrice: string;
+    closedPnl: string;
+    leverage: string;
+    createdTime: string;
+    updatedTime: string;
+}
+
+// Bybit's time-in-force values. A PostOnly order is cancelled rather than allowed to take liquidity.
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'PostOnly';
+
+// Turns placeOrder into a limit order; without it orders are sent at market.
+export interface LimitOrderParams {
+    price: string;
+    timeInForce: TimeInForce;
+}
+
+export interface ExchangeOrder {
+    orderId: string;
+    symbol: string;
+    side: string; // 'Buy' | 'Sell'
+    orderType: string; // 'Market' | 'Limit'
+    price: string;
+    qty: string;
+    cumExecQty: string; // Filled so far
+    avgPrice: string; // Average fill price; empty or '0' before the first fill
+    orderStatus: string; // New, PartiallyFilled, Filled, Cancelled, PartiallyFilledCanceled, Rejected, Deactivated
+    timeInForce: string;
+}
+
+// One fill or funding settlement, as pushed on the private execution stream or listed in the execution history.
+export interface ExchangeExecution {
+    symbol: string;
+    orderId: string;
+    orderLinkId?: string; // Empty on orders the exchange created, e.g. a triggered TP/SL
+    side: string; // 'Buy' | 'Sell'
+    execPrice: string;
+    execQty: string; // For funding, the position size it was charged on
+    execFee: string; // Trading fee; for funding, the funding fee (negative when received)
+    execType: string; // 'Trade', 'Funding', 'BustTrade' (liquidation), ...
+    stopOrderType?: string; // 'TakeProfit', 'StopLoss', ... on the fills of triggered TP/SL orders
+    closedSize: string; // Part of execQty that reduced a position; '0' for opening fills
+    execTime: string; // ms
+}
+
+// Private account updates. A position update with size '0' means the position is now flat.
+export type AccountEvent =
+    | { type: 'position'; position: ExchangePosition }
+    | { type: 'order'; order: ExchangeOrder }
+    | { type: 'execution'; execution: ExchangeExecution };
+
+// Push updates for one exchange account; listeners receive every event and filter for themselves.
+export interface AccountStream {
+    subscribe(listener: (event: AccountEvent) => void): () => void;
+}
+
+// Streamed public tickers. getLatestTicker returns null unless the symbol is subscribed and fresh.
+export interface TickerStream {
+    subscribeTicker(symbol: string, listener?: (ticker: ExchangeTicker) => void): () => void;
+    getLatestTicker(symbol: string): ExchangeTicker | null;
+}
+
+// Order statuses in which an order can still fill.
+export const OPEN_ORDER_STATUSES = ['New', 'PartiallyFilled', 'Untriggered'];
+
+// New TP/SL levels for an open position; omitted levels are left as they are.
+export interface TradingStopParams {
+    takeProfit?: string;
+    stopLoss?: string;
+}
+
+export interface OrderResult {
+    orderId: string;
+    orderLinkId: string;
+}
+
+// Public, read-only market data. Used on its own as the price feed of a paper exchange.
+export interface MarketDataSource {
+    getMarketData(): Promise<string>;
+    getTicker(symbol: string): Promise<ExchangeTicker>;
+    getInstrumentInfo(symbol: string): Promise<ExchangeInstrument>;
+    // Closed candles only, oldest first.
+    getCandles(symbol: string, interval: KlineInterval, limit: number): Promise<Candle[]>;
+}
+
+export interface ExchangeClient extends MarketDataSource {
+    readonly mode: TradingMode;
+    getWalletBalance(): Promise<number>;
+    setLeverage(symbol: string, leverage: string): Promise<void>;
+    // orderLinkId tags the order (see orderLinkId.ts); a random one is used without it.
+    placeOrder(symbol: string, side: OrderSide, qty: string, takeProfit?: string, stopLoss?: string, limit?: LimitOrderParams, orderLinkId?: string): Promise<OrderResult>;
+    // Open or recently closed order; null if the exchange does not know it.
+    getOrder(symbol: string, orderId: string): Promise<ExchangeOrder | null>;
+    // Succeeds quietly if the order already filled or was cancelled.
+    cancelOrder(symbol: string, orderId: string): Promise<void>;
+    getPosition(symbol: string): Promise<ExchangePosition | null>;
+    getOpenPositions(): Promise<ExchangePosition[]>;
+    setTradingStop(symbol: string, stops: TradingStopParams): Promise<void>;
+    closePosition(symbol: string, side: OrderSide, size: string, orderLinkId?: string): Promise<OrderResult>;
+    // The closed PnL record of the given closing order, if the exchange has one.
+    getClosedPnl(symbol: string, orderId: string): Promise<ClosedPnlRecord | null>;
+    // Fills and funding settlements in the symbol since the given time (ms), oldest first.
+    getExecutions(symbol: string, since: number): Promise<ExchangeExecution[]>;
+}
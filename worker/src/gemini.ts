@@ -1,38 +1,69 @@
-
 import { GoogleGenAI, Type } from '@google/genai';
 import { log } from './logger';
-import { Position } from './types';
-
-// Initialize the GoogleGenAI client with the API key from environment variables.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-const model = 'gemini-2.5-flash';
+import { OrderSide, Position, TokenUsage } from './types';
+import { DecisionProvider, DecisionRepair, DecisionResponse, HoldDecision, TradeDecision } from './decisionProvider';
+import { buildHoldPrompt, buildTradePrompt, MAX_CANDIDATES, parseHoldDecision, parseTradeDecision } from './decisionPrompts';
 
-export interface TradeDecision {
-    symbol: string;
-    reason: string;
-    confidence: 'high' | 'medium' | 'low';
-}
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
 
-export type HoldDecision = 'HOLD' | 'CLOSE';
-
-// Define the JSON schema for the trade decision response.
-const tradeDecisionSchema = {
+// Define the JSON schema for the trade decision response: ranked candidates, best first.
+const tradeCandidateSchema = {
     type: Type.OBJECT,
     properties: {
         symbol: {
             type: Type.STRING,
             description: 'The cryptocurrency symbol to trade, e.g., BTCUSDT.'
         },
+        side: {
+            type: Type.STRING,
+            enum: [OrderSide.LONG, OrderSide.SHORT],
+            description: 'The direction of the trade: LONG to profit from a rise, SHORT to profit from a fall.'
+        },
+        entryType: {
+            type: Type.STRING,
+            enum: ['market', 'limit'],
+            description: 'Enter at market, or with a limit order at entryPrice.'
+        },
+        entryPrice: {
+            type: Type.NUMBER,
+            description: 'The limit price for a limit entry.'
+        },
+        stopLoss: {
+            type: Type.NUMBER,
+            description: 'The stop-loss price.'
+        },
+        takeProfit: {
+            type: Type.NUMBER,
+            description: 'The take-profit price.'
+        },
+        invalidation: {
+            type: Type.STRING,
+            description: 'The market condition that would invalidate this trade idea.'
+        },
         reason: {
             type: Type.STRING,
             description: 'A brief explanation for choosing this symbol based on the strategy.'
         },
         confidence: {
             type: Type.STRING,
+            enum: ['high', 'medium', 'low'],
             description: 'The confidence level of this decision (high, medium, or low).'
         }
     },
-    required: ['symbol', 'reason', 'confidence']
+    required: ['symbol', 'side', 'entryType', 'stopLoss', 'takeProfit', 'invalidation', 'reason', 'confidence']
+};
+
+const tradeDecisionSchema = {
+    type: Type.OBJECT,
+    properties: {
+        candidates: {
+            type: Type.ARRAY,
+            items: tradeCandidateSchema,
+            maxItems: String(MAX_CANDIDATES),
+            description: 'Candidate trades, best first.'
+        }
+    },
+    required: ['candidates']
 };
 
 // Define the JSON schema for the hold decision response.
@@ -51,101 +82,118 @@ const holdDecisionSchema = {
     required: ['decision', 'reason']
 };
 
-export const getTradeDecision = async (prompt: string, marketContext: string): Promise<TradeDecision | null> => {
-    try {
-        const fullPrompt = `
-You are an expert crypto trading analyst. Your task is to select the best cryptocurrency to trade based on the given strategy and market context.
-Provide your response in JSON format.
-
-**Strategy:**
-${prompt}
+const toTokenUsage = (metadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number }): TokenUsage | undefined =>
+    metadata && {
+        promptTokens: metadata.promptTokenCount,
+        completionTokens: metadata.candidatesTokenCount,
+        totalTokens: metadata.totalTokenCount,
+    };
 
-**Current Market Context (Symbol, Last Price, 24h Change %, 24h Volume):**
-${marketContext}
+export interface GeminiOptions {
+    model?: string;
+    apiKey?: string; // Defaults to the API_KEY env var
+}
 
-Select one symbol from the market context list that best fits the strategy.
-        `;
+/**
+ * Google Gemini with schema-constrained JSON output. The SDK client is created on first use,
+ * so importing this module (or running without API_KEY on another provider) has no side effects.
+ */
+export class GeminiDecisionProvider implements DecisionProvider {
+    readonly name: string;
+    private model: string;
+    private apiKey?: string;
+    private ai: GoogleGenAI | null = null;
+
+    constructor(options: GeminiOptions = {}) {
+        this.model = options.model || DEFAULT_GEMINI_MODEL;
+        this.apiKey = options.apiKey;
+        this.name = `gemini:${this.model}`;
+    }
 
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: fullPrompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: tradeDecisionSchema,
-                temperature: 0.5,
+    async getTradeDecision(prompt: string, marketContext: string, allowedSides: OrderSide[], repair?: DecisionRepair): Promise<DecisionResponse<TradeDecision>> {
+        const fullPrompt = buildTradePrompt(prompt, marketContext, allowedSides, repair);
+        // Set as soon as Gemini answers, so the audit record keeps an answer that could not be used.
+        let text: string | undefined;
+        let usage: TokenUsage | undefined;
+        try {
+            const response = await this.getClient().models.generateContent({
+                model: this.model,
+                contents: fullPrompt,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: tradeDecisionSchema,
+                    temperature: 0.5,
+                }
+            });
+
+            text = response.text;
+            usage = toTokenUsage(response.usageMetadata);
+            if (!text) {
+                log('GEMINI', 'Received empty text response from Gemini for trade decision.');
+                return { decision: null, prompt: fullPrompt, usage, error: 'Empty response' };
             }
-        });
 
-        const text = response.text;
-        if (!text) {
-            log('GEMINI', 'Received empty text response from Gemini for trade decision.');
-            return null;
-        }
-        
-        const decision = JSON.parse(text.trim());
-        if (decision.symbol && decision.reason && decision.confidence) {
-            return decision as TradeDecision;
-        }
+            const decision = parseTradeDecision(text);
+            if (decision) {
+                return { decision, prompt: fullPrompt, rawResponse: text, usage };
+            }
 
-        log('GEMINI', `Invalid JSON structure in trade decision response: ${text}`);
-        return null;
+            log('GEMINI', `Invalid JSON structure in trade decision response: ${text}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: text, usage, error: 'Invalid JSON structure' };
 
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-        log('GEMINI_ERROR', `Error getting trade decision: ${errorMessage}`);
-        return null;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log('GEMINI_ERROR', `Error getting trade decision: ${errorMessage}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: text, usage, error: errorMessage };
+        }
     }
-};
 
-export const getHoldDecision = async (strategyPrompt: string, position: Position, marketContext: string): Promise<HoldDecision | null> => {
-     try {
-        const fullPrompt = `
-You are an expert crypto trading analyst. You are currently in a trade and need to decide whether to hold or close the position.
-Provide your response in JSON format.
-
-**Original Strategy:**
-${strategyPrompt}
-
-**Current Position:**
-- Symbol: ${position.symbol}
-- Side: ${position.side}
-- Entry Price: ${position.entryPrice}
-- Current Unrealized PnL: ${position.unrealizedPnl.toFixed(2)} USD
-
-**Current Market Context (Symbol, Last Price, 24h Change %, 24h Volume):**
-${marketContext}
-
-Based on the original strategy and current market conditions, should you HOLD or CLOSE this position?
-        `;
-
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: fullPrompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: holdDecisionSchema,
-                temperature: 0.2,
+    async getHoldDecision(strategyPrompt: string, position: Position, marketContext: string): Promise<DecisionResponse<HoldDecision>> {
+        const fullPrompt = buildHoldPrompt(strategyPrompt, position, marketContext);
+        let text: string | undefined;
+        let usage: TokenUsage | undefined;
+        try {
+            const response = await this.getClient().models.generateContent({
+                model: this.model,
+                contents: fullPrompt,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: holdDecisionSchema,
+                    temperature: 0.2,
+                }
+            });
+
+            text = response.text;
+            usage = toTokenUsage(response.usageMetadata);
+            if (!text) {
+                log('GEMINI', 'Received empty text response from Gemini for hold decision.');
+                return { decision: null, prompt: fullPrompt, usage, error: 'Empty response' };
             }
-        });
 
-        const text = response.text;
-         if (!text) {
-            log('GEMINI', 'Received empty text response from Gemini for hold decision.');
-            return null;
-        }
-        
-        const parsedResponse = JSON.parse(text.trim());
-         if (parsedResponse.decision && (parsedResponse.decision === 'HOLD' || parsedResponse.decision === 'CLOSE')) {
-            log(position.agentId, `Gemini Hold/Close decision: ${parsedResponse.decision}. Reason: ${parsedResponse.reason}`);
-            return parsedResponse.decision as HoldDecision;
-        }
+            const parsed = parseHoldDecision(text);
+            if (parsed) {
+                log(position.agentId, `Gemini Hold/Close decision: ${parsed.decision}. Reason: ${parsed.reason}`);
+                return { decision: parsed.decision, prompt: fullPrompt, rawResponse: text, reason: parsed.reason, usage };
+            }
 
-        log('GEMINI', `Invalid JSON structure in hold decision response: ${text}`);
-        return null;
+            log('GEMINI', `Invalid JSON structure in hold decision response: ${text}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: text, usage, error: 'Invalid JSON structure' };
 
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-        log('GEMINI_ERROR', `Error getting hold decision: ${errorMessage}`);
-        return null;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log('GEMINI_ERROR', `Error getting hold decision: ${errorMessage}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: text, usage, error: errorMessage };
+        }
+    }
+
+    private getClient(): GoogleGenAI {
+        if (!this.ai) {
+            const apiKey = this.apiKey || process.env.API_KEY;
+            if (!apiKey) {
+                throw new Error('Gemini API_KEY is not set.');
+            }
+            this.ai = new GoogleGenAI({ apiKey });
+        }
+        return this.ai;
     }
 }
@@ -2,100 +2,636 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { Agent } from './agent';
-import { strategies } from './strategies.config';
 import { getLogs, log } from './logger';
-import { getTodaysTradesAsCsv } from './tradeLogger';
-import { Position } from './types';
+import { getReportCsv, getTodayDate, getTodaysTrades, getTodaysTradesAsCsv, getLedgerTimezone, listReports, queryTrades } from './tradeLogger';
+import { AgentState, ApiStatusResponse, DashboardEvent, KeyPermissionCheck, Position, Strategy } from './types';
+import { RiskManager, loadRiskLimits, mergeRiskLimits, saveRiskLimits } from './riskManager';
+import { engageKillSwitch, getKillSwitchStatus, isKillSwitchEngaged, rearmKillSwitch } from './killSwitch';
+import { BybitClient } from './bybitClient';
+import { filePaperAccountStore, PaperExchangeClient } from './paperExchange';
+import { TradingMode } from './exchange';
+import { createDecisionProvider, DecisionProvider } from './decisionProvider';
+import { GeminiDecisionProvider } from './gemini';
+import { getDecision, queryDecisions } from './decisionLog';
+import { StreamManager } from './streamManager';
+import { getEventsSince, getLastSeq, publishDashboardEvent, subscribeDashboardEvents } from './dashboardEvents';
+import {
+    authenticate,
+    bootstrapAdmin,
+    createApiToken,
+    createUser,
+    deleteUser,
+    getPrincipal,
+    isRole,
+    listApiTokens,
+    listUsers,
+    login,
+    logout,
+    requireRole,
+    revokeApiToken,
+} from './auth';
+import { audited, queryAudit } from './auditLog';
+import { CredentialVault } from './credentialVault';
+import { deleteStrategy, getStrategies, getStrategy, getStrategyRecord, listStrategyRecords, saveStrategy } from './strategyStore';
 
 dotenv.config();
 
 const app = express();
-app.use(cors());
+// Only origins listed in CORS_ORIGINS (comma-separated) may call the API from a browser; the
+// dashboard itself is served from the same origin and needs no entry.
+const allowedOrigins = (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+app.use(cors({ origin: allowedOrigins.length > 0 ? allowedOrigins : false, credentials: true }));
 app.use(express.json());
+app.use(authenticate);
+
+const viewer = requireRole('viewer');
+const operator = requireRole('operator');
+const admin = requireRole('admin');
 
 const PORT = process.env.PORT || 8080;
 
 let agents: Agent[] = [];
-let hasStarted = false;
+let riskManager: RiskManager;
+let streams: StreamManager | undefined;
+let vault: CredentialVault | null = null;
+const liveClients = new Map<string, BybitClient>(); // By agent ID, so rotated keys can be swapped in
 
-const initializeAgents = () => {
-    log('SYSTEM', 'Initializing agents...');
-    const initializedAgents: Agent[] = [];
+const openVault = (): CredentialVault | null => {
+    const masterKey = process.env.VAULT_MASTER_KEY;
+    if (!masterKey) {
+        log('SYSTEM', 'CRITICAL: VAULT_MASTER_KEY is not set. The credential vault stays locked and live agents cannot load their exchange keys.');
+        return null;
+    }
+    try {
+        return CredentialVault.open(masterKey);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log('SYSTEM', `CRITICAL: ${errorMessage} Live agents cannot load their exchange keys.`);
+        return null;
+    }
+};
 
-    for (const strategy of strategies) {
+// Keys still set as BYBIT_API_KEY_<id> / BYBIT_API_SECRET_<id> are moved into the vault, once per agent.
+const importEnvCredentials = (openedVault: CredentialVault) => {
+    for (const strategy of getStrategies()) {
         // Trim whitespace from keys which can cause authentication errors
         const apiKey = process.env[`BYBIT_API_KEY_${strategy.id}`]?.trim();
         const apiSecret = process.env[`BYBIT_API_SECRET_${strategy.id}`]?.trim();
-
-        if (!apiKey || !apiSecret) {
-            log('SYSTEM', `CRITICAL: Missing API Key or Secret for agent ${strategy.id}. This agent will not be initialized.`);
-            continue; // Skip initializing this agent
+        if (!apiKey || !apiSecret) continue;
+        if (openedVault.importOnce(strategy.id, { apiKey, apiSecret })) {
+            log('SYSTEM', `Imported exchange keys for agent ${strategy.id} into the vault. Remove BYBIT_API_KEY_${strategy.id} and BYBIT_API_SECRET_${strategy.id} from .env.`);
+        } else {
+            log('SYSTEM', `WARNING: BYBIT_API_KEY_${strategy.id} is ignored because the vault manages agent ${strategy.id}'s keys. Remove it from .env.`);
         }
+    }
+};
+
+// A failed lookup counts as a failed check: an agent must not trade with a key it could not verify.
+const checkKeyPermissions = async (client: BybitClient): Promise<KeyPermissionCheck> => {
+    try {
+        return await client.checkKeyPermissions();
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+            checkedAt: new Date().toISOString(),
+            canTradeDerivatives: false,
+            canWithdraw: false,
+            ipRestricted: false,
+            problems: [`Could not read the key's permissions: ${errorMessage}`],
+        };
+    }
+};
+
+const buildDecisionProvider = (strategy: Strategy): DecisionProvider | null => {
+    try {
+        return createDecisionProvider(strategy.decision);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log('SYSTEM', `CRITICAL: Invalid decision provider for agent ${strategy.id}: ${errorMessage}. This agent will not be initialized.`);
+        return null;
+    }
+};
+
+/**
+ * Builds the agent for a strategy. Live agents take their keys from the vault, and only once the
+ * key has passed the permission check; otherwise the reason is logged and null returned.
+ */
+const createAgent = async (strategy: Strategy, decisionProvider: DecisionProvider): Promise<Agent | null> => {
+    // Per-agent TRADING_MODE_<id> overrides the global TRADING_MODE. Live trading is the default.
+    const mode: TradingMode = (process.env[`TRADING_MODE_${strategy.id}`] || process.env.TRADING_MODE || 'live').trim().toLowerCase() === 'paper' ? 'paper' : 'live';
+
+    if (mode === 'paper') {
+        const startingBalance = parseFloat(process.env.PAPER_STARTING_BALANCE || '') || undefined;
+        const tradingClient = new PaperExchangeClient(strategy.id, new BybitClient(strategy.id, undefined, undefined, streams), {
+            startingBalance,
+            store: filePaperAccountStore,
+        });
+        log('SYSTEM', `Agent ${strategy.id} (${strategy.name}) initialized in PAPER trading mode with ${decisionProvider.name}.`);
+        return new Agent(strategy, tradingClient, { riskManager, decisionProvider, tickerStream: streams });
+    }
 
-        // Add diagnostic logging to help verify environment variable loading
-        log('SYSTEM', `Found credentials for agent ${strategy.id}. Key length: ${apiKey.length}, Secret length: ${apiSecret.length}.`);
+    const credentials = vault?.get(strategy.id);
+    if (!credentials) {
+        log('SYSTEM', `CRITICAL: No exchange keys for agent ${strategy.id} in the credential vault. This agent will not be initialized.`);
+        return null;
+    }
 
-        initializedAgents.push(new Agent(strategy, apiKey, apiSecret));
-        log('SYSTEM', `Agent ${strategy.id} (${strategy.name}) initialized.`);
+    const client = new BybitClient(strategy.id, credentials.apiKey, credentials.apiSecret, streams);
+    const permissions = await checkKeyPermissions(client);
+    vault?.recordPermissionCheck(strategy.id, permissions);
+    if (permissions.problems.length > 0) {
+        log('SYSTEM', `CRITICAL: Exchange key for agent ${strategy.id} failed the permission check: ${permissions.problems.join(' ')} This agent will not be initialized.`);
+        return null;
+    }
+    if (!permissions.ipRestricted) {
+        log('SYSTEM', `WARNING: Exchange key for agent ${strategy.id} is not restricted to IP addresses.`);
+    }
+
+    liveClients.set(strategy.id, client);
+    log('SYSTEM', `Agent ${strategy.id} (${strategy.name}) initialized in LIVE trading mode with ${decisionProvider.name}.`);
+    return new Agent(strategy, client, {
+        riskManager,
+        decisionProvider,
+        tickerStream: streams,
+        accountStream: streams?.getAccountStream(strategy.id, credentials.apiKey, credentials.apiSecret),
+    });
+};
+
+// Restores persisted state and re-adopts any positions left open by a previous run.
+const recoverAgent = (agent: Agent) => {
+    agent.recover().catch(e => {
+        console.error(`Agent ${agent.getStatus().id} failed to recover its state:`, e instanceof Error ? e.message : String(e));
+    });
+};
+
+const initializeAgents = async () => {
+    log('SYSTEM', 'Initializing agents...');
+    const initializedAgents: Agent[] = [];
+
+    // One risk manager is shared by all agents so limits apply to the whole portfolio.
+    riskManager = new RiskManager(loadRiskLimits());
+    riskManager.seedFromTrades(getTodaysTrades());
+    log('SYSTEM', `Risk limits: ${JSON.stringify(riskManager.getLimits())}`);
+
+    // WebSocket streams are on unless STREAMS_ENABLED=false; BYBIT_WS_URL points them elsewhere, e.g. at the mock server.
+    streams = process.env.STREAMS_ENABLED?.trim().toLowerCase() === 'false'
+        ? undefined
+        : new StreamManager({ wsUrl: process.env.BYBIT_WS_URL?.trim() || undefined });
+    log('SYSTEM', streams ? 'Using WebSocket streams for tickers and account updates.' : 'WebSocket streams disabled. Agents poll over REST.');
+
+    vault = openVault();
+    if (vault) {
+        importEnvCredentials(vault);
+    }
+
+    const strategies = getStrategies();
+    let missingGeminiKey = false;
+    for (const strategy of strategies) {
+        const decisionProvider = buildDecisionProvider(strategy);
+        if (!decisionProvider) continue;
+        missingGeminiKey = missingGeminiKey || (decisionProvider instanceof GeminiDecisionProvider && !process.env.API_KEY);
+
+        const agent = await createAgent(strategy, decisionProvider);
+        if (agent) {
+            initializedAgents.push(agent);
+        }
+    }
+
+    if (missingGeminiKey) {
+        console.error("WARNING: Google Gemini API_KEY is not set in .env file. Agents using Gemini will not get decisions.");
+        log('SYSTEM', "WARNING: Google Gemini API_KEY is not set.");
     }
     
     agents = initializedAgents;
+    agents.forEach(recoverAgent);
 
     if (agents.length === 0) {
-        log('SYSTEM', 'CRITICAL: No agents were initialized. Please check your environment variables for BYBIT_API_KEY_ and BYBIT_API_SECRET_ for each agent (e.g., BYBIT_API_KEY_P1).');
+        log('SYSTEM', 'CRITICAL: No agents were initialized. Live agents need exchange keys in the credential vault (PUT /credentials/<agent id>).');
     } else {
         log('SYSTEM', `Initialization complete. ${agents.length} out of ${strategies.length} agents are ready.`);
     }
 };
 
 
-// API Endpoint to get status
-app.get('/status', async (req, res) => {
-    if (agents.length === 0 && strategies.length > 0) {
-         return res.json({
-            agents: [],
-            openPositions: [],
-            logs: getLogs(),
-            reports: [],
-        });
+// Authentication: dashboard users sign in for a session cookie; API clients send a Bearer token.
+app.post('/auth/login', audited('auth.login', req => `username ${String(req.body?.username)}`), (req, res) => {
+    const { username, password } = req.body ?? {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({ message: "'username' and 'password' are required." });
     }
-    
+    const user = login(req, res, username, password);
+    if (!user) {
+        return res.status(401).json({ message: 'Wrong username or password.' });
+    }
+    res.locals.principal = { ...user, actor: user.username };
+    log('SYSTEM', `User ${user.username} signed in (${user.role}).`);
+    res.json(user);
+});
+
+app.post('/auth/logout', (req, res) => {
+    logout(req, res);
+    res.json({ message: 'Signed out.' });
+});
+
+app.get('/auth/me', viewer, (req, res) => {
+    const { username, role } = getPrincipal(res)!;
+    res.json({ username, role });
+});
+
+app.get('/auth/users', admin, (req, res) => {
+    res.json(listUsers());
+});
+
+app.post('/auth/users', audited('auth.user.create', req => `${String(req.body?.username)} as ${String(req.body?.role)}`), admin, (req, res) => {
+    const { username, password, role } = req.body ?? {};
+    if (typeof username !== 'string' || typeof password !== 'string' || !isRole(role)) {
+        return res.status(400).json({ message: "'username', 'password' and 'role' (viewer, operator or admin) are required." });
+    }
+    const error = createUser(username, password, role);
+    if (error) {
+        return res.status(400).json({ message: error });
+    }
+    res.status(201).json({ username, role });
+});
+
+app.delete('/auth/users/:id', audited('auth.user.delete'), admin, (req, res) => {
+    if (req.params.id === getPrincipal(res)!.username) {
+        return res.status(400).json({ message: 'You cannot delete your own user.' });
+    }
+    if (!deleteUser(req.params.id)) {
+        return res.status(404).json({ message: `User ${req.params.id} not found.` });
+    }
+    res.json({ message: `User ${req.params.id} deleted.` });
+});
+
+app.get('/auth/tokens', admin, (req, res) => {
+    res.json(listApiTokens());
+});
+
+// The token is only ever returned here; store it right away.
+app.post('/auth/tokens', audited('auth.token.create', req => `${String(req.body?.name)} as ${String(req.body?.role)}`), admin, (req, res) => {
+    const { name, role } = req.body ?? {};
+    if (typeof name !== 'string' || !name.trim() || !isRole(role)) {
+        return res.status(400).json({ message: "'name' and 'role' (viewer, operator or admin) are required." });
+    }
+    const { token, info } = createApiToken(name.trim(), role, getPrincipal(res)!.actor);
+    res.status(201).json({ token, ...info });
+});
+
+app.delete('/auth/tokens/:id', audited('auth.token.revoke'), admin, (req, res) => {
+    if (!revokeApiToken(req.params.id)) {
+        return res.status(404).json({ message: `Token ${req.params.id} not found.` });
+    }
+    res.json({ message: `Token ${req.params.id} revoked.` });
+});
+
+app.get('/risk-limits', viewer, (req, res) => {
+    res.json(riskManager.getLimits());
+});
+
+// Partial updates are merged into the current limits and persisted over the RISK_* variables.
+app.put('/risk-limits', audited('risk.limits.update', req => JSON.stringify(req.body)), admin, (req, res) => {
+    const result = mergeRiskLimits(riskManager.getLimits(), req.body);
+    if (result.status === 'rejected') {
+        return res.status(400).json({ message: result.reason });
+    }
+    riskManager.setLimits(result.limits);
+    saveRiskLimits(result.limits);
+    log('SYSTEM', `Risk limits updated by ${getPrincipal(res)!.actor}: ${JSON.stringify(result.limits)}`);
+    res.json(result.limits);
+});
+
+// Express 4 leaves a rejected async handler unhandled, which crashes the worker with the request
+// still open; this answers 500 with the error instead.
+const catchErrors = (handler: (req: express.Request, res: express.Response) => Promise<unknown>): express.RequestHandler => async (req, res) => {
+    try {
+        await handler(req, res);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        log('SYSTEM', `ERROR: ${req.method} ${req.path} failed: ${message}`);
+        if (!res.headersSent) {
+            res.status(500).json({ message });
+        }
+    }
+};
+
+// Exchange credentials. Secrets go into the vault and are never returned, logged or audited.
+const requireVault: express.RequestHandler = (req, res, next) => {
+    if (!vault) {
+        return res.status(503).json({ message: 'The credential vault is locked. Set VAULT_MASTER_KEY and restart the worker.' });
+    }
+    next();
+};
+
+// Starts the agent for a strategy that has none yet, e.g. once its keys were added.
+const loadAgent = async (strategy: Strategy) => {
+    const decisionProvider = buildDecisionProvider(strategy);
+    const agent = decisionProvider && await createAgent(strategy, decisionProvider);
+    if (!agent) return;
+    agents = [...agents, agent];
+    recoverAgent(agent);
+    publishDashboardEvent({ type: 'snapshot', status: buildStatus() });
+};
+
+// Takes an agent out of service; the caller has stopped it.
+const removeAgent = (agent: Agent) => {
+    const id = agent.getStatus().id;
+    agent.setAccountStream(undefined);
+    agents = agents.filter(a => a !== agent);
+    liveClients.delete(id);
+    publishDashboardEvent({ type: 'snapshot', status: buildStatus() });
+};
+
+app.get('/credentials', admin, requireVault, (req, res) => {
+    res.json(vault!.list());
+});
+
+// Adds or rotates an agent's keys. A new key is only stored once it passes the permission check;
+// a running agent switches to it without a restart, and an agent that had no keys is started up.
+app.put('/credentials/:id', audited('credentials.set'), admin, requireVault, catchErrors(async (req, res) => {
+    const strategy = getStrategy(req.params.id);
+    if (!strategy) {
+        return res.status(404).json({ message: `No strategy with ID ${req.params.id}.` });
+    }
+    const { apiKey, apiSecret } = req.body ?? {};
+    if (typeof apiKey !== 'string' || !apiKey.trim() || typeof apiSecret !== 'string' || !apiSecret.trim()) {
+        return res.status(400).json({ message: "'apiKey' and 'apiSecret' are required." });
+    }
+    const credentials = { apiKey: apiKey.trim(), apiSecret: apiSecret.trim() };
+
+    const permissions = await checkKeyPermissions(new BybitClient(strategy.id, credentials.apiKey, credentials.apiSecret));
+    if (permissions.problems.length > 0) {
+        return res.status(400).json({ message: `The key failed the permission check: ${permissions.problems.join(' ')}`, permissions });
+    }
+
+    const actor = getPrincipal(res)!.actor;
+    const rotated = vault!.getInfo(strategy.id) !== null;
+    const info = vault!.set(strategy.id, credentials, actor, permissions);
+    log('SYSTEM', `${rotated ? 'Rotated' : 'Added'} exchange keys for agent ${strategy.id} (key ${info.keyHint}) by ${actor}.`);
+
+    const agent = agents.find(a => a.getStatus().id === strategy.id);
+    const client = liveClients.get(strategy.id);
+    if (agent && client) {
+        client.setCredentials(credentials.apiKey, credentials.apiSecret);
+        agent.setAccountStream(streams?.getAccountStream(strategy.id, credentials.apiKey, credentials.apiSecret));
+        log(strategy.id, `Switched to exchange key ${info.keyHint}.`);
+    } else if (!agent) {
+        await loadAgent(strategy);
+    }
+    res.status(rotated ? 200 : 201).json(info);
+}));
+
+// Re-runs the permission check on the stored key, and starts the agent up if it now passes.
+app.post('/credentials/:id/check', audited('credentials.check'), admin, requireVault, catchErrors(async (req, res) => {
+    const strategy = getStrategy(req.params.id);
+    const credentials = vault!.get(req.params.id);
+    if (!strategy || !credentials) {
+        return res.status(404).json({ message: `No exchange keys stored for agent ${req.params.id}.` });
+    }
+    const permissions = await checkKeyPermissions(new BybitClient(strategy.id, credentials.apiKey, credentials.apiSecret));
+    vault!.recordPermissionCheck(strategy.id, permissions);
+    if (permissions.problems.length === 0 && !agents.some(a => a.getStatus().id === strategy.id)) {
+        await loadAgent(strategy);
+    }
+    res.json(permissions);
+}));
+
+// Deletes an agent's keys. A live agent using them is stopped and removed; any open position stays open.
+app.delete('/credentials/:id', audited('credentials.revoke'), admin, requireVault, (req, res) => {
+    if (!vault!.remove(req.params.id)) {
+        return res.status(404).json({ message: `No exchange keys stored for agent ${req.params.id}.` });
+    }
+    const agent = liveClients.has(req.params.id) ? agents.find(a => a.getStatus().id === req.params.id) : undefined;
+    let warning = '';
+    if (agent) {
+        if (agent.openPosition) {
+            warning = ` WARNING: its ${agent.openPosition.symbol} position is still open and no longer monitored.`;
+        }
+        agent.stop();
+        removeAgent(agent);
+    }
+    const message = `Exchange keys for agent ${req.params.id} revoked.${agent ? ' The agent was stopped and removed.' : ''}${warning}`;
+    log('SYSTEM', `${message} (by ${getPrincipal(res)!.actor})`);
+    res.json({ message });
+});
+
+// Strategies are versioned: every save adds a version, and running agents pick it up at their
+// next ANALYZING cycle.
+app.get('/strategies', viewer, (req, res) => {
+    res.json(listStrategyRecords(req.query.includeDeleted === 'true'));
+});
+
+app.get('/strategies/:id', viewer, (req, res) => {
+    const record = getStrategyRecord(req.params.id);
+    if (!record) {
+        return res.status(404).json({ message: `No strategy with ID ${req.params.id}.` });
+    }
+    res.json(record);
+});
+
+// Creates a strategy and its agent, which starts out stopped.
+app.post('/strategies', audited('strategy.create', req => String(req.body?.id)), admin, catchErrors(async (req, res) => {
+    if (typeof req.body?.id === 'string' && getStrategy(req.body.id)) {
+        return res.status(409).json({ message: `Strategy ${req.body.id} already exists. Edit it with PUT /strategies/${req.body.id}.` });
+    }
+    const actor = getPrincipal(res)!.actor;
+    const result = saveStrategy(req.body, actor);
+    if (result.status === 'rejected') {
+        return res.status(400).json({ message: result.reason });
+    }
+    log('SYSTEM', `Strategy ${result.record.id} v${result.version.version} created by ${actor}.`);
+    if (!agents.some(a => a.getStatus().id === result.record.id)) {
+        await loadAgent(result.version.strategy);
+    }
+    res.status(201).json(result.record);
+}));
+
+app.put('/strategies/:id', audited('strategy.update'), admin, (req, res) => {
+    if (!getStrategy(req.params.id)) {
+        return res.status(404).json({ message: `No strategy with ID ${req.params.id}.` });
+    }
+    if (req.body?.id !== undefined && req.body.id !== req.params.id) {
+        return res.status(400).json({ message: 'A strategy ID cannot be changed. Create a new strategy instead.' });
+    }
+    const actor = getPrincipal(res)!.actor;
+    const previousVersion = getStrategyRecord(req.params.id)!.versions.length;
+    const result = saveStrategy({ ...req.body, id: req.params.id }, actor);
+    if (result.status === 'rejected') {
+        return res.status(400).json({ message: result.reason });
+    }
+    if (result.version.version > previousVersion) {
+        log('SYSTEM', `Strategy ${req.params.id} v${result.version.version} saved by ${actor}.`);
+        agents.find(a => a.getStatus().id === req.params.id)?.updateStrategy(result.version.strategy, result.version.version);
+    }
+    res.json(result.record);
+});
+
+// Only a stopped agent with nothing open can lose its strategy; its history is kept.
+app.delete('/strategies/:id', audited('strategy.delete'), admin, (req, res) => {
+    if (!getStrategy(req.params.id)) {
+        return res.status(404).json({ message: `No strategy with ID ${req.params.id}.` });
+    }
+    const agent = agents.find(a => a.getStatus().id === req.params.id);
+    if (agent && (agent.getStatus().state !== AgentState.STOPPED || !agent.isFlat())) {
+        return res.status(409).json({ message: `Stop agent ${req.params.id} and close its position or entry order before deleting its strategy.` });
+    }
+    const actor = getPrincipal(res)!.actor;
+    deleteStrategy(req.params.id, actor);
+    if (agent) {
+        removeAgent(agent);
+    }
+    log('SYSTEM', `Strategy ${req.params.id} deleted by ${actor}.`);
+    res.json({ message: `Strategy ${req.params.id} deleted.` });
+});
+
+const buildStatus = (): ApiStatusResponse => {
     const allPositions: Position[] = agents
       .map(a => a.openPosition)
       .filter((p): p is Position => p !== null);
 
-    res.json({
+    return {
         agents: agents.map(a => a.getStatus()),
         openPositions: allPositions,
         logs: getLogs(),
-        reports: [], // Historical reports are no longer mocked
+        reports: listReports(),
+        killSwitch: getKillSwitchStatus(),
+    };
+};
+
+// API Endpoint to get status
+app.get('/status', viewer, (req, res) => {
+    res.json(buildStatus());
+});
+
+const EVENTS_HEARTBEAT_INTERVAL = 15 * 1000;
+
+// Server-Sent Events stream of dashboard updates. A client resuming with ?since=<seq> is sent what
+// it missed; a new client, or one too far behind, starts from a snapshot of the full status.
+app.get('/events', viewer, (req, res) => {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Keep reverse proxies from holding events back
+    });
+    res.flushHeaders();
+
+    const send = (event: DashboardEvent) => res.write(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`);
+    const since = parseInt(String(req.query.since ?? ''), 10);
+    const missed = Number.isFinite(since) ? getEventsSince(since) : null;
+    if (missed) {
+        missed.forEach(send);
+    } else {
+        send({ type: 'snapshot', status: buildStatus(), seq: getLastSeq() });
+    }
+
+    const unsubscribe = subscribeDashboardEvents(send);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), EVENTS_HEARTBEAT_INTERVAL);
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
     });
 });
 
 // API Endpoint for live CSV report download
-app.get('/reports/today.csv', (req, res) => {
+app.get('/reports/today.csv', viewer, (req, res) => {
     log('SYSTEM', 'Generating live trade report...');
     const csvData = getTodaysTradesAsCsv();
     res.header('Content-Type', 'text/csv');
-    const fileName = `trades-${new Date().toISOString().split('T')[0]}.csv`;
+    const fileName = `trades-${getTodayDate()}.csv`;
     res.attachment(fileName);
     res.send(csvData);
 });
 
+// API Endpoint for historical CSV reports, e.g. /reports/trades-2024-05-01.csv
+app.get('/reports/:reportName', viewer, (req, res) => {
+    const csvData = getReportCsv(req.params.reportName);
+    if (csvData === null) {
+        return res.status(404).json({ message: `Report ${req.params.reportName} not found.` });
+    }
+    res.header('Content-Type', 'text/csv');
+    res.attachment(req.params.reportName);
+    res.send(csvData);
+});
+
+// API Endpoint to query the trade ledger, e.g. /trades?agentId=P1&symbol=BTCUSDT&from=2024-05-01&to=2024-05-31
+const queryParam = (req: express.Request, name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+
+// Validates the optional from/to (YYYY-MM-DD) and limit query parameters shared by the history endpoints.
+const parseHistoryQuery = (req: express.Request): { from?: string; to?: string; limit?: number } | { error: string } => {
+    const from = queryParam(req, 'from');
+    const to = queryParam(req, 'to');
+    const isDate = (value?: string) => value === undefined || /^\d{4}-\d{2}-\d{2}$/.test(value);
+    if (!isDate(from) || !isDate(to)) {
+        return { error: "'from' and 'to' must be dates in YYYY-MM-DD format." };
+    }
+    const limitParam = queryParam(req, 'limit');
+    const limit = limitParam !== undefined ? parseInt(limitParam, 10) : undefined;
+    if (limit !== undefined && !(limit > 0)) {
+        return { error: "'limit' must be a positive integer." };
+    }
+    return { from, to, limit };
+};
+
+// Trades, newest first.
+app.get('/trades', viewer, (req, res) => {
+    const query = parseHistoryQuery(req);
+    if ('error' in query) {
+        return res.status(400).json({ message: query.error });
+    }
+    const trades = queryTrades({ agentId: queryParam(req, 'agentId'), symbol: queryParam(req, 'symbol'), from: query.from, to: query.to })
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    res.json(query.limit !== undefined ? trades.slice(0, query.limit) : trades);
+});
+
+// Decision audit trail, newest first. Filter by tradeId to see every decision behind one trade.
+app.get('/decisions', viewer, (req, res) => {
+    const query = parseHistoryQuery(req);
+    if ('error' in query) {
+        return res.status(400).json({ message: query.error });
+    }
+    res.json(queryDecisions({ agentId: queryParam(req, 'agentId'), tradeId: queryParam(req, 'tradeId'), ...query }));
+});
+
+app.get('/decisions/:id', viewer, (req, res) => {
+    const record = getDecision(req.params.id);
+    if (!record) {
+        return res.status(404).json({ message: `Decision ${req.params.id} not found.` });
+    }
+    res.json(record);
+});
+
+// Audit log of privileged requests, newest first.
+app.get('/audit', admin, (req, res) => {
+    const query = parseHistoryQuery(req);
+    if ('error' in query) {
+        return res.status(400).json({ message: query.error });
+    }
+    res.json(queryAudit({ actor: queryParam(req, 'actor'), ...query }));
+});
+
 // API Endpoint to start trading
-app.post('/start', (req, res) => {
-    if (hasStarted) {
-        return res.status(400).json({ message: "Trading has already started." });
+// Rejects commands that would open new positions while the kill switch is engaged.
+const requireArmed: express.RequestHandler = (req, res, next) => {
+    if (isKillSwitchEngaged()) {
+        return res.status(423).json({ message: "Kill switch is engaged. Trading is locked until it is re-armed." });
     }
+    next();
+};
+
+app.post('/start', audited('agents.start-all'), operator, requireArmed, (req, res) => {
     if (agents.length === 0) {
         return res.status(500).json({ message: "No agents are initialized to start. Check server logs for configuration errors." });
     }
+    const stoppedAgents = agents.filter(a => a.getStatus().state === AgentState.STOPPED);
+    if (stoppedAgents.length === 0) {
+        return res.status(400).json({ message: "All agents are already running." });
+    }
 
-    log('SYSTEM', 'Received command to start trading for all agents.');
-    hasStarted = true;
+    log('SYSTEM', `Received command to start trading for ${stoppedAgents.length} stopped agent(s).`);
     
     // Stagger the start of each agent
-    agents.forEach((agent, index) => {
+    stoppedAgents.forEach((agent, index) => {
         setTimeout(() => {
             // Use an async IIFE to handle the async start method
             (async () => {
@@ -113,11 +649,123 @@ app.post('/start', (req, res) => {
     res.status(200).json({ message: "Agents are starting their trading cycles." });
 });
 
+// Per-agent control endpoints
+type AgentCommand = (agent: Agent) => Promise<string> | string;
+
+const agentCommand = (command: AgentCommand): express.RequestHandler => async (req, res) => {
+    const agent = agents.find(a => a.getStatus().id === req.params.id);
+    if (!agent) {
+        return res.status(404).json({ message: `Agent ${req.params.id} not found.` });
+    }
+    try {
+        const message = await command(agent);
+        res.status(200).json({ message, agent: agent.getStatus() });
+    } catch (e) {
+        // Commands throw when the agent's current state does not allow them.
+        const message = e instanceof Error ? e.message : String(e);
+        log(req.params.id, `Command ${req.path} rejected: ${message}`);
+        res.status(409).json({ message, agent: agent.getStatus() });
+    }
+};
+
+app.post('/agents/:id/start', audited('agent.start'), operator, requireArmed, agentCommand(async agent => {
+    log('SYSTEM', `Received command to start agent ${agent.getStatus().id}.`);
+    await agent.start();
+    return `Agent ${agent.getStatus().id} started.`;
+}));
+
+app.post('/agents/:id/stop', audited('agent.stop'), operator, agentCommand(agent => {
+    log('SYSTEM', `Received command to stop agent ${agent.getStatus().id}.`);
+    agent.stop();
+    return `Agent ${agent.getStatus().id} stopped.`;
+}));
+
+app.post('/agents/:id/pause', audited('agent.pause'), operator, agentCommand(agent => {
+    log('SYSTEM', `Received command to pause agent ${agent.getStatus().id}.`);
+    agent.pause();
+    return agent.getStatus().pausePending
+        ? `Agent ${agent.getStatus().id} will pause once its current position is closed.`
+        : `Agent ${agent.getStatus().id} paused.`;
+}));
+
+app.post('/agents/:id/flatten', audited('agent.flatten'), operator, agentCommand(async agent => {
+    log('SYSTEM', `Received command to flatten agent ${agent.getStatus().id}.`);
+    await agent.flatten();
+    return `Close order sent for agent ${agent.getStatus().id}.`;
+}));
+
+app.post('/agents/:id/restart', audited('agent.restart'), operator, requireArmed, agentCommand(async agent => {
+    log('SYSTEM', `Received command to restart agent ${agent.getStatus().id}.`);
+    await agent.restart();
+    return `Agent ${agent.getStatus().id} restarted.`;
+}));
+
+// Emergency kill switch
+const EMERGENCY_FLATTEN_TIMEOUT = 60 * 1000;
+
+app.post('/emergency/flatten-all', audited('emergency.flatten-all', req => req.body?.reason), operator, async (req, res) => {
+    const reason = typeof req.body?.reason === 'string' && req.body.reason ? req.body.reason : 'Manual kill switch';
+    // Lock first so nothing can be (re)started while positions are being closed. A lock that cannot
+    // be saved still holds until the worker restarts, so flattening goes ahead and the failure is reported.
+    let killSwitchError: string | undefined;
+    try {
+        engageKillSwitch(reason);
+    } catch (error) {
+        killSwitchError = error instanceof Error ? error.message : 'Unknown error';
+        log('SYSTEM', `CRITICAL: The kill switch could not be saved (${killSwitchError}). Trading stays locked only until the worker restarts.`);
+    }
+    const killSwitch = getKillSwitchStatus();
+    publishDashboardEvent({ type: 'killSwitch', killSwitch });
+    log('SYSTEM', `EMERGENCY: Kill switch engaged (${reason}). Stopping all agents and flattening all positions.`);
+
+    try {
+        const results = await Promise.all(agents.map(agent => agent.emergencyFlatten(EMERGENCY_FLATTEN_TIMEOUT)));
+        const allFlat = results.every(r => r.stillOpen.length === 0);
+        log('SYSTEM', allFlat
+            ? 'EMERGENCY: All agents stopped and flat. Trading is locked until re-armed.'
+            : 'EMERGENCY: Some positions could not be confirmed closed. Check the exchange immediately.');
+
+        res.status(200).json({ allFlat, killSwitch, killSwitchError, results });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log('SYSTEM', `EMERGENCY: Flattening failed: ${errorMessage}. Check the exchange immediately.`);
+        res.status(500).json({ message: `Flattening failed: ${errorMessage}`, killSwitch, killSwitchError });
+    }
+});
+
+app.post('/emergency/rearm', audited('emergency.rearm'), operator, (req, res) => {
+    if (!isKillSwitchEngaged()) {
+        return res.status(400).json({ message: "Kill switch is not engaged." });
+    }
+    const killSwitch = rearmKillSwitch();
+    publishDashboardEvent({ type: 'killSwitch', killSwitch });
+    log('SYSTEM', 'Kill switch re-armed. Agents can be started again.');
+    res.status(200).json({ message: "Kill switch re-armed. Agents remain stopped until started.", killSwitch });
+});
+
+// Answers malformed JSON bodies without the default handler's stack trace, which quotes the
+// body and so could put submitted secrets into the worker's output.
+app.use((error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if ((error as { type?: string })?.type === 'entity.parse.failed') {
+        return res.status(400).json({ message: 'The request body is not valid JSON.' });
+    }
+    next(error);
+});
+
 app.listen(PORT, () => {
     console.log(`FlipEdge Worker is running on port ${PORT}`);
-    if (!process.env.API_KEY) {
-        console.error("WARNING: Google Gemini API_KEY is not set in .env file. AI features will fail.");
-        log('SYSTEM', "WARNING: Google Gemini API_KEY is not set.");
+    try {
+        log('SYSTEM', `Trade ledger timezone: ${getLedgerTimezone()} (today is ${getTodayDate()}).`);
+    } catch (error) {
+        console.error(`CRITICAL: Invalid LEDGER_TIMEZONE '${getLedgerTimezone()}'. Trades cannot be recorded.`);
+        log('SYSTEM', `CRITICAL: Invalid LEDGER_TIMEZONE '${getLedgerTimezone()}'.`);
     }
-    initializeAgents();
+    if (isKillSwitchEngaged()) {
+        log('SYSTEM', `WARNING: Kill switch is engaged since ${getKillSwitchStatus().engagedAt}. Trading is locked until re-armed.`);
+    }
+    bootstrapAdmin();
+    initializeAgents().catch(error => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log('SYSTEM', `CRITICAL: Agent initialization failed: ${errorMessage}`);
+    });
 });
\ No newline at end of file
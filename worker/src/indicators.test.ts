@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { atr, bollinger, ema, macd, rsi, sma, volumeZScore } from './indicators';
+import { Candle } from './types';
+
+const assertClose = (actual: number | null | undefined, expected: number, tolerance = 1e-9) =>
+    assert.ok(actual !== null && actual !== undefined && Math.abs(actual - expected) < tolerance, `expected ${expected}, got ${actual}`);
+
+const fromCloses = (closes: number[]): Candle[] =>
+    closes.map((close, i) => ({ timestamp: i * 60000, open: close, high: close, low: close, close, volume: 1 }));
+
+const fromBars = (bars: [high: number, low: number, close: number][]): Candle[] =>
+    bars.map(([high, low, close], i) => ({ timestamp: i * 60000, open: close, high, low, close, volume: 1 }));
+
+describe('sma and ema', () => {
+    it('averages the last period closes', () => {
+        assertClose(sma(fromCloses([1, 2, 3, 4, 5]), 3), 4);
+    });
+
+    it('seeds the ema with the sma of the first period', () => {
+        // Seed 2, then k = 0.5: 4 -> 3, 5 -> 4.
+        assertClose(ema(fromCloses([1, 2, 3, 4, 5]), 3), 4);
+        assertClose(ema(fromCloses([1, 2, 3]), 3), 2);
+    });
+
+    it('returns null without enough history', () => {
+        assert.equal(sma(fromCloses([1, 2]), 3), null);
+        assert.equal(ema(fromCloses([1, 2]), 3), null);
+    });
+});
+
+describe('rsi', () => {
+    it("matches StockCharts' 14-period worked example", () => {
+        // StockCharts rounds its averages to two decimals, so its table reads 70.53, 66.32, 66.55.
+        const closes = [44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28];
+        assertClose(rsi(fromCloses(closes)), 70.53, 0.1);
+        assertClose(rsi(fromCloses([...closes, 46.00])), 66.32, 0.1);
+        assertClose(rsi(fromCloses([...closes, 46.00, 46.03])), 66.55, 0.1);
+    });
+
+    it("smooths later changes with Wilder's method", () => {
+        // Changes +1 -1 +2 seed gain 1 and loss 1/3; +1 then gives gain 1 and loss 2/9.
+        assertClose(rsi(fromCloses([10, 11, 10, 12, 13]), 3), 100 - 100 / (1 + 4.5));
+    });
+
+    it('handles one-way and flat markets', () => {
+        assert.equal(rsi(fromCloses([1, 2, 3, 4, 5]), 3), 100);
+        assert.equal(rsi(fromCloses([5, 4, 3, 2, 1]), 3), 0);
+        assert.equal(rsi(fromCloses([3, 3, 3, 3]), 3), 50);
+    });
+
+    it('needs period + 1 closes', () => {
+        assert.equal(rsi(fromCloses([1, 2, 3]), 3), null);
+    });
+});
+
+describe('atr', () => {
+    it('averages true ranges, counting gaps from the previous close', () => {
+        // True ranges 3, 2, 4 seed 3; the next range of 1 gives (3 * 2 + 1) / 3.
+        const candles = fromBars([[10, 10, 10], [12, 9, 11], [13, 11, 12], [12, 8, 9], [10, 9, 10]]);
+        assertClose(atr(candles, 3), 7 / 3);
+        // A gap up from 10 to a 19-20 bar is a true range of 10, not 1.
+        assertClose(atr(fromBars([[10, 10, 10], [20, 19, 20]]), 1), 10);
+    });
+
+    it('needs period + 1 candles', () => {
+        assert.equal(atr(fromBars([[10, 9, 10], [11, 10, 11]]), 2), null);
+    });
+});
+
+describe('bollinger', () => {
+    it('uses the population standard deviation of the last period closes', () => {
+        // Mean 5, standard deviation 2.
+        const bands = bollinger(fromCloses([2, 4, 4, 4, 5, 5, 7, 9]), 8, 2);
+        assert.ok(bands);
+        assertClose(bands.middle, 5);
+        assertClose(bands.upper, 9);
+        assertClose(bands.lower, 1);
+        assertClose(bands.bandwidth, 160);
+    });
+});
+
+describe('macd', () => {
+    it('subtracts the slow ema from the aligned fast one and smooths the difference', () => {
+        // Reference values computed independently from the textbook EMA definition.
+        const result = macd(fromCloses([1, 2, 4, 8, 16, 32, 30, 27]), 2, 3, 2);
+        assert.ok(result);
+        assertClose(result.macd, 1.1880572702331982, 1e-9);
+        assertClose(result.signal, 1.8199874256973037, 1e-9);
+        assertClose(result.histogram, result.macd - result.signal);
+    });
+
+    it('is flat on a straight line once the emas settle', () => {
+        // On a linear series each ema lags by a constant, so the signal equals the macd line.
+        const result = macd(fromCloses(Array.from({ length: 60 }, (_, i) => 100 + i)));
+        assert.ok(result);
+        assertClose(result.histogram, 0, 1e-6);
+    });
+
+    it('needs slow + signal - 1 closes', () => {
+        assert.equal(macd(fromCloses([1, 2, 3]), 2, 3, 2), null);
+        assert.ok(macd(fromCloses([1, 2, 3, 4]), 2, 3, 2));
+    });
+});
+
+describe('volumeZScore', () => {
+    it('scores the last volume against the period before it', () => {
+        const candles = [2, 4, 4, 4, 5, 5, 7, 9, 9].map((volume, i) => ({ ...fromCloses([1])[0], timestamp: i, volume }));
+        assertClose(volumeZScore(candles, 8), 2);
+    });
+
+    it('is 0 when the baseline volume never changes', () => {
+        assert.equal(volumeZScore(fromCloses([1, 1, 1, 1]), 3), 0);
+    });
+});
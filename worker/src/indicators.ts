@@ -0,0 +1,112 @@
+import { Candle } from './types';
+
+// Technical indicators over closed candles (oldest first). Each returns the value at the last
+// candle, or null if there is not enough history to compute it.
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+    const avg = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+};
+
+// Exponential moving average of every point from index `period - 1` on, seeded with the SMA.
+const emaSeries = (values: number[], period: number): number[] => {
+    if (values.length < period) return [];
+    const k = 2 / (period + 1);
+    const series = [mean(values.slice(0, period))];
+    for (const value of values.slice(period)) {
+        series.push(value * k + series[series.length - 1] * (1 - k));
+    }
+    return series;
+};
+
+export const sma = (candles: Candle[], period: number): number | null => {
+    if (candles.length < period) return null;
+    return mean(candles.slice(-period).map(c => c.close));
+};
+
+export const ema = (candles: Candle[], period: number): number | null => {
+    const series = emaSeries(candles.map(c => c.close), period);
+    return series.length > 0 ? series[series.length - 1] : null;
+};
+
+// Relative Strength Index with Wilder's smoothing.
+export const rsi = (candles: Candle[], period = 14): number | null => {
+    if (candles.length < period + 1) return null;
+
+    const changes = candles.slice(1).map((c, i) => c.close - candles[i].close);
+    let avgGain = mean(changes.slice(0, period).map(c => Math.max(c, 0)));
+    let avgLoss = mean(changes.slice(0, period).map(c => Math.max(-c, 0)));
+    for (const change of changes.slice(period)) {
+        avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+        avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    }
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+};
+
+export interface BollingerBands {
+    middle: number;
+    upper: number;
+    lower: number;
+    bandwidth: number; // (upper - lower) / middle, as a percentage
+}
+
+export const bollinger = (candles: Candle[], period = 20, multiplier = 2): BollingerBands | null => {
+    if (candles.length < period) return null;
+    const closes = candles.slice(-period).map(c => c.close);
+    const middle = mean(closes);
+    const deviation = stdDev(closes) * multiplier;
+    return {
+        middle,
+        upper: middle + deviation,
+        lower: middle - deviation,
+        bandwidth: middle !== 0 ? ((2 * deviation) / middle) * 100 : 0,
+    };
+};
+
+// Average True Range with Wilder's smoothing.
+export const atr = (candles: Candle[], period = 14): number | null => {
+    if (candles.length < period + 1) return null;
+
+    const trueRanges = candles.slice(1).map((c, i) => {
+        const prevClose = candles[i].close;
+        return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+    });
+
+    let value = trueRanges.slice(0, period).reduce((sum, tr) => sum + tr, 0) / period;
+    for (const tr of trueRanges.slice(period)) {
+        value = (value * (period - 1) + tr) / period;
+    }
+    return value;
+};
+
+export interface Macd {
+    macd: number;
+    signal: number;
+    histogram: number;
+}
+
+export const macd = (candles: Candle[], fast = 12, slow = 26, signal = 9): Macd | null => {
+    const closes = candles.map(c => c.close);
+    const slowSeries = emaSeries(closes, slow);
+    // Align the fast EMA with the slow one, which starts `slow - fast` points later.
+    const fastSeries = emaSeries(closes, fast).slice(slow - fast);
+    const macdSeries = slowSeries.map((s, i) => fastSeries[i] - s);
+    const signalSeries = emaSeries(macdSeries, signal);
+    if (signalSeries.length === 0) return null;
+
+    const macdValue = macdSeries[macdSeries.length - 1];
+    const signalValue = signalSeries[signalSeries.length - 1];
+    return { macd: macdValue, signal: signalValue, histogram: macdValue - signalValue };
+};
+
+// How unusual the last candle's volume is versus the `period` candles before it.
+export const volumeZScore = (candles: Candle[], period = 20): number | null => {
+    if (candles.length < period + 1) return null;
+    const baseline = candles.slice(-period - 1, -1).map(c => c.volume);
+    const deviation = stdDev(baseline);
+    if (deviation === 0) return 0;
+    return (candles[candles.length - 1].volume - mean(baseline)) / deviation;
+};
@@ -0,0 +1,32 @@
+import path from 'path';
+import { KillSwitchStatus } from './types';
+import { getDataDir, readJson, writeJsonAtomic } from './storage';
+
+// The kill switch is persisted so that a worker restart cannot silently unlock trading.
+const getKillSwitchFile = () => path.join(getDataDir(), 'kill-switch.json');
+
+const DISENGAGED: KillSwitchStatus = { engaged: false };
+
+let status: KillSwitchStatus | null = null;
+
+export const getKillSwitchStatus = (): KillSwitchStatus => {
+    if (!status) {
+        status = readJson<KillSwitchStatus>(getKillSwitchFile()) ?? DISENGAGED;
+    }
+    return status;
+};
+
+export const isKillSwitchEngaged = () => getKillSwitchStatus().engaged;
+
+// The lock applies in memory before it is saved, so it holds for this process even if saving throws.
+export const engageKillSwitch = (reason: string) => {
+    status = { engaged: true, engagedAt: new Date().toISOString(), reason };
+    writeJsonAtomic(getKillSwitchFile(), status);
+    return status;
+};
+
+export const rearmKillSwitch = () => {
+    status = DISENGAGED;
+    writeJsonAtomic(getKillSwitchFile(), status);
+    return status;
+};
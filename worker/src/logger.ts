@@ -1,5 +1,6 @@
 
 import { LogEntry } from './types';
+import { publishDashboardEvent } from './dashboardEvents';
 
 const MAX_LOG_ENTRIES = 50;
 const logs: LogEntry[] = [];
@@ -8,10 +9,12 @@ export const log = (agentId: string, message: string) => {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] [${agentId}] ${message}`);
   
-  logs.unshift({ timestamp, agentId, message });
+  const entry = { timestamp, agentId, message };
+  logs.unshift(entry);
   if (logs.length > MAX_LOG_ENTRIES) {
     logs.pop();
   }
+  publishDashboardEvent({ type: 'log', entry });
 };
 
 export const getLogs = (): LogEntry[] => {
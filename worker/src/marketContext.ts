@@ -0,0 +1,98 @@
+import { intervalLabel } from './candles';
+import { MarketDataSource } from './exchange';
+import { atr, bollinger, ema, macd, rsi, sma, volumeZScore } from './indicators';
+import { log } from './logger';
+import { Candle, IndicatorConfig, TimeframeContext } from './types';
+
+const MAX_CANDLES = 1000; // Bybit's kline page size
+
+// Candles needed for a stable value; smoothed indicators get a few periods of warm-up.
+const requiredCandles = (config: IndicatorConfig): number => {
+    switch (config.type) {
+        case 'rsi': return (config.period ?? 14) * 5 + 1;
+        case 'sma': return config.period;
+        case 'ema': return config.period * 2;
+        case 'bollinger': return config.period ?? 20;
+        case 'atr': return (config.period ?? 14) * 3 + 1;
+        case 'macd': return (config.slow ?? 26) * 3 + (config.signal ?? 9);
+        case 'volumeZScore': return (config.period ?? 20) + 1;
+    }
+};
+
+const format = (value: number) => Number(value.toPrecision(6)).toString();
+
+const describe = (config: IndicatorConfig, candles: Candle[]): string => {
+    const na = 'n/a';
+    switch (config.type) {
+        case 'rsi': {
+            const value = rsi(candles, config.period);
+            return `RSI(${config.period ?? 14}): ${value === null ? na : value.toFixed(1)}`;
+        }
+        case 'sma': {
+            const value = sma(candles, config.period);
+            return `SMA(${config.period}): ${value === null ? na : format(value)}`;
+        }
+        case 'ema': {
+            const value = ema(candles, config.period);
+            return `EMA(${config.period}): ${value === null ? na : format(value)}`;
+        }
+        case 'bollinger': {
+            const bands = bollinger(candles, config.period, config.multiplier);
+            const label = `BB(${config.period ?? 20},${config.multiplier ?? 2})`;
+            return bands === null
+                ? `${label}: ${na}`
+                : `${label}: lower ${format(bands.lower)}, mid ${format(bands.middle)}, upper ${format(bands.upper)}, width ${bands.bandwidth.toFixed(2)}%`;
+        }
+        case 'atr': {
+            const value = atr(candles, config.period);
+            return `ATR(${config.period ?? 14}): ${value === null ? na : format(value)}`;
+        }
+        case 'macd': {
+            const value = macd(candles, config.fast, config.slow, config.signal);
+            const label = `MACD(${config.fast ?? 12},${config.slow ?? 26},${config.signal ?? 9})`;
+            return value === null
+                ? `${label}: ${na}`
+                : `${label}: ${format(value.macd)}, signal ${format(value.signal)}, hist ${format(value.histogram)}`;
+        }
+        case 'volumeZScore': {
+            const value = volumeZScore(candles, config.period);
+            return `Volume z(${config.period ?? 20}): ${value === null ? na : value.toFixed(2)}`;
+        }
+    }
+};
+
+// One line per timeframe, e.g. "  [1h] close 64210, RSI(14): 28.4, EMA(200): 61532".
+const describeTimeframe = (timeframe: TimeframeContext, candles: Candle[]): string => {
+    const last = candles[candles.length - 1];
+    const parts = [`close ${last ? format(last.close) : 'n/a'}`, ...timeframe.indicators.map(config => describe(config, candles))];
+    return `  [${intervalLabel(timeframe.interval)}] ${parts.join(', ')}`;
+};
+
+/**
+ * Builds the market context sent to the model: the ticker summary from the data source and,
+ * when the strategy declares timeframes, one indented indicator line per timeframe under each
+ * symbol. A symbol whose candles cannot be fetched keeps its ticker line.
+ */
+export const buildMarketContext = async (agentId: string, source: MarketDataSource, timeframes: TimeframeContext[] = []): Promise<string> => {
+    const tickers = await source.getMarketData();
+    if (timeframes.length === 0) return tickers;
+
+    const lines: string[] = [];
+    for (const line of tickers.split('\n')) {
+        lines.push(line);
+        const symbol = line.split(',')[0].trim();
+        if (!symbol) continue;
+
+        for (const timeframe of timeframes) {
+            const limit = Math.min(Math.max(...timeframe.indicators.map(requiredCandles), 1), MAX_CANDLES);
+            try {
+                const candles = await source.getCandles(symbol, timeframe.interval, limit);
+                lines.push(describeTimeframe(timeframe, candles));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                log(agentId, `Could not compute ${intervalLabel(timeframe.interval)} indicators for ${symbol}: ${errorMessage}`);
+            }
+        }
+    }
+    return lines.join('\n');
+};
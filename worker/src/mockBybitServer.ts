@@ -0,0 +1,130 @@
+import readline from 'readline';
+import { WebSocket, WebSocketServer } from 'ws';
+
+/**
+ * A stand-in for Bybit's V5 WebSocket endpoints, so streams can be exercised offline. It speaks
+ * enough of the protocol for the SDK's client: ping/pong, auth (any key is accepted) and
+ * subscribe/unsubscribe. Public and private topics are served from the same URL, so point
+ * BYBIT_WS_URL at it and publish whatever updates a test needs.
+ *
+ * Run standalone with `npm run mock-ws`: it random-walks tickers for MOCK_SYMBOLS and publishes
+ * each JSON line read from stdin, e.g. {"topic":"execution","data":[{...}]}.
+ */
+export class MockBybitServer {
+    private server: WebSocketServer;
+    private subscriptions = new Map<WebSocket, Set<string>>();
+    private apiKeys = new Map<WebSocket, string>(); // The key each private connection authenticated with
+
+    constructor(port: number) {
+        this.server = new WebSocketServer({ port });
+        this.server.on('connection', socket => {
+            this.subscriptions.set(socket, new Set());
+            socket.on('message', raw => this.onMessage(socket, raw.toString()));
+            socket.on('close', () => {
+                this.subscriptions.delete(socket);
+                this.apiKeys.delete(socket);
+            });
+        });
+    }
+
+    get url() {
+        const address = this.server.address();
+        return `ws://localhost:${typeof address === 'object' && address ? address.port : ''}`;
+    }
+
+    // Sends an update to every connection subscribed to the topic; with apiKey, only to that account's.
+    publish(topic: string, data: unknown, type: 'snapshot' | 'delta' = 'snapshot', apiKey?: string) {
+        const message = JSON.stringify({ topic, type, ts: Date.now(), data });
+        for (const [socket, topics] of this.subscriptions) {
+            if (topics.has(topic) && socket.readyState === WebSocket.OPEN && (apiKey === undefined || this.apiKeys.get(socket) === apiKey)) {
+                socket.send(message);
+            }
+        }
+    }
+
+    publishTicker(symbol: string, fields: Record<string, string>, type: 'snapshot' | 'delta' = 'snapshot') {
+        this.publish(`tickers.${symbol}`, { symbol, ...fields }, type);
+    }
+
+    // Connections currently subscribed to the topic.
+    countSubscribers(topic: string): number {
+        return [...this.subscriptions.values()].filter(topics => topics.has(topic)).length;
+    }
+
+    // Drops every connection, as a network failure would; clients are expected to reconnect.
+    dropConnections() {
+        for (const socket of this.subscriptions.keys()) {
+            socket.terminate();
+        }
+    }
+
+    close(): Promise<void> {
+        this.dropConnections();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    private onMessage(socket: WebSocket, raw: string) {
+        let request: { op?: string; args?: unknown[]; req_id?: string };
+        try {
+            request = JSON.parse(raw);
+        } catch {
+            return;
+        }
+        const reply = (fields: object) => socket.send(JSON.stringify({ success: true, ret_msg: '', conn_id: 'mock', req_id: request.req_id, ...fields }));
+        const topics = (request.args ?? []).filter((arg): arg is string => typeof arg === 'string');
+
+        switch (request.op) {
+            case 'ping':
+                reply({ op: 'pong', ret_msg: 'pong' });
+                break;
+            case 'auth':
+                if (typeof request.args?.[0] === 'string') {
+                    this.apiKeys.set(socket, request.args[0]);
+                }
+                reply({ op: 'auth' });
+                break;
+            case 'subscribe':
+                topics.forEach(topic => this.subscriptions.get(socket)?.add(topic));
+                reply({ op: 'subscribe' });
+                break;
+            case 'unsubscribe':
+                topics.forEach(topic => this.subscriptions.get(socket)?.delete(topic));
+                reply({ op: 'unsubscribe' });
+                break;
+        }
+    }
+}
+
+if (require.main === module) {
+    const port = parseInt(process.env.MOCK_WS_PORT || '8090', 10);
+    const symbols = (process.env.MOCK_SYMBOLS || 'BTCUSDT,ETHUSDT').split(',').map(s => s.trim()).filter(Boolean);
+    const server = new MockBybitServer(port);
+    const prices = new Map(symbols.map(symbol => [symbol, 100]));
+
+    setInterval(() => {
+        for (const symbol of symbols) {
+            const price = prices.get(symbol)! * (1 + (Math.random() - 0.5) * 0.002);
+            prices.set(symbol, price);
+            server.publishTicker(symbol, {
+                lastPrice: price.toFixed(4),
+                bid1Price: (price * 0.9999).toFixed(4),
+                ask1Price: (price * 1.0001).toFixed(4),
+                markPrice: price.toFixed(4),
+                price24hPcnt: '0',
+                volume24h: '0',
+                turnover24h: '0',
+            });
+        }
+    }, 1000);
+
+    readline.createInterface({ input: process.stdin }).on('line', line => {
+        try {
+            const { topic, data, type } = JSON.parse(line);
+            server.publish(topic, data, type);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`Ignoring line: ${errorMessage}`);
+        }
+    });
+    console.log(`Mock Bybit WebSocket server listening on ${server.url} (tickers: ${symbols.join(', ')})`);
+}
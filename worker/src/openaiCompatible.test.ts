@@ -0,0 +1,73 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { runBacktest } from './backtest/engine';
+import { OpenAiCompatibleDecisionProvider } from './openaiCompatible';
+import { OrderSide, Position, StrategyType } from './types';
+
+const PROSE = 'Sure! I would go long BTCUSDT here, since momentum is strong.';
+
+// Answers each chat completion request with the next of the given message contents.
+const serveAnswers = (...answers: string[]) => mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify({
+    choices: [{ message: { content: answers.shift() } }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+})));
+
+const position: Position = {
+    symbol: 'BTCUSDT',
+    side: OrderSide.LONG,
+    entryPrice: 100,
+    size: 1,
+    unrealizedPnl: 2,
+    agentId: 'P1',
+    entryTimestamp: 0,
+    tradeId: '3f2a9c41-d0b7-4e11-9a8b-5c6d7e8f9a0b',
+};
+
+describe('OpenAiCompatibleDecisionProvider', () => {
+    afterEach(() => mock.restoreAll());
+
+    const provider = new OpenAiCompatibleDecisionProvider({ model: 'test-model', baseUrl: 'http://localhost:1/v1' });
+
+    it('keeps a trade answer that cannot be parsed, with its token usage', async () => {
+        serveAnswers(PROSE);
+        const response = await provider.getTradeDecision('Test strategy.', 'BTCUSDT, Price: 100', [OrderSide.LONG]);
+        assert.equal(response.decision, null);
+        assert.equal(response.rawResponse, PROSE);
+        assert.equal(response.usage?.totalTokens, 15);
+        assert.equal(response.error, 'Invalid JSON structure');
+    });
+
+    it('keeps a hold answer that cannot be parsed', async () => {
+        serveAnswers(PROSE);
+        const response = await provider.getHoldDecision('Test strategy.', position, 'BTCUSDT, Price: 102');
+        assert.equal(response.decision, null);
+        assert.equal(response.rawResponse, PROSE);
+    });
+
+    it('has no answer to keep when the request fails', async () => {
+        mock.method(globalThis, 'fetch', async () => new Response('overloaded', { status: 503 }));
+        const response = await provider.getTradeDecision('Test strategy.', 'BTCUSDT, Price: 100', [OrderSide.LONG]);
+        assert.equal(response.rawResponse, undefined);
+        assert.match(response.error ?? '', /HTTP 503/);
+    });
+
+    it('is asked again after answering in prose, and the agent trades on the repaired answer', async () => {
+        const repaired = JSON.stringify({ candidates: [{ symbol: 'BTCUSDT', side: 'LONG', entryType: 'market', stopLoss: 95, takeProfit: 110, reason: 'Breakout.', confidence: 'high' }] });
+        const fetchMock = serveAnswers(PROSE, repaired);
+        const result = await runBacktest({ id: 'P1', name: 'Test', type: StrategyType.PROFIT, prompt: 'Test strategy.' }, {
+            series: [{
+                symbol: 'BTCUSDT',
+                interval: 60 * 1000,
+                candles: [100, 100, 104, 111, 111, 111, 111].map((close, i) => ({ timestamp: i * 60 * 1000, open: close, high: close, low: close, close, volume: 1 })),
+            }],
+            createDecisionProvider: () => provider,
+            feeRate: 0,
+        });
+
+        const secondPrompt = JSON.parse(String(fetchMock.mock.calls[1].arguments[1]?.body)).messages[0].content;
+        assert.match(secondPrompt, /Your previous answer was rejected/);
+        assert.ok(secondPrompt.includes(`Previous answer: ${PROSE}`));
+        assert.equal(result.trades.length, 1);
+        assert.equal(result.trades[0].closePrice, 110);
+    });
+});
@@ -0,0 +1,137 @@
+import { log } from './logger';
+import { OrderSide, Position, TokenUsage } from './types';
+import { DecisionProvider, DecisionRepair, DecisionResponse, HoldDecision, TradeDecision } from './decisionProvider';
+import {
+    buildHoldPrompt,
+    buildTradePrompt,
+    HOLD_RESPONSE_FORMAT,
+    parseHoldDecision,
+    parseTradeDecision,
+    TRADE_RESPONSE_FORMAT,
+} from './decisionPrompts';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible endpoint
+const REQUEST_TIMEOUT = 60 * 1000;
+
+interface Completion {
+    text: string | null;
+    usage?: TokenUsage;
+}
+
+export interface OpenAiCompatibleOptions {
+    model?: string; // Defaults to OPENAI_MODEL
+    baseUrl?: string; // Defaults to OPENAI_BASE_URL, then a local Ollama server
+    apiKey?: string; // Defaults to OPENAI_API_KEY; local servers usually need none
+}
+
+/**
+ * Any server that implements the OpenAI chat completions API: OpenAI itself, or a local
+ * llama.cpp / Ollama / vLLM server. JSON mode is requested, and the expected shape is
+ * spelled out in the prompt since not every server supports schemas.
+ */
+export class OpenAiCompatibleDecisionProvider implements DecisionProvider {
+    readonly name: string;
+    private model: string;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(options: OpenAiCompatibleOptions = {}) {
+        const model = options.model || process.env.OPENAI_MODEL;
+        if (!model) {
+            throw new Error('The OpenAI-compatible provider needs a model (strategy decision.model or OPENAI_MODEL).');
+        }
+        this.model = model;
+        this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+        this.name = `openai:${this.model}`;
+    }
+
+    async getTradeDecision(prompt: string, marketContext: string, allowedSides: OrderSide[], repair?: DecisionRepair): Promise<DecisionResponse<TradeDecision>> {
+        const fullPrompt = `${buildTradePrompt(prompt, marketContext, allowedSides, repair)}\n${TRADE_RESPONSE_FORMAT}`;
+        // Kept once the model has answered, so an answer that fails to parse is still recorded.
+        let answer: Completion | undefined;
+        try {
+            answer = await this.complete(fullPrompt, 0.5);
+            const { text, usage } = answer;
+            if (!text) {
+                log('LLM', `Received empty response from ${this.name} for trade decision.`);
+                return { decision: null, prompt: fullPrompt, usage, error: 'Empty response' };
+            }
+
+            const decision = parseTradeDecision(text);
+            if (decision) {
+                return { decision, prompt: fullPrompt, rawResponse: text, usage };
+            }
+
+            log('LLM', `Invalid JSON structure in trade decision response: ${text}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: text, usage, error: 'Invalid JSON structure' };
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log('LLM_ERROR', `Error getting trade decision from ${this.name}: ${errorMessage}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: answer?.text ?? undefined, usage: answer?.usage, error: errorMessage };
+        }
+    }
+
+    async getHoldDecision(strategyPrompt: string, position: Position, marketContext: string): Promise<DecisionResponse<HoldDecision>> {
+        const fullPrompt = `${buildHoldPrompt(strategyPrompt, position, marketContext)}\n${HOLD_RESPONSE_FORMAT}`;
+        let answer: Completion | undefined;
+        try {
+            answer = await this.complete(fullPrompt, 0.2);
+            const { text, usage } = answer;
+            if (!text) {
+                log('LLM', `Received empty response from ${this.name} for hold decision.`);
+                return { decision: null, prompt: fullPrompt, usage, error: 'Empty response' };
+            }
+
+            const parsed = parseHoldDecision(text);
+            if (parsed) {
+                log(position.agentId, `${this.name} Hold/Close decision: ${parsed.decision}. Reason: ${parsed.reason}`);
+                return { decision: parsed.decision, prompt: fullPrompt, rawResponse: text, reason: parsed.reason, usage };
+            }
+
+            log('LLM', `Invalid JSON structure in hold decision response: ${text}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: text, usage, error: 'Invalid JSON structure' };
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            log('LLM_ERROR', `Error getting hold decision from ${this.name}: ${errorMessage}`);
+            return { decision: null, prompt: fullPrompt, rawResponse: answer?.text ?? undefined, usage: answer?.usage, error: errorMessage };
+        }
+    }
+
+    private async complete(prompt: string, temperature: number): Promise<Completion> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: { type: 'json_object' },
+                temperature,
+            }),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+        }
+
+        const body = await response.json() as {
+            choices?: { message?: { content?: string } }[];
+            usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+        };
+        return {
+            text: body.choices?.[0]?.message?.content ?? null,
+            usage: body.usage && {
+                promptTokens: body.usage.prompt_tokens,
+                completionTokens: body.usage.completion_tokens,
+                totalTokens: body.usage.total_tokens,
+            },
+        };
+    }
+}
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildOrderLinkId, getOrderRole } from './orderLinkId';
+
+const TRADE = '3f2a9c41-d0b7-4e11-9a8b-5c6d7e8f9a0b';
+
+describe('buildOrderLinkId', () => {
+    it('keeps short agent IDs as they are', () => {
+        assert.equal(buildOrderLinkId('P1', TRADE, 'entry', 0), 'P1_3f2a9c41d0b7_e0');
+    });
+
+    it('fits the longest agent IDs into what Bybit accepts', () => {
+        const agentId = 'a'.repeat(32);
+        const linkId = buildOrderLinkId(agentId, TRADE, 'scaleOut', 99);
+        assert.ok(linkId.length <= 36, linkId);
+        assert.match(linkId, /^[A-Za-z0-9_-]+$/);
+        assert.notEqual(linkId, buildOrderLinkId(`${'a'.repeat(31)}b`, TRADE, 'scaleOut', 99));
+    });
+});
+
+describe('getOrderRole', () => {
+    it('reads back the role of the trade its link ID was built for', () => {
+        assert.equal(getOrderRole(buildOrderLinkId('P1', TRADE, 'entry', 2), 'P1', TRADE), 'entry');
+        assert.equal(getOrderRole(buildOrderLinkId('P1', TRADE, 'scaleOut', 0), 'P1', TRADE), 'scaleOut');
+        assert.equal(getOrderRole(buildOrderLinkId('P1', TRADE, 'exit', 1), 'P1', TRADE), 'exit');
+    });
+
+    it('returns null for other agents, other trades and orders without a link ID', () => {
+        const linkId = buildOrderLinkId('P1', TRADE, 'exit', 0);
+        assert.equal(getOrderRole(linkId, 'P10', TRADE), null);
+        assert.equal(getOrderRole(linkId, 'P1', '00000000-0000-4000-8000-000000000000'), null);
+        assert.equal(getOrderRole('', 'P1', TRADE), null);
+        assert.equal(getOrderRole(undefined, 'P1', TRADE), null);
+    });
+});
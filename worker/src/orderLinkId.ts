@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+
+// Which step of a trade an order was placed for.
+export type OrderRole = 'entry' | 'scaleOut' | 'exit';
+
+const ROLE_CODES: Record<OrderRole, string> = { entry: 'e', scaleOut: 's', exit: 'x' };
+const MAX_AGENT_KEY_LENGTH = 18;
+const TRADE_KEY_LENGTH = 12;
+
+// Agent IDs run to 32 characters; longer than the budget, they keep a prefix and gain a short hash.
+const getAgentKey = (agentId: string) => agentId.length <= MAX_AGENT_KEY_LENGTH
+    ? agentId
+    : `${agentId.slice(0, 11)}-${createHash('sha256').update(agentId).digest('hex').slice(0, 6)}`;
+
+const getTradeKey = (tradeId: string) => tradeId.replace(/-/g, '').slice(0, TRADE_KEY_LENGTH);
+
+/**
+ * The orderLinkId of an order the agent places for one of its trades, as
+ * <agent>_<trade>_<role><n>, e.g. "P1_3f2a9c41d0b7_e0". Bybit allows 36 letters, digits, dashes
+ * and underscores, so the trade ID is cut to its first 12 hex digits. Bybit also refuses to
+ * reuse a link ID, so n numbers the orders of one role: replaced entries, scale-out legs and
+ * close attempts.
+ */
+export const buildOrderLinkId = (agentId: string, tradeId: string, role: OrderRole, n: number): string =>
+    `${getAgentKey(agentId)}_${getTradeKey(tradeId)}_${ROLE_CODES[role]}${n}`;
+
+// The role of an order placed for the given trade, or null for any other order: another
+// agent's or trade's, a manual one, or one the exchange created, such as a triggered TP/SL.
+export const getOrderRole = (orderLinkId: string | undefined, agentId: string, tradeId: string): OrderRole | null => {
+    const prefix = `${getAgentKey(agentId)}_${getTradeKey(tradeId)}_`;
+    if (!orderLinkId?.startsWith(prefix)) return null;
+    const code = orderLinkId.charAt(prefix.length);
+    return (Object.keys(ROLE_CODES) as OrderRole[]).find(role => ROLE_CODES[role] === code) ?? null;
+};
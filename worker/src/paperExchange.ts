@@ -0,0 +1,551 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { log } from './logger';
+import { getDataDir, readJson, writeJsonAtomic } from './storage';
+import { Clock, systemClock } from './clock';
+import { Candle, OrderSide } from './types';
+import { KlineInterval } from './candles';
+import {
+    ClosedPnlRecord,
+    ExchangeClient,
+    ExchangeError,
+    ExchangeExecution,
+    ExchangeInstrument,
+    ExchangeOrder,
+    ExchangePosition,
+    ExchangeTicker,
+    LimitOrderParams,
+    MarketDataSource,
+    OrderResult,
+    TimeInForce,
+    TradingMode,
+    TradingStopParams,
+} from './exchange';
+
+const DEFAULT_STARTING_BALANCE = 10000; // USDT
+const DEFAULT_FEE_RATE = 0.00055; // Bybit linear taker fee
+const DEFAULT_MAKER_FEE_RATE = 0.0002; // Bybit linear maker fee
+const DEFAULT_LEVERAGE = 10;
+const MAX_CLOSED_PNL_RECORDS = 200;
+const MAX_ORDER_RECORDS = 200;
+const MAX_EXECUTION_RECORDS = 500;
+
+export interface PaperExchangeOptions {
+    startingBalance?: number;
+    feeRate?: number; // Taker fee, charged on market orders and limit orders that cross
+    makerFeeRate?: number; // Charged on resting limit orders when they fill
+    clock?: Clock;
+    store?: PaperAccountStore; // Keeps the account across restarts; without it the account lives in memory only
+}
+
+interface PaperPosition {
+    symbol: string;
+    side: 'Buy' | 'Sell';
+    size: number;
+    avgPrice: number;
+    markPrice: number;
+    leverage: number;
+    takeProfit?: number;
+    stopLoss?: number;
+    openFee: number;
+    createdTime: number;
+}
+
+// The order a fill belongs to.
+interface OrderRef {
+    orderId: string;
+    orderLinkId: string;
+}
+
+interface PaperOrder extends OrderRef {
+    symbol: string;
+    side: 'Buy' | 'Sell';
+    price: number;
+    qty: number;
+    filledQty: number;
+    avgPrice: number;
+    status: string;
+    timeInForce: TimeInForce;
+    takeProfit?: string;
+    stopLoss?: string;
+}
+
+// The simulated account, as saved between restarts.
+export interface PaperAccountState {
+    balance: number;
+    positions: PaperPosition[];
+    leverages: [string, number][];
+    closedPnl: ClosedPnlRecord[];
+    orders: PaperOrder[];
+    executions: ExchangeExecution[];
+}
+
+export interface PaperAccountStore {
+    load(agentId: string): PaperAccountState | null;
+    save(agentId: string, state: PaperAccountState): void;
+}
+
+const getAccountFile = (agentId: string) => path.join(getDataDir(), 'paper', `${agentId}.json`);
+
+// One JSON file per paper agent under <DATA_DIR>/paper, replaced atomically on every change.
+export const filePaperAccountStore: PaperAccountStore = {
+    load: (agentId) => readJson<PaperAccountState>(getAccountFile(agentId)),
+    save: (agentId, state) => writeJsonAtomic(getAccountFile(agentId), state),
+};
+
+/**
+ * A local simulation of a Bybit linear USDT account, kept in memory and saved to the store, if any.
+ * Market data comes from a real (or replayed) price feed; orders, positions,
+ * balances, executions and closed PnL are simulated. There is no funding. Market orders fill at the last traded price
+ * and TP/SL are evaluated every time the price of an open position is refreshed.
+ * Limit orders that cross fill at once as a taker; resting ones fill in full at their price
+ * once the market trades through it (no partial fills). Limit orders are meant for entries
+ * and always add to a position rather than reducing an opposite one.
+ */
+export class PaperExchangeClient implements ExchangeClient {
+    readonly mode: TradingMode = 'paper';
+    private balance: number;
+    private feeRate: number;
+    private makerFeeRate: number;
+    private clock: Clock;
+    private positions = new Map<string, PaperPosition>();
+    private leverages = new Map<string, number>();
+    private closedPnl: ClosedPnlRecord[] = [];
+    private orders = new Map<string, PaperOrder>(); // Limit orders, oldest first
+    private executions: ExchangeExecution[] = []; // Oldest first
+    private store?: PaperAccountStore;
+
+    constructor(private agentId: string, private feed: MarketDataSource, options: PaperExchangeOptions = {}) {
+        this.balance = options.startingBalance ?? DEFAULT_STARTING_BALANCE;
+        this.feeRate = options.feeRate ?? DEFAULT_FEE_RATE;
+        this.makerFeeRate = options.makerFeeRate ?? DEFAULT_MAKER_FEE_RATE;
+        this.clock = options.clock ?? systemClock;
+        this.store = options.store;
+
+        // A saved account wins over the starting balance, so a restart carries on where it stopped.
+        const saved = this.store?.load(agentId);
+        if (saved) {
+            this.balance = saved.balance;
+            this.positions = new Map(saved.positions.map(p => [p.symbol, p]));
+            this.leverages = new Map(saved.leverages);
+            this.closedPnl = saved.closedPnl;
+            this.orders = new Map(saved.orders.map(o => [o.orderId, o]));
+            this.executions = saved.executions;
+            log(agentId, `[PAPER] Restored account: ${this.balance.toFixed(2)} USDT, ${this.positions.size} open position(s).`);
+        }
+    }
+
+    async getWalletBalance(): Promise<number> {
+        log(this.agentId, `[PAPER] Wallet balance: ${this.balance.toFixed(2)} USDT`);
+        return this.balance;
+    }
+
+    getMarketData(): Promise<string> {
+        return this.feed.getMarketData();
+    }
+
+    getTicker(symbol: string): Promise<ExchangeTicker> {
+        return this.feed.getTicker(symbol);
+    }
+
+    getInstrumentInfo(symbol: string): Promise<ExchangeInstrument> {
+        return this.feed.getInstrumentInfo(symbol);
+    }
+
+    getCandles(symbol: string, interval: KlineInterval, limit: number): Promise<Candle[]> {
+        return this.feed.getCandles(symbol, interval, limit);
+    }
+
+    async setLeverage(symbol: string, leverage: string): Promise<void> {
+        const value = parseFloat(leverage);
+        if (!(value > 0)) {
+            throw new Error(`Failed to set leverage: invalid leverage ${leverage}`);
+        }
+        this.leverages.set(symbol, value);
+        this.save();
+        log(this.agentId, `[PAPER] Leverage for ${symbol} set to ${leverage}x.`);
+    }
+
+    async placeOrder(symbol: string, side: OrderSide, qty: string, takeProfit?: string, stopLoss?: string, limit?: LimitOrderParams, orderLinkId = randomUUID()): Promise<OrderResult> {
+        const size = parseFloat(qty);
+        if (!(size > 0)) {
+            throw new Error(`Failed to place order: invalid qty ${qty}`);
+        }
+        const price = await this.getLastPrice(symbol);
+        const orderSide = side === OrderSide.LONG ? 'Buy' : 'Sell';
+        const ref = { orderId: randomUUID(), orderLinkId };
+        if (limit) {
+            return this.placeLimitOrder(ref, symbol, orderSide, size, price, limit, takeProfit, stopLoss);
+        }
+        const existing = this.positions.get(symbol);
+
+        if (existing && existing.side !== orderSide) {
+            // An opposite order against an open position reduces it first, like one-way mode on Bybit.
+            this.reduce(existing, Math.min(size, existing.size), price, 'Market', ref);
+            const remainder = size - Math.min(size, existing.size);
+            if (remainder > 0) {
+                this.open(symbol, orderSide, remainder, price, takeProfit, stopLoss, this.feeRate, ref);
+            }
+            return ref;
+        }
+
+        this.open(symbol, orderSide, size, price, takeProfit, stopLoss, this.feeRate, ref);
+        log(this.agentId, `[PAPER] Order filled: ${orderSide} ${qty} ${symbol} @ ${price}. Order ID: ${ref.orderId}`);
+        return ref;
+    }
+
+    async getOrder(symbol: string, orderId: string): Promise<ExchangeOrder | null> {
+        const order = this.orders.get(orderId);
+        if (!order || order.symbol !== symbol) return null;
+        if (order.status === 'New') {
+            const price = await this.getLastPrice(symbol);
+            this.fillRestingOrders(symbol, price, price);
+        }
+        return {
+            orderId: order.orderId,
+            symbol: order.symbol,
+            side: order.side,
+            orderType: 'Limit',
+            price: order.price.toString(),
+            qty: order.qty.toString(),
+            cumExecQty: order.filledQty.toString(),
+            avgPrice: order.avgPrice ? order.avgPrice.toString() : '',
+            orderStatus: order.status,
+            timeInForce: order.timeInForce,
+        };
+    }
+
+    async cancelOrder(symbol: string, orderId: string): Promise<void> {
+        const order = this.orders.get(orderId);
+        if (order && order.symbol === symbol && order.status === 'New') {
+            order.status = 'Cancelled';
+            this.save();
+            log(this.agentId, `[PAPER] Order ${orderId} cancelled.`);
+        }
+    }
+
+    async getPosition(symbol: string): Promise<ExchangePosition | null> {
+        const position = this.positions.get(symbol);
+        if (!position) return null;
+
+        this.applyPrice(symbol, await this.getLastPrice(symbol));
+        const current = this.positions.get(symbol);
+        return current ? this.toExchangePosition(current) : null;
+    }
+
+    async getOpenPositions(): Promise<ExchangePosition[]> {
+        const open: ExchangePosition[] = [];
+        for (const symbol of [...this.positions.keys()]) {
+            const position = await this.getPosition(symbol);
+            if (position) open.push(position);
+        }
+        return open;
+    }
+
+    async setTradingStop(symbol: string, stops: TradingStopParams): Promise<void> {
+        const position = this.positions.get(symbol);
+        if (!position) {
+            throw new Error(`Failed to set trading stop: no open position for ${symbol}`);
+        }
+        if (stops.takeProfit !== undefined) position.takeProfit = parseFloat(stops.takeProfit);
+        if (stops.stopLoss !== undefined) position.stopLoss = parseFloat(stops.stopLoss);
+        this.save();
+        log(this.agentId, `[PAPER] Trading stop for ${symbol} set: TP ${position.takeProfit ?? 'none'}, SL ${position.stopLoss ?? 'none'}.`);
+    }
+
+    async closePosition(symbol: string, side: OrderSide, size: string, orderLinkId = randomUUID()): Promise<OrderResult> {
+        const position = this.positions.get(symbol);
+        const expectedSide = side === OrderSide.LONG ? 'Buy' : 'Sell';
+        if (!position || position.side !== expectedSide) {
+            throw new Error(`Failed to close position: no open ${side} position for ${symbol}`);
+        }
+        const price = await this.getLastPrice(symbol);
+        const ref = { orderId: randomUUID(), orderLinkId };
+        this.reduce(position, Math.min(parseFloat(size), position.size), price, 'Market', ref);
+        log(this.agentId, `[PAPER] Position close filled for ${symbol} @ ${price}. Order ID: ${ref.orderId}`);
+        return ref;
+    }
+
+    async getClosedPnl(symbol: string, orderId: string): Promise<ClosedPnlRecord | null> {
+        return this.closedPnl.find(r => r.symbol === symbol && r.orderId === orderId) || null;
+    }
+
+    async getExecutions(symbol: string, since: number): Promise<ExchangeExecution[]> {
+        return this.executions.filter(e => e.symbol === symbol && parseInt(e.execTime, 10) >= since);
+    }
+
+    /**
+     * Marks an open position to the given price and fires its TP/SL if crossed.
+     * Called on every position refresh; exposed so replay feeds can push prices directly.
+     */
+    applyPrice(symbol: string, price: number) {
+        this.fillRestingOrders(symbol, price, price);
+        const position = this.positions.get(symbol);
+        if (!position) return;
+        position.markPrice = price;
+
+        const isLong = position.side === 'Buy';
+        const { takeProfit, stopLoss } = position;
+        // When both levels are crossed by the same update, assume the stop was hit first.
+        if (stopLoss !== undefined && (isLong ? price <= stopLoss : price >= stopLoss)) {
+            log(this.agentId, `[PAPER] Stop loss triggered for ${symbol} at ${stopLoss}.`);
+            this.reduce(position, position.size, stopLoss, 'StopLoss');
+        } else if (takeProfit !== undefined && (isLong ? price >= takeProfit : price <= takeProfit)) {
+            log(this.agentId, `[PAPER] Take profit triggered for ${symbol} at ${takeProfit}.`);
+            this.reduce(position, position.size, takeProfit, 'TakeProfit');
+        }
+    }
+
+    /**
+     * Replays one OHLC bar against an open position: the adverse extreme is evaluated
+     * before the favorable one, then the position is marked at the close.
+     */
+    applyCandle(symbol: string, high: number, low: number, close: number) {
+        this.fillRestingOrders(symbol, low, high);
+        const position = this.positions.get(symbol);
+        if (!position) return;
+
+        const [adverse, favorable] = position.side === 'Buy' ? [low, high] : [high, low];
+        this.applyPrice(symbol, adverse);
+        this.applyPrice(symbol, favorable);
+        this.applyPrice(symbol, close);
+    }
+
+    // Wallet balance plus unrealized PnL of all open positions at their last marked price.
+    getEquity(): number {
+        let equity = this.balance;
+        for (const p of this.positions.values()) {
+            equity += this.getUnrealisedPnl(p);
+        }
+        return equity;
+    }
+
+    private async getLastPrice(symbol: string): Promise<number> {
+        const ticker = await this.feed.getTicker(symbol);
+        const price = parseFloat(ticker.lastPrice);
+        if (!(price > 0)) {
+            throw new Error(`No valid price available for ${symbol}`);
+        }
+        return price;
+    }
+
+    private placeLimitOrder(ref: OrderRef, symbol: string, side: 'Buy' | 'Sell', size: number, lastPrice: number, limit: LimitOrderParams, takeProfit?: string, stopLoss?: string): OrderResult {
+        const price = parseFloat(limit.price);
+        if (!(price > 0)) {
+            throw new Error(`Failed to place order: invalid price ${limit.price}`);
+        }
+        const order: PaperOrder = {
+            ...ref,
+            symbol,
+            side,
+            price,
+            qty: size,
+            filledQty: 0,
+            avgPrice: 0,
+            status: 'New',
+            timeInForce: limit.timeInForce,
+            takeProfit,
+            stopLoss,
+        };
+        this.orders.set(order.orderId, order);
+        this.pruneOrders();
+
+        const crosses = side === 'Buy' ? lastPrice <= price : lastPrice >= price;
+        if (crosses && limit.timeInForce === 'PostOnly') {
+            order.status = 'Cancelled';
+            log(this.agentId, `[PAPER] Post-only ${side} ${symbol} @ ${price} would take liquidity (last ${lastPrice}). Cancelled.`);
+        } else if (crosses) {
+            // A crossing limit takes liquidity at the last price, which is at least as good as the limit.
+            this.fillOrder(order, lastPrice, this.feeRate);
+        } else if (limit.timeInForce === 'IOC' || limit.timeInForce === 'FOK') {
+            order.status = 'Cancelled';
+            log(this.agentId, `[PAPER] ${limit.timeInForce} ${side} ${symbol} @ ${price} could not fill (last ${lastPrice}). Cancelled.`);
+        } else {
+            log(this.agentId, `[PAPER] Limit order resting: ${side} ${size} ${symbol} @ ${price} (${limit.timeInForce}). Order ID: ${order.orderId}`);
+        }
+        this.save();
+        return ref;
+    }
+
+    // Fills resting orders the market traded through, at their limit price, as a maker.
+    private fillRestingOrders(symbol: string, low: number, high: number) {
+        for (const order of this.orders.values()) {
+            if (order.symbol !== symbol || order.status !== 'New') continue;
+            if (order.side === 'Buy' ? low <= order.price : high >= order.price) {
+                this.fillOrder(order, order.price, this.makerFeeRate);
+            }
+        }
+    }
+
+    private fillOrder(order: PaperOrder, price: number, feeRate: number) {
+        try {
+            this.open(order.symbol, order.side, order.qty, price, order.takeProfit, order.stopLoss, feeRate, order);
+        } catch (error) {
+            order.status = 'Rejected';
+            this.save();
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(this.agentId, `[PAPER] Order ${order.orderId} rejected on fill: ${errorMessage}`);
+            return;
+        }
+        order.filledQty = order.qty;
+        order.avgPrice = price;
+        order.status = 'Filled';
+        this.save();
+        log(this.agentId, `[PAPER] Limit order filled: ${order.side} ${order.qty} ${order.symbol} @ ${price}. Order ID: ${order.orderId}`);
+    }
+
+    // Forgets the oldest finished orders beyond the retention limit; open orders are always kept.
+    private pruneOrders() {
+        for (const [orderId, order] of this.orders) {
+            if (this.orders.size <= MAX_ORDER_RECORDS) break;
+            if (order.status !== 'New') this.orders.delete(orderId);
+        }
+    }
+
+    private open(symbol: string, side: 'Buy' | 'Sell', size: number, price: number, takeProfit: string | undefined, stopLoss: string | undefined, feeRate: number, ref: OrderRef) {
+        const leverage = this.leverages.get(symbol) ?? DEFAULT_LEVERAGE;
+        const fee = size * price * feeRate;
+        const requiredMargin = (size * price) / leverage + fee;
+        if (requiredMargin > this.getAvailableBalance()) {
+            throw new ExchangeError(`Failed to place order: ab not enough for new order (required ${requiredMargin.toFixed(2)} USDT)`, 'insufficientMargin');
+        }
+
+        this.balance -= fee;
+        const existing = this.positions.get(symbol);
+        if (existing) {
+            const totalSize = existing.size + size;
+            existing.avgPrice = (existing.avgPrice * existing.size + price * size) / totalSize;
+            existing.size = totalSize;
+            existing.openFee += fee;
+            existing.markPrice = price;
+            if (takeProfit) existing.takeProfit = parseFloat(takeProfit);
+            if (stopLoss) existing.stopLoss = parseFloat(stopLoss);
+        } else {
+            this.positions.set(symbol, {
+                symbol,
+                side,
+                size,
+                avgPrice: price,
+                markPrice: price,
+                leverage,
+                takeProfit: takeProfit ? parseFloat(takeProfit) : undefined,
+                stopLoss: stopLoss ? parseFloat(stopLoss) : undefined,
+                openFee: fee,
+                createdTime: this.clock.now(),
+            });
+        }
+        this.recordExecution(ref, symbol, side, size, price, fee, 0);
+        this.save();
+    }
+
+    // orderType is 'Market' for the agent's closes, or 'TakeProfit'/'StopLoss' when a level triggered.
+    private reduce(position: PaperPosition, size: number, price: number, orderType: string, ref: OrderRef = { orderId: randomUUID(), orderLinkId: '' }) {
+        const { orderId } = ref;
+        const direction = position.side === 'Buy' ? 1 : -1;
+        const closeFee = size * price * this.feeRate;
+        // Attribute the opening fee pro rata to the closed portion, as Bybit's closed PnL does.
+        const openFee = position.openFee * (size / position.size);
+        const grossPnl = (price - position.avgPrice) * size * direction;
+        const closedPnl = grossPnl - openFee - closeFee;
+
+        // The opening fee was already debited when the position was opened.
+        this.balance += grossPnl - closeFee;
+        position.size -= size;
+        position.openFee -= openFee;
+
+        const now = this.clock.now();
+        this.closedPnl.unshift({
+            symbol: position.symbol,
+            orderId,
+            // Like Bybit, the side of a closed PnL record is the side of the closing order.
+            side: position.side === 'Buy' ? 'Sell' : 'Buy',
+            qty: size.toString(),
+            orderType,
+            closedSize: size.toString(),
+            cumEntryValue: (position.avgPrice * size).toString(),
+            avgEntryPrice: position.avgPrice.toString(),
+            cumExitValue: (price * size).toString(),
+            avgExitPrice: price.toString(),
+            closedPnl: closedPnl.toString(),
+            leverage: position.leverage.toString(),
+            createdTime: position.createdTime.toString(),
+            updatedTime: now.toString(),
+        });
+        if (this.closedPnl.length > MAX_CLOSED_PNL_RECORDS) {
+            this.closedPnl.pop();
+        }
+        this.recordExecution(ref, position.symbol, position.side === 'Buy' ? 'Sell' : 'Buy', size, price, closeFee, size, orderType === 'Market' ? undefined : orderType);
+
+        if (position.size <= 0) {
+            this.positions.delete(position.symbol);
+        }
+        this.save();
+        log(this.agentId, `[PAPER] Closed ${size} ${position.symbol} @ ${price}. Realized PnL: ${closedPnl.toFixed(2)} USDT.`);
+    }
+
+    private recordExecution(ref: OrderRef, symbol: string, side: 'Buy' | 'Sell', qty: number, price: number, fee: number, closedSize: number, stopOrderType?: string) {
+        this.executions.push({
+            symbol,
+            orderId: ref.orderId,
+            orderLinkId: ref.orderLinkId,
+            side,
+            execPrice: price.toString(),
+            execQty: qty.toString(),
+            execFee: fee.toString(),
+            execType: 'Trade',
+            stopOrderType,
+            closedSize: closedSize.toString(),
+            execTime: this.clock.now().toString(),
+        });
+        if (this.executions.length > MAX_EXECUTION_RECORDS) {
+            this.executions.shift();
+        }
+    }
+
+    // Writes the account to the store after every change to balance, positions or orders.
+    private save() {
+        if (!this.store) return;
+        try {
+            this.store.save(this.agentId, {
+                balance: this.balance,
+                positions: [...this.positions.values()],
+                leverages: [...this.leverages],
+                closedPnl: this.closedPnl,
+                orders: [...this.orders.values()],
+                executions: this.executions,
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(this.agentId, `[PAPER] WARNING: Failed to save the paper account: ${errorMessage}`);
+        }
+    }
+
+    private getAvailableBalance(): number {
+        let usedMargin = 0;
+        let unrealisedPnl = 0;
+        for (const p of this.positions.values()) {
+            usedMargin += (p.size * p.avgPrice) / p.leverage;
+            unrealisedPnl += this.getUnrealisedPnl(p);
+        }
+        return this.balance + Math.min(unrealisedPnl, 0) - usedMargin;
+    }
+
+    private getUnrealisedPnl(position: PaperPosition): number {
+        const direction = position.side === 'Buy' ? 1 : -1;
+        return (position.markPrice - position.avgPrice) * position.size * direction;
+    }
+
+    private toExchangePosition(position: PaperPosition): ExchangePosition {
+        return {
+            symbol: position.symbol,
+            side: position.side,
+            size: position.size.toString(),
+            avgPrice: position.avgPrice.toString(),
+            unrealisedPnl: this.getUnrealisedPnl(position).toString(),
+            markPrice: position.markPrice.toString(),
+            takeProfit: position.takeProfit?.toString(),
+            stopLoss: position.stopLoss?.toString(),
+            createdTime: position.createdTime.toString(),
+        };
+    }
+}
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeOrderQty, fitQtyToInstrument, SizingContext } from './positionSizing';
+import { ExchangeInstrument } from './exchange';
+import { Candle, OrderSide, SizingModel, Trade } from './types';
+
+const assertClose = (actual: number, expected: number) =>
+    assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+const context = (overrides: Partial<SizingContext> = {}): SizingContext => ({
+    balance: 1000,
+    price: 100,
+    leverage: 5,
+    stopLossPrice: 95,
+    ...overrides,
+});
+
+// Bars 2 wide around an unchanged close: every true range, and so the ATR, is 2.
+const steadyCandles = (count: number): Candle[] =>
+    Array.from({ length: count }, (_, i) => ({ timestamp: i * 60000, open: 100, high: 101, low: 99, close: 100, volume: 1 }));
+
+const trades = (pnls: number[]): Trade[] => pnls.map((pnl, i) => ({
+    timestamp: new Date(i * 60000).toISOString(),
+    agentId: 'P1',
+    symbol: 'BTCUSDT',
+    side: OrderSide.LONG,
+    size: 1,
+    entryPrice: 100,
+    closePrice: 100 + pnl,
+    pnl,
+}));
+
+const kelly = (overrides: Partial<Extract<SizingModel, { type: 'kelly' }>> = {}): SizingModel => ({
+    type: 'kelly',
+    fraction: 0.5,
+    maxRiskPercent: 50,
+    minTrades: 10,
+    fallbackRiskPercent: 1,
+    ...overrides,
+});
+
+describe('computeOrderQty', () => {
+    it('sizes fixed notional and percent-of-balance orders', () => {
+        assertClose(computeOrderQty({ type: 'fixedNotional', notional: 100 }, context({ price: 50 })).qty, 2);
+        // 10% of 1000 as margin at 5x is 500 of notional.
+        assertClose(computeOrderQty({ type: 'percentOfBalance', percent: 10 }, context({ price: 50 })).qty, 10);
+    });
+
+    it('risks the given share of the balance at the stop', () => {
+        // 1% of 1000 over a 5-point stop.
+        assertClose(computeOrderQty({ type: 'fixedFractional', riskPercent: 1 }, context()).qty, 2);
+        assert.throws(() => computeOrderQty({ type: 'fixedFractional', riskPercent: 1 }, context({ stopLossPrice: 100 })));
+    });
+
+    it('scales to volatility through the ATR', () => {
+        // 1% of 1000 over 2.5 x an ATR of 2.
+        const model: SizingModel = { type: 'volatilityScaled', riskPercent: 1, atrMultiple: 2.5, atrPeriod: 3 };
+        assertClose(computeOrderQty(model, context({ candles: steadyCandles(10) })).qty, 2);
+        assert.throws(() => computeOrderQty(model, context({ candles: steadyCandles(3) })), /Not enough candle data/);
+    });
+
+    it('uses the Kelly fraction of the recent win rate and payoff', () => {
+        // W = 0.6 and R = 20 / 10 = 2 give f* = 0.6 - 0.4 / 2 = 0.4; half Kelly risks 20% over a 5-point stop.
+        const history = trades([20, -10, 20, -10, 20, -10, 20, -10, 20, 20]);
+        const { qty, detail } = computeOrderQty(kelly(), context({ recentTrades: history }));
+        assertClose(qty, 1000 * 0.2 / 5);
+        assert.match(detail, /f\*=0\.400/);
+    });
+
+    it('caps the Kelly risk and never goes below zero', () => {
+        const history = trades([20, -10, 20, -10, 20, -10, 20, -10, 20, 20]);
+        assertClose(computeOrderQty(kelly({ maxRiskPercent: 2 }), context({ recentTrades: history })).qty, 1000 * 0.02 / 5);
+        const losing = trades([5, -10, 5, -10, 5, -10, 5, -10, -10, -10]);
+        assertClose(computeOrderQty(kelly(), context({ recentTrades: losing })).qty, 0);
+    });
+
+    it('falls back to the fallback risk without enough history, wins or losses', () => {
+        const fallbackQty = 1000 * 0.01 / 5;
+        const few = computeOrderQty(kelly(), context({ recentTrades: trades([20, -10, 20]) }));
+        assertClose(few.qty, fallbackQty);
+        assert.match(few.detail, /kelly fallback \(3 trades\)/);
+        assertClose(computeOrderQty(kelly(), context({ recentTrades: trades(Array(10).fill(5)) })).qty, fallbackQty);
+        assertClose(computeOrderQty(kelly(), context({ recentTrades: trades(Array(10).fill(-5)) })).qty, fallbackQty);
+        assertClose(computeOrderQty(kelly(), context()).qty, fallbackQty);
+    });
+
+    it('only counts the lookback window of the most recent trades', () => {
+        // Ten early losses fall outside a lookback of 10, leaving too few trades with a loss.
+        const history = trades([...Array(10).fill(-10), ...Array(10).fill(20)]);
+        assertClose(computeOrderQty(kelly({ lookbackTrades: 10 }), context({ recentTrades: history })).qty, 1000 * 0.01 / 5);
+    });
+});
+
+describe('fitQtyToInstrument', () => {
+    const instrument = (lotSizeFilter: Partial<ExchangeInstrument['lotSizeFilter']> = {}): ExchangeInstrument => ({
+        symbol: 'BTCUSDT',
+        status: 'Trading',
+        lotSizeFilter: { minOrderQty: '0.001', maxOrderQty: '100', qtyStep: '0.001', ...lotSizeFilter },
+        priceFilter: { tickSize: '0.1' },
+    });
+
+    it('rounds down to the quantity step', () => {
+        assert.deepEqual(fitQtyToInstrument(1.23456, 100, instrument()), { status: 'ok', qty: 1.234, qtyString: '1.234' });
+        assert.deepEqual(fitQtyToInstrument(0.30000000000000004, 100, instrument({ qtyStep: '0.1', minOrderQty: '0.1' })), { status: 'ok', qty: 0.3, qtyString: '0.3' });
+        assert.deepEqual(fitQtyToInstrument(12.9, 100, instrument({ qtyStep: '1', minOrderQty: '1' })), { status: 'ok', qty: 12, qtyString: '12' });
+    });
+
+    it('rejects quantities outside the lot size filter', () => {
+        assert.equal(fitQtyToInstrument(0.0009, 100, instrument()).status, 'rejected');
+        assert.equal(fitQtyToInstrument(101, 100, instrument()).status, 'rejected');
+        assert.equal(fitQtyToInstrument(0.01, 100, instrument({ minNotionalValue: '5' })).status, 'rejected');
+        assert.equal(fitQtyToInstrument(0, 100, instrument()).status, 'rejected');
+        assert.equal(fitQtyToInstrument(NaN, 100, instrument()).status, 'rejected');
+    });
+
+    it('applies the market order maximum only to market orders', () => {
+        const limited = instrument({ maxMktOrderQty: '10' });
+        assert.equal(fitQtyToInstrument(20, 100, limited).status, 'rejected');
+        assert.equal(fitQtyToInstrument(20, 100, limited, false).status, 'ok');
+    });
+});
@@ -0,0 +1,120 @@
+import { Candle, SizingModel, Strategy, Trade } from './types';
+import { ExchangeInstrument } from './exchange';
+import { atr } from './indicators';
+import { KlineInterval } from './candles';
+
+export const DEFAULT_SIZING: SizingModel = { type: 'fixedNotional', notional: 100 };
+export const DEFAULT_LEVERAGE = 10;
+export const DEFAULT_TAKE_PROFIT_PCT = 10;
+export const DEFAULT_STOP_LOSS_PCT = 10;
+export const DEFAULT_ATR_PERIOD = 14;
+export const DEFAULT_ATR_INTERVAL: KlineInterval = '60';
+const DEFAULT_KELLY_LOOKBACK = 50;
+const DEFAULT_KELLY_MIN_TRADES = 20;
+
+export interface SizingContext {
+    balance: number;
+    price: number;
+    leverage: number;
+    stopLossPrice: number;
+    candles?: Candle[]; // Required by volatilityScaled
+    recentTrades?: Trade[]; // Required by kelly; newest last
+}
+
+export type QtyResult =
+    | { status: 'ok'; qty: number; qtyString: string }
+    | { status: 'rejected'; reason: string };
+
+export const getSizingModel = (strategy: Strategy) => strategy.sizing ?? DEFAULT_SIZING;
+
+// Candles to fetch for volatility-scaled sizing: a few periods of history lets Wilder smoothing settle.
+export const getAtrCandleRequest = (model: Extract<SizingModel, { type: 'volatilityScaled' }>) => ({
+    interval: model.interval ?? DEFAULT_ATR_INTERVAL,
+    limit: (model.atrPeriod ?? DEFAULT_ATR_PERIOD) * 3 + 1,
+});
+
+const decimals = (step: string) => (step.includes('.') ? step.split('.')[1].replace(/0+$/, '').length : 0);
+
+// Kelly fraction f* = W - (1 - W) / R, from win rate W and average win / average loss R.
+const kellyRiskPercent = (model: Extract<SizingModel, { type: 'kelly' }>, trades: Trade[]): { percent: number; detail: string } => {
+    const recent = trades.slice(-(model.lookbackTrades ?? DEFAULT_KELLY_LOOKBACK));
+    const wins = recent.filter(t => t.pnl > 0);
+    const losses = recent.filter(t => t.pnl <= 0);
+    if (recent.length < (model.minTrades ?? DEFAULT_KELLY_MIN_TRADES) || wins.length === 0 || losses.length === 0) {
+        return { percent: model.fallbackRiskPercent, detail: `kelly fallback (${recent.length} trades)` };
+    }
+
+    const winRate = wins.length / recent.length;
+    const avgWin = wins.reduce((sum, t) => sum + t.pnl, 0) / wins.length;
+    const avgLoss = -losses.reduce((sum, t) => sum + t.pnl, 0) / losses.length;
+    const kelly = winRate - (1 - winRate) / (avgWin / avgLoss);
+    const percent = Math.min(Math.max(kelly, 0) * model.fraction * 100, model.maxRiskPercent);
+    return { percent, detail: `kelly f*=${kelly.toFixed(3)} x ${model.fraction}, capped at ${model.maxRiskPercent}%` };
+};
+
+/**
+ * Computes the raw (unrounded) order quantity for a sizing model.
+ * Throws when the model cannot be evaluated, e.g. there is not enough candle data for ATR.
+ */
+export const computeOrderQty = (model: SizingModel, ctx: SizingContext): { qty: number; detail: string } => {
+    const stopDistance = Math.abs(ctx.price - ctx.stopLossPrice);
+
+    switch (model.type) {
+        case 'fixedNotional':
+            return { qty: model.notional / ctx.price, detail: `fixed $${model.notional} notional` };
+
+        case 'percentOfBalance': {
+            const margin = ctx.balance * (model.percent / 100);
+            return { qty: (margin * ctx.leverage) / ctx.price, detail: `${model.percent}% of balance as margin at ${ctx.leverage}x` };
+        }
+
+        case 'fixedFractional': {
+            if (stopDistance <= 0) throw new Error('Stop loss distance must be positive for fixed-fractional sizing.');
+            const riskAmount = ctx.balance * (model.riskPercent / 100);
+            return { qty: riskAmount / stopDistance, detail: `risking ${model.riskPercent}% ($${riskAmount.toFixed(2)}) at the stop` };
+        }
+
+        case 'volatilityScaled': {
+            const value = atr(ctx.candles ?? [], model.atrPeriod ?? DEFAULT_ATR_PERIOD);
+            if (value === null || value <= 0) throw new Error('Not enough candle data to compute ATR for volatility-scaled sizing.');
+            const riskAmount = ctx.balance * (model.riskPercent / 100);
+            return {
+                qty: riskAmount / (model.atrMultiple * value),
+                detail: `risking ${model.riskPercent}% over ${model.atrMultiple} x ATR (${value.toPrecision(4)})`,
+            };
+        }
+
+        case 'kelly': {
+            if (stopDistance <= 0) throw new Error('Stop loss distance must be positive for Kelly sizing.');
+            const { percent, detail } = kellyRiskPercent(model, ctx.recentTrades ?? []);
+            return { qty: (ctx.balance * (percent / 100)) / stopDistance, detail: `${detail}: risking ${percent.toFixed(2)}%` };
+        }
+    }
+};
+
+// Rounds down to the instrument's qtyStep and checks it against the lot size filter.
+export const fitQtyToInstrument = (rawQty: number, price: number, instrument: ExchangeInstrument, isMarketOrder = true): QtyResult => {
+    const filter = instrument.lotSizeFilter;
+    const qtyStep = parseFloat(filter.qtyStep);
+    const minQty = parseFloat(filter.minOrderQty);
+    const maxQty = parseFloat(isMarketOrder && filter.maxMktOrderQty ? filter.maxMktOrderQty : filter.maxOrderQty);
+    const minNotional = filter.minNotionalValue ? parseFloat(filter.minNotionalValue) : 0;
+
+    if (!Number.isFinite(rawQty) || rawQty <= 0) {
+        return { status: 'rejected', reason: `Computed quantity ${rawQty} is not a positive number.` };
+    }
+    // The small epsilon keeps values like 0.30000000000000004 / 0.1 from rounding down a full step.
+    const qty = Math.floor(rawQty / qtyStep + 1e-9) * qtyStep;
+    const qtyString = qty.toFixed(decimals(filter.qtyStep));
+
+    if (qty < minQty) {
+        return { status: 'rejected', reason: `Quantity ${rawQty} is below the minimum order size ${filter.minOrderQty}.` };
+    }
+    if (qty > maxQty) {
+        return { status: 'rejected', reason: `Quantity ${qtyString} exceeds the maximum order size ${maxQty}.` };
+    }
+    if (qty * price < minNotional) {
+        return { status: 'rejected', reason: `Order value $${(qty * price).toFixed(2)} is below the minimum notional $${minNotional}.` };
+    }
+    return { status: 'ok', qty: parseFloat(qtyString), qtyString };
+};
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { VirtualClock } from './clock';
+import { mergeRiskLimits, RiskLimits, RiskManager } from './riskManager';
+import { OrderSide, Trade } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOON = Date.parse('2024-05-01T12:00:00Z'); // The ledger day is a UTC date unless LEDGER_TIMEZONE is set
+
+const limits = (overrides: Partial<RiskLimits> = {}): RiskLimits => ({
+    maxDailyLossPerAgent: 50,
+    maxDailyLossGlobal: 80,
+    maxConcurrentPositions: 2,
+    maxPositionsPerSymbol: 1,
+    maxTotalNotional: 1000,
+    ...overrides,
+});
+
+const trade = (agentId: string, timestamp: string, pnl: number): Trade => ({
+    timestamp,
+    agentId,
+    symbol: 'BTCUSDT',
+    side: OrderSide.LONG,
+    size: 1,
+    entryPrice: 100,
+    closePrice: 100 + pnl,
+    pnl,
+});
+
+describe('RiskManager daily loss halt', () => {
+    it("halts an agent once its realized loss reaches the limit, without halting the others", () => {
+        const risk = new RiskManager(limits(), new VirtualClock(NOON));
+        risk.recordClose('P1', -30);
+        assert.equal(risk.getHaltReason('P1'), null);
+        risk.recordClose('P1', -20);
+        assert.match(risk.getHaltReason('P1') ?? '', /Daily loss limit reached for agent P1: -\$50\.00/);
+        assert.equal(risk.getHaltReason('P2'), null);
+
+        const rejected = risk.reserve('P1', 'BTCUSDT', 100);
+        assert.equal(rejected.approved, false);
+        assert.equal(rejected.halt, true);
+    });
+
+    it('nets wins against losses and counts scale-out legs', () => {
+        const risk = new RiskManager(limits(), new VirtualClock(NOON));
+        risk.recordClose('P1', -60);
+        risk.recordPartialClose('P1', 15, 50);
+        assert.equal(risk.getHaltReason('P1'), null);
+    });
+
+    it('halts every agent once the losses of all of them reach the global limit', () => {
+        const risk = new RiskManager(limits(), new VirtualClock(NOON));
+        risk.recordClose('P1', -40);
+        risk.recordClose('P2', -40);
+        assert.match(risk.getHaltReason('P3') ?? '', /Global daily loss limit reached: -\$80\.00/);
+    });
+
+    it('lifts the halt when the ledger day rolls over', async () => {
+        const clock = new VirtualClock(NOON);
+        const risk = new RiskManager(limits(), clock);
+        risk.recordClose('P1', -50);
+        await clock.advanceTo(NOON + 11 * HOUR_MS); // 23:00
+        assert.notEqual(risk.getHaltReason('P1'), null);
+        await clock.advanceTo(NOON + 12 * HOUR_MS); // Midnight
+        assert.equal(risk.getHaltReason('P1'), null);
+        assert.equal(risk.reserve('P1', 'BTCUSDT', 100).approved, true);
+    });
+
+    it("seeds only today's trades from the ledger", () => {
+        const risk = new RiskManager(limits(), new VirtualClock(NOON));
+        risk.seedFromTrades([
+            trade('P1', '2024-04-30T23:59:00Z', -100),
+            trade('P1', '2024-05-01T00:01:00Z', -30),
+            trade('P1', '2024-05-01T11:00:00Z', -25),
+        ]);
+        assert.match(risk.getHaltReason('P1') ?? '', /-\$55\.00/);
+    });
+});
+
+describe('RiskManager exposure', () => {
+    it('caps concurrent positions across agents', () => {
+        const risk = new RiskManager(limits({ maxPositionsPerSymbol: 5 }), new VirtualClock(NOON));
+        assert.equal(risk.reserve('P1', 'BTCUSDT', 100).approved, true);
+        assert.equal(risk.reserve('P2', 'ETHUSDT', 100).approved, true);
+        assert.match(risk.reserve('P3', 'SOLUSDT', 100).reason ?? '', /Max concurrent positions reached \(2\)/);
+        // An agent's own reservation is replaced, not counted twice.
+        assert.equal(risk.reserve('P1', 'SOLUSDT', 100).approved, true);
+    });
+
+    it('caps positions per symbol', () => {
+        const risk = new RiskManager(limits(), new VirtualClock(NOON));
+        assert.equal(risk.reserve('P1', 'BTCUSDT', 100).approved, true);
+        const rejected = risk.reserve('P2', 'BTCUSDT', 100);
+        assert.equal(rejected.approved, false);
+        assert.equal(rejected.halt, undefined);
+        assert.match(rejected.reason ?? '', /Max positions in BTCUSDT reached \(1\)/);
+    });
+
+    it('caps the total notional, including the new order', () => {
+        const risk = new RiskManager(limits({ maxConcurrentPositions: 5 }), new VirtualClock(NOON));
+        assert.equal(risk.reserve('P1', 'BTCUSDT', 600).approved, true);
+        assert.match(risk.reserve('P2', 'ETHUSDT', 401).reason ?? '', /Max total notional would be exceeded: \$1001\.00/);
+        assert.equal(risk.reserve('P2', 'ETHUSDT', 400).approved, true);
+    });
+
+    it('frees a reservation on release and on close, and shrinks it on a scale-out', () => {
+        const risk = new RiskManager(limits({ maxConcurrentPositions: 1 }), new VirtualClock(NOON));
+        assert.equal(risk.reserve('P1', 'BTCUSDT', 100).approved, true);
+        assert.equal(risk.reserve('P2', 'ETHUSDT', 100).approved, false);
+        risk.release('P1');
+        assert.equal(risk.reserve('P2', 'ETHUSDT', 100).approved, true);
+        risk.recordClose('P2', 5);
+        assert.equal(risk.reserve('P1', 'BTCUSDT', 800).approved, true);
+
+        const notional = new RiskManager(limits(), new VirtualClock(NOON));
+        notional.registerPosition('P1', 'BTCUSDT', 800);
+        assert.equal(notional.reserve('P2', 'ETHUSDT', 300).approved, false);
+        notional.recordPartialClose('P1', 5, 400);
+        assert.equal(notional.reserve('P2', 'ETHUSDT', 300).approved, true);
+    });
+
+    it('applies new limits to the next check', () => {
+        const risk = new RiskManager(limits(), new VirtualClock(NOON));
+        risk.recordClose('P1', -40);
+        risk.setLimits(limits({ maxDailyLossPerAgent: 40 }));
+        assert.notEqual(risk.getHaltReason('P1'), null);
+    });
+});
+
+describe('mergeRiskLimits', () => {
+    it('updates the given limits and keeps the rest', () => {
+        assert.deepEqual(mergeRiskLimits(limits(), { maxTotalNotional: 500 }), { status: 'ok', limits: limits({ maxTotalNotional: 500 }) });
+    });
+
+    it('rejects unknown limits and anything but positive numbers', () => {
+        assert.equal(mergeRiskLimits(limits(), { maxLeverage: 5 }).status, 'rejected');
+        assert.equal(mergeRiskLimits(limits(), { maxTotalNotional: 0 }).status, 'rejected');
+        assert.equal(mergeRiskLimits(limits(), { maxTotalNotional: '500' }).status, 'rejected');
+        assert.equal(mergeRiskLimits(limits(), [1]).status, 'rejected');
+    });
+});
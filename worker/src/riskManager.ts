@@ -0,0 +1,193 @@
+import path from 'path';
+import { Clock, systemClock } from './clock';
+import { log } from './logger';
+import { toLedgerDate } from './tradeLogger';
+import { Trade } from './types';
+import { getDataDir, readJson, writeJsonAtomic } from './storage';
+
+export interface RiskLimits {
+    maxDailyLossPerAgent: number; // USD of realized loss per agent per ledger day
+    maxDailyLossGlobal: number; // USD of realized loss across all agents per ledger day
+    maxConcurrentPositions: number;
+    maxPositionsPerSymbol: number;
+    maxTotalNotional: number; // USD across all open positions
+}
+
+export interface RiskCheckResult {
+    approved: boolean;
+    reason?: string;
+    halt?: boolean; // The rejection is a daily loss halt rather than a transient limit
+}
+
+interface Exposure {
+    symbol: string;
+    notional: number;
+}
+
+const UNLIMITED: RiskLimits = {
+    maxDailyLossPerAgent: Infinity,
+    maxDailyLossGlobal: Infinity,
+    maxConcurrentPositions: Infinity,
+    maxPositionsPerSymbol: Infinity,
+    maxTotalNotional: Infinity,
+};
+
+const envNumber = (name: string, fallback: number) => {
+    const value = parseFloat(process.env[name] || '');
+    return Number.isFinite(value) ? value : fallback;
+};
+
+export const loadRiskLimitsFromEnv = (): RiskLimits => ({
+    maxDailyLossPerAgent: envNumber('RISK_MAX_DAILY_LOSS_PER_AGENT', 50),
+    maxDailyLossGlobal: envNumber('RISK_MAX_DAILY_LOSS_GLOBAL', 200),
+    maxConcurrentPositions: envNumber('RISK_MAX_CONCURRENT_POSITIONS', 5),
+    maxPositionsPerSymbol: envNumber('RISK_MAX_POSITIONS_PER_SYMBOL', 1),
+    maxTotalNotional: envNumber('RISK_MAX_TOTAL_NOTIONAL', 1000),
+});
+
+const getRiskLimitsFile = () => path.join(getDataDir(), 'risk-limits.json');
+
+// Limits saved by an admin take precedence over the environment.
+export const loadRiskLimits = (): RiskLimits => ({
+    ...loadRiskLimitsFromEnv(),
+    ...readJson<Partial<RiskLimits>>(getRiskLimitsFile()),
+});
+
+export const saveRiskLimits = (limits: RiskLimits) => writeJsonAtomic(getRiskLimitsFile(), limits);
+
+// Checks a (partial) update from the API against the current limits; every limit must be a positive number.
+export const mergeRiskLimits = (current: RiskLimits, update: unknown): { status: 'ok'; limits: RiskLimits } | { status: 'rejected'; reason: string } => {
+    if (typeof update !== 'object' || update === null || Array.isArray(update)) {
+        return { status: 'rejected', reason: 'Expected an object of risk limits.' };
+    }
+    const limits = { ...current };
+    for (const [key, value] of Object.entries(update)) {
+        if (!(key in current)) {
+            return { status: 'rejected', reason: `Unknown risk limit '${key}'.` };
+        }
+        if (typeof value !== 'number' || !(value > 0)) {
+            return { status: 'rejected', reason: `'${key}' must be a positive number.` };
+        }
+        limits[key as keyof RiskLimits] = value;
+    }
+    return { status: 'ok', limits };
+};
+
+/**
+ * Portfolio-level risk gate shared by all agents. Agents reserve exposure before placing an
+ * order (so two agents cannot both take the last slot), release it if the order fails, and
+ * report realized PnL when a position closes.
+ */
+export class RiskManager {
+    private exposures = new Map<string, Exposure>();
+    private realizedDay: string;
+    private realizedPnl = new Map<string, number>();
+
+    constructor(private limits: RiskLimits = UNLIMITED, private clock: Clock = systemClock) {
+        this.realizedDay = this.today();
+    }
+
+    getLimits(): RiskLimits {
+        return { ...this.limits };
+    }
+
+    // Applies to the next check; open positions are not affected.
+    setLimits(limits: RiskLimits) {
+        this.limits = { ...limits };
+    }
+
+    // Seeds today's realized PnL, e.g. from the trade ledger after a restart.
+    seedFromTrades(trades: Trade[]) {
+        this.rollDay();
+        for (const trade of trades) {
+            if (toLedgerDate(new Date(trade.timestamp)) === this.realizedDay) {
+                this.realizedPnl.set(trade.agentId, (this.realizedPnl.get(trade.agentId) ?? 0) + trade.pnl);
+            }
+        }
+    }
+
+    // Returns why the agent may not open new positions today, or null.
+    getHaltReason(agentId: string): string | null {
+        this.rollDay();
+        const agentLoss = -(this.realizedPnl.get(agentId) ?? 0);
+        if (agentLoss >= this.limits.maxDailyLossPerAgent) {
+            return `Daily loss limit reached for agent ${agentId}: -$${agentLoss.toFixed(2)} (limit $${this.limits.maxDailyLossPerAgent}).`;
+        }
+        const globalLoss = -[...this.realizedPnl.values()].reduce((sum, pnl) => sum + pnl, 0);
+        if (globalLoss >= this.limits.maxDailyLossGlobal) {
+            return `Global daily loss limit reached: -$${globalLoss.toFixed(2)} (limit $${this.limits.maxDailyLossGlobal}).`;
+        }
+        return null;
+    }
+
+    reserve(agentId: string, symbol: string, notional: number): RiskCheckResult {
+        const haltReason = this.getHaltReason(agentId);
+        if (haltReason) {
+            return { approved: false, reason: haltReason, halt: true };
+        }
+
+        const others = [...this.exposures.entries()].filter(([id]) => id !== agentId).map(([, e]) => e);
+        if (others.length >= this.limits.maxConcurrentPositions) {
+            return { approved: false, reason: `Max concurrent positions reached (${this.limits.maxConcurrentPositions}).` };
+        }
+        const sameSymbol = others.filter(e => e.symbol === symbol).length;
+        if (sameSymbol >= this.limits.maxPositionsPerSymbol) {
+            return { approved: false, reason: `Max positions in ${symbol} reached (${this.limits.maxPositionsPerSymbol}).` };
+        }
+        const totalNotional = others.reduce((sum, e) => sum + e.notional, 0);
+        if (totalNotional + notional > this.limits.maxTotalNotional) {
+            return {
+                approved: false,
+                reason: `Max total notional would be exceeded: $${(totalNotional + notional).toFixed(2)} (limit $${this.limits.maxTotalNotional}).`,
+            };
+        }
+
+        this.exposures.set(agentId, { symbol, notional });
+        return { approved: true };
+    }
+
+    // Tracks a position opened outside reserve(), e.g. one adopted after a restart.
+    registerPosition(agentId: string, symbol: string, notional: number) {
+        this.exposures.set(agentId, { symbol, notional });
+    }
+
+    release(agentId: string) {
+        this.exposures.delete(agentId);
+    }
+
+    recordClose(agentId: string, realizedPnl: number) {
+        this.exposures.delete(agentId);
+        this.bookPnl(agentId, realizedPnl);
+    }
+
+    // A scale-out leg: books its PnL and shrinks the exposure to what is still open.
+    recordPartialClose(agentId: string, realizedPnl: number, remainingNotional: number) {
+        const exposure = this.exposures.get(agentId);
+        if (exposure) {
+            this.exposures.set(agentId, { ...exposure, notional: remainingNotional });
+        }
+        this.bookPnl(agentId, realizedPnl);
+    }
+
+    private bookPnl(agentId: string, realizedPnl: number) {
+        this.rollDay();
+        this.realizedPnl.set(agentId, (this.realizedPnl.get(agentId) ?? 0) + realizedPnl);
+
+        const haltReason = this.getHaltReason(agentId);
+        if (haltReason) {
+            log('RISK', haltReason);
+        }
+    }
+
+    private today() {
+        return toLedgerDate(new Date(this.clock.now()));
+    }
+
+    private rollDay() {
+        const today = this.today();
+        if (today !== this.realizedDay) {
+            this.realizedDay = today;
+            this.realizedPnl.clear();
+        }
+    }
+}
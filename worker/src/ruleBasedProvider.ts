@@ -0,0 +1,64 @@
+import { DecisionProvider, DecisionResponse, HoldDecision, TradeDecision } from './decisionProvider';
+import { MAX_CANDIDATES } from './decisionPrompts';
+import { OrderSide, Position } from './types';
+
+export interface MomentumDecisionOptions {
+    minChangePct?: number; // Minimum 24h change to enter (default 3%)
+    takeProfitPnl?: number; // Close once unrealized PnL reaches this many USD (default 5)
+    stopLossPnl?: number; // Close once unrealized PnL falls to minus this many USD (default 5)
+}
+
+/**
+ * A deterministic stand-in for the model: proposes the strongest 24h movers, ranked by the size
+ * of the move (longing gainers, shorting losers where allowed), and closes on fixed PnL
+ * thresholds. No levels are proposed, so the strategy's fixed TP/SL apply. Useful as a baseline
+ * and for reproducible runs.
+ */
+export class MomentumDecisionProvider implements DecisionProvider {
+    readonly name = 'rules:momentum';
+    private minChangePct: number;
+    private takeProfitPnl: number;
+    private stopLossPnl: number;
+
+    constructor(options: MomentumDecisionOptions = {}) {
+        this.minChangePct = options.minChangePct ?? 3;
+        this.takeProfitPnl = options.takeProfitPnl ?? 5;
+        this.stopLossPnl = options.stopLossPnl ?? 5;
+    }
+
+    async getTradeDecision(_prompt: string, marketContext: string, allowedSides: OrderSide[]): Promise<DecisionResponse<TradeDecision>> {
+        const movers = marketContext
+            .split('\n')
+            .map(line => {
+                const match = line.match(/^(\w+), Price: [\d.eE+-]+, 24h Change: ([\d.eE+-]+)%/);
+                return match ? { symbol: match[1], change: parseFloat(match[2]) } : null;
+            })
+            .filter((t): t is { symbol: string; change: number } => t !== null)
+            .map(t => ({ ...t, side: t.change >= 0 ? OrderSide.LONG : OrderSide.SHORT }))
+            .filter(t => allowedSides.includes(t.side))
+            .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+        const candidates = movers
+            .filter(t => Math.abs(t.change) >= this.minChangePct)
+            .slice(0, MAX_CANDIDATES)
+            .map(t => ({
+                symbol: t.symbol,
+                side: t.side,
+                entryType: 'market' as const,
+                reason: `Strong 24h ${t.side === OrderSide.LONG ? 'gainer' : 'loser'} (${t.change > 0 ? '+' : ''}${t.change.toFixed(2)}%).`,
+                confidence: Math.abs(t.change) >= this.minChangePct * 2 ? 'high' as const : 'medium' as const,
+            }));
+
+        if (!candidates.length) {
+            const decision: TradeDecision = { candidates: [{ symbol: movers[0]?.symbol ?? '', reason: 'No symbol has enough momentum.', confidence: 'low' }] };
+            return { decision };
+        }
+        return { decision: { candidates } };
+    }
+
+    async getHoldDecision(_prompt: string, position: Position): Promise<DecisionResponse<HoldDecision>> {
+        if (position.unrealizedPnl >= this.takeProfitPnl || position.unrealizedPnl <= -this.stopLossPnl) {
+            return { decision: 'CLOSE' };
+        }
+        return { decision: 'HOLD' };
+    }
+}
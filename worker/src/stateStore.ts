@@ -0,0 +1,43 @@
+import path from 'path';
+import { AgentState, PendingEntry, Position } from './types';
+import { getDataDir, readJson, writeJsonAtomic } from './storage';
+
+// Everything needed to resume an agent after a worker restart.
+export interface AgentSnapshot {
+    agentId: string;
+    state: AgentState;
+    balance: number;
+    pnl: number;
+    longPnl?: number;
+    shortPnl?: number;
+    tradesToday: number;
+    tradesDay?: string; // Trading day tradesToday counts
+    rejectedDecisions?: number;
+    pauseRequested?: boolean;
+    haltReason?: string | null;
+    openPosition: Position | null;
+    pendingEntry?: PendingEntry | null;
+    updatedAt: string;
+}
+
+export interface AgentStateStore {
+    load(agentId: string): AgentSnapshot | null;
+    save(snapshot: AgentSnapshot): void;
+}
+
+const getSnapshotFile = (agentId: string) => path.join(getDataDir(), 'agents', `${agentId}.json`);
+
+// One JSON file per agent under <DATA_DIR>/agents, replaced atomically on every save.
+export const fileStateStore: AgentStateStore = {
+    load: (agentId) => readJson<AgentSnapshot>(getSnapshotFile(agentId)),
+    save: (snapshot) => writeJsonAtomic(getSnapshotFile(snapshot.agentId), snapshot),
+};
+
+// Keeps snapshots in memory only; used by backtests so they never touch live agent state.
+export const createMemoryStateStore = (): AgentStateStore => {
+    const snapshots = new Map<string, AgentSnapshot>();
+    return {
+        load: (agentId) => snapshots.get(agentId) ?? null,
+        save: (snapshot) => { snapshots.set(snapshot.agentId, snapshot); },
+    };
+};
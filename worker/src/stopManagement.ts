@@ -0,0 +1,75 @@
+import { atr } from './indicators';
+import { DEFAULT_ATR_INTERVAL, DEFAULT_ATR_PERIOD } from './positionSizing';
+import { Candle, OrderSide, StopManagementConfig } from './types';
+
+export interface ManagedStop {
+    stopLoss: number;
+    reason: string; // Which rule moved the stop, for the log and the positions table
+}
+
+// Candles to fetch for an ATR trail, or null when the trail (if any) does not need them.
+export const getTrailingCandleRequest = (config: StopManagementConfig) => {
+    const trailing = config.trailing;
+    if (trailing?.type !== 'atr') return null;
+    return {
+        interval: trailing.interval ?? DEFAULT_ATR_INTERVAL,
+        limit: (trailing.atrPeriod ?? DEFAULT_ATR_PERIOD) * 3 + 1,
+    };
+};
+
+/**
+ * Where the stop of a position should sit now under the strategy's stop management rules, or
+ * null if it should stay where it is. Each rule proposes a stop from the best price seen so far;
+ * the tightest proposal wins, and only if it tightens the current stop and still sits on the
+ * losing side of the current price (otherwise the exchange would reject it).
+ */
+export const computeManagedStop = (
+    config: StopManagementConfig,
+    side: OrderSide,
+    entryPrice: number,
+    currentStop: number | undefined,
+    bestPrice: number,
+    price: number,
+    candles?: Candle[],
+): ManagedStop | null => {
+    const direction = side === OrderSide.LONG ? 1 : -1;
+    const profitPct = direction * (bestPrice - entryPrice) / entryPrice * 100;
+    const fromEntry = (pct: number) => entryPrice * (1 + direction * pct / 100);
+    const proposals: ManagedStop[] = [];
+
+    if (config.breakEven && profitPct >= config.breakEven.triggerPct) {
+        const offsetPct = config.breakEven.offsetPct ?? 0;
+        proposals.push({ stopLoss: fromEntry(offsetPct), reason: `break-even after ${config.breakEven.triggerPct}%` });
+    }
+    for (const step of config.steps ?? []) {
+        if (profitPct >= step.profitPct) {
+            proposals.push({ stopLoss: fromEntry(step.stopPct), reason: `step: lock ${step.stopPct}% after ${step.profitPct}%` });
+        }
+    }
+    const trailing = config.trailing;
+    if (trailing && profitPct >= (trailing.activationPct ?? 0)) {
+        if (trailing.type === 'percent') {
+            proposals.push({
+                stopLoss: bestPrice * (1 - direction * trailing.distancePct / 100),
+                reason: `trailing ${trailing.distancePct}%`,
+            });
+        } else {
+            const value = atr(candles ?? [], trailing.atrPeriod ?? DEFAULT_ATR_PERIOD);
+            if (value !== null && value > 0) {
+                proposals.push({
+                    stopLoss: bestPrice - direction * trailing.atrMultiple * value,
+                    reason: `trailing ${trailing.atrMultiple} x ATR (${value.toPrecision(4)})`,
+                });
+            }
+        }
+    }
+
+    const tighter = (a: number, b: number) => direction * (a - b) > 0;
+    let best: ManagedStop | null = null;
+    for (const proposal of proposals) {
+        if (!tighter(price, proposal.stopLoss)) continue; // At or beyond the current price
+        if (currentStop !== undefined && !tighter(proposal.stopLoss, currentStop)) continue;
+        if (!best || tighter(proposal.stopLoss, best.stopLoss)) best = proposal;
+    }
+    return best;
+};
@@ -0,0 +1,20 @@
+import fs from 'fs';
+import path from 'path';
+
+// Read lazily: modules are loaded before dotenv populates process.env.
+export const getDataDir = () => path.resolve(process.env.DATA_DIR || 'data');
+
+// Writes via a temp file and rename so a crash never leaves a half-written file behind.
+// `mode` sets the file permissions, e.g. 0o600 for files only the worker may read.
+export const writeJsonAtomic = (file: string, value: unknown, mode?: number) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmpFile = `${file}.tmp`;
+    fs.rmSync(tmpFile, { force: true }); // A leftover temp file would keep its old permissions
+    fs.writeFileSync(tmpFile, JSON.stringify(value, null, 2), { mode });
+    fs.renameSync(tmpFile, file);
+};
+
+export const readJson = <T>(file: string): T | null => {
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+};
@@ -1,35 +1,108 @@
-import { Strategy, StrategyType } from './types';
+import { OrderSide, Strategy, StrategyType } from './types';
 
+// The initial strategies, served as version 1 until the first change is saved through the
+// /strategies API. After that, strategies.json under DATA_DIR is what agents run.
 export const strategies: Strategy[] = [
     // === PROFIT-SEEKING / TECHNICAL ANALYSIS ===
     {
         id: 'P1',
         name: 'P_TA_Momentum',
         type: StrategyType.PROFIT,
-        prompt: "Analyze the provided list of high-volume cryptocurrencies. Identify the one with the strongest sustained upward momentum over the past 4 hours, breaking through a recent resistance level. Prioritize assets showing increasing trade volume on the breakout."
+        prompt: "Analyze the provided list of high-volume cryptocurrencies. Identify the one with the strongest sustained upward momentum over the past 4 hours, breaking through a recent resistance level. Prioritize assets showing increasing trade volume on the breakout.",
+        context: [
+            { interval: '240', indicators: [{ type: 'ema', period: 20 }, { type: 'ema', period: 50 }, { type: 'rsi' }, { type: 'volumeZScore' }] },
+        ]
     },
     {
         id: 'P2',
         name: 'P_TA_MeanReversion',
         type: StrategyType.PROFIT,
-        prompt: "Scan the provided cryptocurrencies. Find an asset that is currently oversold on the 1-hour RSI (below 30) but is in a clear long-term uptrend (above the 200-period EMA on the daily chart). This is a dip-buying opportunity."
+        prompt: "Scan the provided cryptocurrencies. Find an asset that is currently oversold on the 1-hour RSI (below 30) but is in a clear long-term uptrend (above the 200-period EMA on the daily chart). This is a dip-buying opportunity.",
+        context: [
+            { interval: '60', indicators: [{ type: 'rsi' }] },
+            { interval: 'D', indicators: [{ type: 'ema', period: 200 }] },
+        ]
     },
     {
         id: 'P3',
         name: 'P_TA_VolatilityBreakout',
         type: StrategyType.PROFIT,
-        prompt: "Examine the provided crypto tickers. Identify an asset whose Bollinger Bands on the 4-hour chart have become extremely narrow, indicating a period of low volatility. The strategy is to buy on the first high-volume candle that closes outside the upper Bollinger Band."
+        prompt: "Examine the provided crypto tickers. Identify an asset whose Bollinger Bands on the 4-hour chart have become extremely narrow, indicating a period of low volatility. The strategy is to buy on the first high-volume candle that closes outside the upper Bollinger Band.",
+        context: [
+            { interval: '240', indicators: [{ type: 'bollinger' }, { type: 'atr' }, { type: 'volumeZScore' }] },
+        ]
     },
     {
         id: 'P4',
         name: 'P_TA_Contrarian',
         type: StrategyType.PROFIT,
-        prompt: "Find a coin from the list that everyone is panicking about, showing a sharp drop. However, identify if this drop is a liquidity grab, stopping just below a key support level and then showing signs of reversal. Recommend a long position at the point of maximum fear."
+        prompt: "Find a coin from the list that everyone is panicking about, showing a sharp drop. However, identify if this drop is a liquidity grab, stopping just below a key support level and then showing signs of reversal. Recommend a long position at the point of maximum fear.",
+        context: [
+            { interval: '60', indicators: [{ type: 'rsi' }, { type: 'volumeZScore' }] },
+            { interval: '240', indicators: [{ type: 'sma', period: 50 }, { type: 'atr' }] },
+        ]
     },
     {
         id: 'P5',
         name: 'P_TA_ChartPattern',
         type: StrategyType.PROFIT,
-        prompt: "Analyze the charts of the provided symbols. Identify a classic bullish chart pattern that has recently completed, such as an inverse head and shoulders or a bull flag on the 6-hour chart. The pattern must be well-defined and clear."
+        prompt: "Analyze the charts of the provided symbols. Identify a classic bullish chart pattern that has recently completed, such as an inverse head and shoulders or a bull flag on the 6-hour chart. The pattern must be well-defined and clear.",
+        context: [
+            { interval: '360', indicators: [{ type: 'ema', period: 20 }, { type: 'macd' }, { type: 'volumeZScore' }] },
+        ]
+    },
+
+    // === SHORT / LOSS-SIDE (BEARISH) ===
+    {
+        id: 'L1',
+        name: 'L_TA_Breakdown',
+        type: StrategyType.LOSS,
+        allowedSides: [OrderSide.SHORT],
+        prompt: "Analyze the provided list of high-volume cryptocurrencies. Identify the one with the strongest sustained downward momentum over the past 4 hours, breaking below a recent support level on rising volume. Recommend a short position on the breakdown.",
+        context: [
+            { interval: '240', indicators: [{ type: 'ema', period: 20 }, { type: 'ema', period: 50 }, { type: 'rsi' }, { type: 'volumeZScore' }] },
+        ]
+    },
+    {
+        id: 'L2',
+        name: 'L_TA_OverboughtFade',
+        type: StrategyType.LOSS,
+        allowedSides: [OrderSide.SHORT],
+        prompt: "Scan the provided cryptocurrencies. Find an asset that is overbought on the 1-hour RSI (above 70) while in a clear long-term downtrend (below the 200-period EMA on the daily chart). This is a rally-selling opportunity; recommend a short.",
+        context: [
+            { interval: '60', indicators: [{ type: 'rsi' }] },
+            { interval: 'D', indicators: [{ type: 'ema', period: 200 }] },
+        ]
+    },
+    {
+        id: 'L3',
+        name: 'L_TA_FailedBreakout',
+        type: StrategyType.LOSS,
+        allowedSides: [OrderSide.SHORT],
+        prompt: "Examine the provided crypto tickers. Identify an asset that recently broke above a key resistance level but quickly fell back below it on heavy volume, trapping late buyers. Recommend a short position on the failed breakout.",
+        context: [
+            { interval: '60', indicators: [{ type: 'bollinger' }, { type: 'volumeZScore' }] },
+            { interval: '240', indicators: [{ type: 'sma', period: 50 }] },
+        ]
+    },
+    {
+        id: 'L4',
+        name: 'L_TA_BearishPattern',
+        type: StrategyType.LOSS,
+        allowedSides: [OrderSide.SHORT],
+        prompt: "Analyze the charts of the provided symbols. Identify a classic bearish chart pattern that has recently completed, such as a head and shoulders top or a bear flag on the 6-hour chart. The pattern must be well-defined and clear. Recommend a short.",
+        context: [
+            { interval: '360', indicators: [{ type: 'ema', period: 20 }, { type: 'macd' }, { type: 'volumeZScore' }] },
+        ]
+    },
+    {
+        id: 'L5',
+        name: 'L_TA_TrendFollower',
+        type: StrategyType.LOSS,
+        prompt: "Identify the single asset from the list with the clearest, strongest trend over the past 24 hours in either direction. Go short if the trend is down and long if it is up, favouring the short side when the evidence is comparable.",
+        context: [
+            { interval: '240', indicators: [{ type: 'ema', period: 50 }, { type: 'macd' }, { type: 'atr' }] },
+            { interval: 'D', indicators: [{ type: 'ema', period: 20 }] },
+        ]
     },
 ];
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Agent } from './agent';
+import { VirtualClock } from './clock';
+import { DecisionProvider } from './decisionProvider';
+import { PaperExchangeClient } from './paperExchange';
+import { createMemoryStateStore } from './stateStore';
+import { strategies as defaultStrategies } from './strategies.config';
+import { deleteStrategy, getStrategy, getStrategyRecord, listStrategyRecords, saveStrategy } from './strategyStore';
+import { HistoricalMarketData } from './backtest/historicalData';
+import { Strategy, StrategyType } from './types';
+
+const definition = (overrides: Partial<Strategy> = {}): Strategy => ({
+    id: 'T1',
+    name: 'Test',
+    type: StrategyType.PROFIT,
+    prompt: 'Buy strength.',
+    ...overrides,
+});
+
+const readStoreFile = () => JSON.parse(fs.readFileSync(path.join(process.env.DATA_DIR!, 'strategies.json'), 'utf8'));
+
+describe('strategy store', () => {
+    before(() => {
+        // Each test file runs in its own process, so the store only ever sees this directory.
+        process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'strategy-store-'));
+    });
+
+    after(() => fs.rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+    it('serves the configured strategies as version 1 until a change is saved', () => {
+        assert.deepEqual(listStrategyRecords().map(r => r.id), defaultStrategies.map(s => s.id));
+        assert.ok(listStrategyRecords().every(r => r.versions.length === 1 && r.versions[0].createdBy === 'strategies.config'));
+        assert.equal(fs.existsSync(path.join(process.env.DATA_DIR!, 'strategies.json')), false);
+    });
+
+    it('adds a version on every change and none for an unchanged definition', () => {
+        const created = saveStrategy(definition(), 'alice');
+        assert.equal(created.status, 'ok');
+        assert.equal(created.status === 'ok' && created.version.version, 1);
+
+        const updated = saveStrategy(definition({ prompt: 'Buy breakouts.' }), 'bob');
+        assert.equal(updated.status === 'ok' && updated.version.version, 2);
+        assert.equal(updated.status === 'ok' && updated.version.createdBy, 'bob');
+        assert.equal(getStrategy('T1')?.prompt, 'Buy breakouts.');
+
+        const unchanged = saveStrategy(definition({ prompt: 'Buy breakouts.' }), 'carol');
+        assert.equal(unchanged.status === 'ok' && unchanged.version.version, 2);
+        assert.deepEqual(getStrategyRecord('T1')?.versions.map(v => v.strategy.prompt), ['Buy strength.', 'Buy breakouts.']);
+    });
+
+    it('rejects an invalid definition without saving anything', () => {
+        const saved = JSON.stringify(readStoreFile());
+        assert.deepEqual(saveStrategy(definition({ leverage: 500 }), 'alice'), { status: 'rejected', reason: 'leverage must be between 1 and 100.' });
+        assert.equal(saveStrategy({ ...definition(), id: 'no spaces' }, 'alice').status, 'rejected');
+        assert.equal(saveStrategy({ name: 'No ID' }, 'alice').status, 'rejected');
+        assert.equal(saveStrategy(null, 'alice').status, 'rejected');
+        assert.equal(JSON.stringify(readStoreFile()), saved);
+        assert.equal(getStrategyRecord('T1')?.versions.length, 2);
+    });
+
+    it('keeps the history of a deleted strategy and continues it when the strategy is restored', () => {
+        assert.equal(deleteStrategy('T1', 'alice'), true);
+        assert.equal(getStrategy('T1'), null);
+        assert.equal(deleteStrategy('T1', 'alice'), false);
+        assert.ok(!listStrategyRecords().some(r => r.id === 'T1'));
+        assert.ok(listStrategyRecords(true).some(r => r.id === 'T1'));
+
+        const restored = saveStrategy(definition({ prompt: 'Buy strength again.' }), 'bob');
+        assert.equal(restored.status === 'ok' && restored.version.version, 3);
+        assert.equal(getStrategyRecord('T1')?.deletedAt, undefined);
+    });
+
+    it('undoes a change that cannot be saved', () => {
+        // A directory where the temp file goes makes the write fail.
+        const tmpFile = path.join(process.env.DATA_DIR!, 'strategies.json.tmp');
+        fs.mkdirSync(path.join(tmpFile, 'blocked'), { recursive: true });
+        try {
+            assert.throws(() => saveStrategy(definition({ id: 'T2' }), 'alice'));
+            assert.throws(() => saveStrategy(definition({ prompt: 'Unsaved.' }), 'alice'));
+            assert.throws(() => deleteStrategy('T1', 'alice'));
+        } finally {
+            fs.rmSync(tmpFile, { recursive: true, force: true });
+        }
+        assert.equal(getStrategy('T2'), null);
+        assert.equal(getStrategy('T1')?.prompt, 'Buy strength again.');
+        assert.equal(getStrategyRecord('T1')?.versions.length, 3);
+    });
+
+    it('persists every record with its history for the next start', () => {
+        assert.deepEqual(readStoreFile().strategies, listStrategyRecords(true));
+    });
+});
+
+describe('Agent.updateStrategy', () => {
+    const noTrades: DecisionProvider = {
+        name: 'none',
+        getTradeDecision: async () => ({ decision: null }),
+        getHoldDecision: async () => ({ decision: 'HOLD' }),
+    };
+
+    it('applies a saved version from the next ANALYZING cycle', async () => {
+        const clock = new VirtualClock(60 * 1000);
+        const candles = [0, 1].map(i => ({ timestamp: i * 60 * 1000, open: 100, high: 100, low: 100, close: 100, volume: 1 }));
+        const market = new HistoricalMarketData([{ symbol: 'BTCUSDT', interval: 60 * 1000, candles }], clock);
+        const agent = new Agent(definition(), new PaperExchangeClient('T1', market, { clock }), {
+            clock,
+            decisionProvider: noTrades,
+            recordTrade: () => {},
+            recordDecision: () => {},
+            stateStore: createMemoryStateStore(),
+            tradeHistory: () => [],
+            publishEvent: () => {},
+            isTradingLocked: () => false,
+        });
+
+        await agent.start();
+        agent.updateStrategy(definition({ name: 'Test v2' }), 2);
+        assert.equal(agent.getStatus().name, 'Test');
+        await clock.advanceTo(clock.now());
+        assert.equal(agent.getStatus().name, 'Test v2');
+        agent.stop();
+    });
+});
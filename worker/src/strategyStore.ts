@@ -0,0 +1,103 @@
+import path from 'path';
+import { Strategy, StrategyRecord, StrategyVersion } from './types';
+import { getDataDir, readJson, writeJsonAtomic } from './storage';
+import { strategies as defaultStrategies } from './strategies.config';
+import { validateStrategy } from './strategyValidation';
+
+// Strategies and their full version history live in <DATA_DIR>/strategies.json. Until the first
+// change is saved, the defaults from strategies.config.ts are served as version 1 of each.
+interface StrategyStore {
+    strategies: StrategyRecord[];
+}
+
+export type StrategySaveResult =
+    | { status: 'ok'; record: StrategyRecord; version: StrategyVersion }
+    | { status: 'rejected'; reason: string };
+
+const getStrategyFile = () => path.join(getDataDir(), 'strategies.json');
+
+let store: StrategyStore | null = null;
+
+const loadStore = (): StrategyStore => {
+    if (!store) {
+        store = readJson<StrategyStore>(getStrategyFile()) ?? {
+            strategies: defaultStrategies.map(strategy => ({
+                id: strategy.id,
+                versions: [{ version: 1, createdAt: new Date().toISOString(), createdBy: 'strategies.config', strategy }],
+            })),
+        };
+    }
+    return store;
+};
+
+// Applies a change to the store and saves it. A change that cannot be saved is undone, so the
+// strategies served never run ahead of the file.
+const commit = (change: (current: StrategyStore) => void) => {
+    const previous = JSON.stringify(loadStore());
+    change(loadStore());
+    try {
+        writeJsonAtomic(getStrategyFile(), loadStore());
+    } catch (error) {
+        store = JSON.parse(previous) as StrategyStore;
+        throw error;
+    }
+};
+
+const latest = (record: StrategyRecord) => record.versions[record.versions.length - 1];
+
+export const listStrategyRecords = (includeDeleted = false): StrategyRecord[] =>
+    loadStore().strategies.filter(r => includeDeleted || !r.deletedAt);
+
+// Includes deleted strategies, whose history is kept.
+export const getStrategyRecord = (id: string): StrategyRecord | undefined =>
+    loadStore().strategies.find(r => r.id === id);
+
+// The current version of every strategy that has not been deleted.
+export const getStrategies = (): Strategy[] => listStrategyRecords().map(r => latest(r).strategy);
+
+export const getStrategy = (id: string): Strategy | null => {
+    const record = getStrategyRecord(id);
+    return record && !record.deletedAt ? latest(record).strategy : null;
+};
+
+/**
+ * Validates the definition and saves it as the next version of its strategy, creating the
+ * strategy (or restoring a deleted one, history intact) when needed. Saving a definition equal
+ * to the current version adds no version.
+ */
+export const saveStrategy = (definition: unknown, createdBy: string): StrategySaveResult => {
+    const validation = validateStrategy(definition);
+    if (validation.status === 'rejected') return validation;
+    const strategy = validation.strategy;
+
+    const current = getStrategyRecord(strategy.id);
+    if (current && !current.deletedAt && JSON.stringify(latest(current).strategy) === JSON.stringify(strategy)) {
+        return { status: 'ok', record: current, version: latest(current) };
+    }
+    const record: StrategyRecord = current ?? { id: strategy.id, versions: [] };
+    const version: StrategyVersion = {
+        version: record.versions.length + 1,
+        createdAt: new Date().toISOString(),
+        createdBy,
+        strategy,
+    };
+    commit(saved => {
+        if (!current) {
+            saved.strategies.push(record);
+        }
+        record.versions.push(version);
+        delete record.deletedAt;
+        delete record.deletedBy;
+    });
+    return { status: 'ok', record, version };
+};
+
+export const deleteStrategy = (id: string, deletedBy: string): boolean => {
+    const record = getStrategyRecord(id);
+    if (!record || record.deletedAt) return false;
+    commit(() => {
+        record.deletedAt = new Date().toISOString();
+        record.deletedBy = deletedBy;
+    });
+    return true;
+};
@@ -0,0 +1,205 @@
+import { KLINE_INTERVALS } from './candles';
+import { isEmptyWindow, parseTimeOfDay } from './tradingSchedule';
+import { Blackout, LevelBounds, OrderSide, ScaleOutLeg, Strategy, StrategyType, TradingWindow } from './types';
+
+export type StrategyValidation =
+    | { status: 'ok'; strategy: Strategy }
+    | { status: 'rejected'; reason: string };
+
+// Each check returns an error naming the offending setting by its path, or null when it is fine.
+type Check = (value: unknown, path: string) => string | null;
+type Fields = Record<string, Check>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const child = (path: string, key: string | number) =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const number = (min: number, max: number, description: string): Check => (value, path) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? null : `${path} must be ${description}.`;
+
+const positive: Check = (value, path) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : `${path} must be a positive number.`;
+
+const finite = number(-Infinity, Infinity, 'a number');
+const nonNegative = number(0, Infinity, 'zero or more');
+const percent: Check = (value, path) => positive(value, path) ?? number(0, 100, 'at most 100')(value, path);
+
+const positiveInteger: Check = (value, path) =>
+    Number.isInteger(value) && (value as number) > 0 ? null : `${path} must be a positive whole number.`;
+
+const nonNegativeInteger: Check = (value, path) =>
+    Number.isInteger(value) && (value as number) >= 0 ? null : `${path} must be a whole number, zero or more.`;
+
+const text: Check = (value, path) =>
+    typeof value === 'string' && value.trim().length > 0 ? null : `${path} must be a non-empty string.`;
+
+const boolean: Check = (value, path) => (typeof value === 'boolean' ? null : `${path} must be true or false.`);
+
+const timeOfDay: Check = (value, path) =>
+    typeof value === 'string' && parseTimeOfDay(value) !== null ? null : `${path} must be a UTC time as HH:MM.`;
+
+const timestamp: Check = (value, path) =>
+    typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : `${path} must be an ISO 8601 date and time.`;
+
+const oneOf = (values: readonly string[]): Check => (value, path) =>
+    values.includes(value as string) ? null : `${path} must be one of ${values.join(', ')}.`;
+
+const optional = (check: Check): Check => (value, path) => (value === undefined ? null : check(value, path));
+
+const arrayOf = (check: Check, minLength = 0): Check => (value, path) => {
+    if (!Array.isArray(value)) return `${path} must be a list.`;
+    if (value.length < minLength) return `${path} needs at least ${minLength} entr${minLength === 1 ? 'y' : 'ies'}.`;
+    for (const [index, item] of value.entries()) {
+        const error = check(item, child(path, index));
+        if (error) return error;
+    }
+    return null;
+};
+
+// Unknown keys are rejected so a misspelt setting is not silently ignored.
+const object = (fields: Fields): Check => (value, path) => {
+    if (!isObject(value)) return `${path || 'The strategy'} must be an object.`;
+    const unknown = Object.keys(value).find(key => !(key in fields));
+    if (unknown) return `${child(path, unknown)} is not a known setting.`;
+    for (const [key, check] of Object.entries(fields)) {
+        const error = check(value[key], child(path, key));
+        if (error) return error;
+    }
+    return null;
+};
+
+// An object whose `tag` field picks which other fields it may have.
+const variants = (tag: string, shapes: Record<string, Fields>): Check => (value, path) => {
+    if (!isObject(value)) return `${path} must be an object.`;
+    const shape = shapes[value[tag] as string];
+    if (!shape) return `${child(path, tag)} must be one of ${Object.keys(shapes).join(', ')}.`;
+    return object({ [tag]: () => null, ...shape })(value, path);
+};
+
+// Cross-field rules that the shape alone cannot express. The rule only sees values that passed
+// the check, so it may take them as the type the check describes.
+const refine = <T>(check: Check, rule: (value: T, path: string) => string | null): Check => (value, path) =>
+    check(value, path) ?? (value === undefined ? null : rule(value as T, path));
+
+const interval = oneOf(KLINE_INTERVALS);
+
+const sizing = variants('type', {
+    fixedNotional: { notional: positive },
+    percentOfBalance: { percent },
+    fixedFractional: { riskPercent: percent },
+    volatilityScaled: { riskPercent: percent, atrMultiple: positive, atrPeriod: optional(positiveInteger), interval: optional(interval) },
+    kelly: {
+        fraction: positive,
+        maxRiskPercent: percent,
+        lookbackTrades: optional(positiveInteger),
+        minTrades: optional(positiveInteger),
+        fallbackRiskPercent: percent,
+    },
+});
+
+const indicator = variants('type', {
+    rsi: { period: optional(positiveInteger) },
+    sma: { period: positiveInteger },
+    ema: { period: positiveInteger },
+    bollinger: { period: optional(positiveInteger), multiplier: optional(positive) },
+    atr: { period: optional(positiveInteger) },
+    macd: { fast: optional(positiveInteger), slow: optional(positiveInteger), signal: optional(positiveInteger) },
+    volumeZScore: { period: optional(positiveInteger) },
+});
+
+const decision = variants('provider', {
+    gemini: { model: optional(text) },
+    openai: { model: optional(text), baseUrl: optional(text) },
+    rules: { minChangePct: optional(positive), takeProfitPnl: optional(positive), stopLossPnl: optional(positive) },
+});
+
+const levelBounds = refine(object({
+    minStopLossPct: optional(positive),
+    maxStopLossPct: optional(positive),
+    minTakeProfitPct: optional(positive),
+    maxTakeProfitPct: optional(positive),
+}), (bounds: LevelBounds, path) => {
+    if (bounds.minStopLossPct !== undefined && bounds.maxStopLossPct !== undefined && bounds.minStopLossPct > bounds.maxStopLossPct) {
+        return `${path}.minStopLossPct must not exceed maxStopLossPct.`;
+    }
+    if (bounds.minTakeProfitPct !== undefined && bounds.maxTakeProfitPct !== undefined && bounds.minTakeProfitPct > bounds.maxTakeProfitPct) {
+        return `${path}.minTakeProfitPct must not exceed maxTakeProfitPct.`;
+    }
+    return null;
+});
+
+const entryOrder = object({
+    type: oneOf(['market', 'limit', 'postOnly']),
+    offsetBps: optional(nonNegative),
+    timeInForce: optional(oneOf(['GTC', 'IOC', 'FOK'])),
+    fillTimeoutSec: optional(positive),
+    maxReplaces: optional(nonNegativeInteger),
+});
+
+const stopManagement = object({
+    breakEven: optional(object({ triggerPct: positive, offsetPct: optional(finite) })),
+    steps: optional(arrayOf(object({ profitPct: positive, stopPct: finite }))),
+    trailing: optional(variants('type', {
+        percent: { distancePct: positive, activationPct: optional(nonNegative) },
+        atr: { atrMultiple: positive, atrPeriod: optional(positiveInteger), interval: optional(interval), activationPct: optional(nonNegative) },
+    })),
+});
+
+const scaleOut = refine(arrayOf(object({ profitPct: positive, closePct: percent })), (legs: ScaleOutLeg[], path) =>
+    legs.reduce((sum, leg) => sum + leg.closePct, 0) > 100 ? `${path} closes more than 100% of the position in total.` : null);
+
+const schedule = object({
+    timing: optional(object({
+        noTradeCooldownSec: optional(positive),
+        closeCooldownSec: optional(positive),
+        positionCheckSec: optional(positive),
+        holdCheckSec: optional(positive),
+        errorRetrySec: optional(positive),
+        errorPauseSec: optional(positive),
+        maxHoldMinutes: optional(positive),
+    })),
+    entryWindows: optional(arrayOf(refine(object({
+        days: optional(arrayOf((value, path) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6
+            ? null
+            : `${path} must be a weekday from 0 (Sunday) to 6.`, 1)),
+        start: timeOfDay,
+        end: timeOfDay,
+    }), (window: TradingWindow, path) =>
+        isEmptyWindow(window) ? `${path} starts and ends at the same time, so it is never open; use 00:00 to 24:00 for the whole day.` : null), 1)),
+    blackouts: optional(arrayOf(refine(object({ start: timestamp, end: timestamp, reason: optional(text), flatten: optional(boolean) }), (blackout: Blackout, path) =>
+        Date.parse(blackout.end) > Date.parse(blackout.start) ? null : `${path}.end must be after its start.`))),
+    maxTradesPerDay: optional(positiveInteger),
+    dayStartUtc: optional(timeOfDay),
+});
+
+const strategy = object({
+    id: (value, path) => typeof value === 'string' && /^[A-Za-z0-9_-]{1,32}$/.test(value)
+        ? null
+        : `${path} must be 1-32 letters, digits, dashes or underscores.`,
+    name: text,
+    type: oneOf(Object.values(StrategyType)),
+    prompt: text,
+    decision: optional(decision),
+    allowedSides: optional(arrayOf(oneOf(Object.values(OrderSide)), 1)),
+    context: optional(arrayOf(object({ interval, indicators: arrayOf(indicator) }))),
+    sizing: optional(sizing),
+    leverage: optional(number(1, 100, 'between 1 and 100')),
+    takeProfitPct: optional(positive),
+    stopLossPct: optional(positive),
+    levelBounds: optional(levelBounds),
+    entryOrder: optional(entryOrder),
+    stopManagement: optional(stopManagement),
+    scaleOut: optional(scaleOut),
+    schedule: optional(schedule),
+});
+
+/**
+ * Checks a strategy definition from the API against the Strategy type, including the settings'
+ * ranges. The reason names the first offending setting, e.g. "sizing.percent must be at most 100.".
+ */
+export const validateStrategy = (value: unknown): StrategyValidation => {
+    const error = strategy(value, '');
+    return error ? { status: 'rejected', reason: error } : { status: 'ok', strategy: value as Strategy };
+};
@@ -0,0 +1,118 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountEvent, ExchangeTicker } from './exchange';
+import { MockBybitServer } from './mockBybitServer';
+import { StreamManager } from './streamManager';
+
+const WAIT_TIMEOUT = 5000;
+
+const waitFor = async (condition: () => boolean, what: string) => {
+    const deadline = Date.now() + WAIT_TIMEOUT;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting for ${what}.`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+};
+
+const TICKER = { lastPrice: '100.5', markPrice: '100.4', price24hPcnt: '0.01', volume24h: '1000', turnover24h: '100000' };
+
+describe('StreamManager against the mock Bybit server', () => {
+    let server: MockBybitServer;
+    let streams: StreamManager;
+
+    before(() => {
+        server = new MockBybitServer(0);
+        streams = new StreamManager({ wsUrl: server.url });
+    });
+
+    after(async () => {
+        streams.close();
+        await server.close();
+    });
+
+    it('serves a ticker snapshot and merges the deltas that follow', async () => {
+        const received: ExchangeTicker[] = [];
+        const unsubscribe = streams.subscribeTicker('BTCUSDT', ticker => received.push(ticker));
+        await waitFor(() => server.countSubscribers('tickers.BTCUSDT') === 1, 'the ticker subscription');
+
+        // A delta before any snapshot has nothing to merge into.
+        server.publishTicker('BTCUSDT', { markPrice: '99' }, 'delta');
+        server.publishTicker('BTCUSDT', TICKER);
+        server.publishTicker('BTCUSDT', { lastPrice: '101' }, 'delta');
+        await waitFor(() => received.length === 2, 'two ticker updates');
+
+        assert.equal(received[0].lastPrice, '100.5');
+        assert.deepEqual(streams.getLatestTicker('BTCUSDT'), { symbol: 'BTCUSDT', ...TICKER, lastPrice: '101' });
+        assert.equal(streams.getLatestTicker('ETHUSDT'), null);
+
+        unsubscribe();
+        await waitFor(() => server.countSubscribers('tickers.BTCUSDT') === 0, 'the unsubscription');
+        assert.equal(streams.getLatestTicker('BTCUSDT'), null);
+    });
+
+    it('stops serving a ticker that has gone stale, so callers fall back to REST', async () => {
+        const unsubscribe = streams.subscribeTicker('SOLUSDT');
+        await waitFor(() => server.countSubscribers('tickers.SOLUSDT') === 1, 'the ticker subscription');
+        server.publishTicker('SOLUSDT', TICKER);
+        await waitFor(() => streams.getLatestTicker('SOLUSDT') !== null, 'the ticker');
+
+        const now = Date.now();
+        const clock = mock.method(Date, 'now', () => now + 11 * 1000);
+        try {
+            assert.equal(streams.getLatestTicker('SOLUSDT'), null);
+        } finally {
+            clock.mock.restore();
+        }
+        unsubscribe();
+    });
+
+    it('resubscribes its topics after the connection drops', async () => {
+        const received: ExchangeTicker[] = [];
+        const unsubscribe = streams.subscribeTicker('ETHUSDT', ticker => received.push(ticker));
+        await waitFor(() => server.countSubscribers('tickers.ETHUSDT') === 1, 'the ticker subscription');
+
+        server.dropConnections();
+        await waitFor(() => server.countSubscribers('tickers.ETHUSDT') === 0, 'the connection to drop');
+        await waitFor(() => server.countSubscribers('tickers.ETHUSDT') === 1, 'the resubscription');
+
+        server.publishTicker('ETHUSDT', TICKER);
+        await waitFor(() => received.length === 1, 'a ticker after the reconnect');
+        unsubscribe();
+    });
+
+    it("routes each account's position, order and execution updates to the agents trading it", async () => {
+        const first: AccountEvent[] = [];
+        const shared: AccountEvent[] = [];
+        const second: AccountEvent[] = [];
+        const unsubscribeFirst = streams.getAccountStream('P1', 'key-1', 'secret-1').subscribe(event => first.push(event));
+        const unsubscribeShared = streams.getAccountStream('P2', 'key-1', 'secret-1').subscribe(event => shared.push(event));
+        const unsubscribeSecond = streams.getAccountStream('P3', 'key-2', 'secret-2').subscribe(event => second.push(event));
+        // One connection per key, however many agents trade with it.
+        await waitFor(() => server.countSubscribers('execution') === 2, 'both private connections');
+
+        server.publish('execution', [
+            { category: 'linear', symbol: 'BTCUSDT', orderId: 'o1', orderLinkId: 'P1_abc_x0', side: 'Sell', execPrice: '101', execQty: '1', execFee: '0.05', execType: 'Trade', stopOrderType: '', execTime: '1', closedSize: '1' },
+            { category: 'spot', symbol: 'BTCUSDT', orderId: 'o2', side: 'Buy', execPrice: '101', execQty: '1', execFee: '0', execType: 'Trade', execTime: '1' },
+        ], 'snapshot', 'key-1');
+        server.publish('position', [{ category: 'linear', symbol: 'ETHUSDT', side: 'Buy', size: '2', entryPrice: '50', unrealisedPnl: '1', markPrice: '50.5', takeProfit: '', stopLoss: '', createdTime: '1' }], 'snapshot', 'key-2');
+        server.publish('order', [{ category: 'linear', orderId: 'o3', symbol: 'ETHUSDT', side: 'Buy', orderType: 'Limit', price: '49', qty: '1', cumExecQty: '0', orderStatus: 'New', timeInForce: 'GTC' }], 'snapshot', 'key-2');
+        await waitFor(() => first.length === 1 && shared.length === 1 && second.length === 2, 'the account updates');
+
+        assert.deepEqual(first, shared);
+        assert.deepEqual(first[0], {
+            type: 'execution',
+            execution: { symbol: 'BTCUSDT', orderId: 'o1', orderLinkId: 'P1_abc_x0', side: 'Sell', execPrice: '101', execQty: '1', execFee: '0.05', execType: 'Trade', stopOrderType: '', closedSize: '1', execTime: '1' },
+        });
+        assert.deepEqual(second.map(event => event.type), ['position', 'order']);
+        assert.equal(second[0].type === 'position' && second[0].position.avgPrice, '50');
+        assert.equal(second[1].type === 'order' && second[1].order.avgPrice, '');
+
+        // The key's connection closes once the last agent trading with it unsubscribes.
+        unsubscribeFirst();
+        unsubscribeShared();
+        await waitFor(() => server.countSubscribers('execution') === 1, 'the unused connection to close');
+        unsubscribeSecond();
+    });
+});
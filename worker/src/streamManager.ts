@@ -0,0 +1,220 @@
+import { DefaultLogger, WebsocketClient, WSAccountOrderV5, WSExecutionV5, WSPositionV5 } from 'bybit-api';
+import { log } from './logger';
+import { AccountEvent, AccountStream, ExchangeExecution, ExchangeOrder, ExchangePosition, ExchangeTicker, TickerStream } from './exchange';
+
+const TICKER_MAX_AGE = 10 * 1000; // Bybit pushes linear tickers every 100ms; older than this means the feed is stalled
+const PRIVATE_TOPICS = ['position', 'order', 'execution'];
+
+export interface StreamManagerOptions {
+    wsUrl?: string; // Overrides Bybit's endpoints for every connection, e.g. to use the mock server
+}
+
+interface TickerEntry {
+    ticker: ExchangeTicker | null;
+    receivedAt: number;
+    listeners: Set<(ticker: ExchangeTicker) => void>;
+}
+
+// A pushed update: a topic and its payload. The SDK types them as any, so they are narrowed here.
+interface StreamUpdate {
+    topic: string;
+    type?: string; // 'snapshot' | 'delta' on public topics
+    data?: unknown;
+}
+
+// The fields read from private stream items. Positions may carry avgPrice instead of entryPrice
+// (see toPosition); an execution without closedSize is taken as an opening fill.
+type PositionPayload = Pick<WSPositionV5, 'symbol' | 'side' | 'size' | 'unrealisedPnl' | 'markPrice' | 'takeProfit' | 'stopLoss' | 'createdTime'>
+    & { entryPrice?: string; avgPrice?: string };
+type OrderPayload = Pick<WSAccountOrderV5, 'orderId' | 'symbol' | 'side' | 'orderType' | 'price' | 'qty' | 'cumExecQty' | 'avgPrice' | 'orderStatus' | 'timeInForce'>;
+type ExecutionPayload = Pick<WSExecutionV5, 'symbol' | 'orderId' | 'orderLinkId' | 'side' | 'execPrice' | 'execQty' | 'execFee' | 'execType' | 'stopOrderType' | 'execTime'>
+    & { closedSize?: string };
+
+const isStreamUpdate = (message: unknown): message is StreamUpdate =>
+    typeof message === 'object' && message !== null && typeof (message as StreamUpdate).topic === 'string';
+
+// Routes the SDK's own logging to the worker log; its info and trace output is per-frame noise.
+const createSdkLogger = (source: string): DefaultLogger => ({
+    trace: () => {},
+    info: () => {},
+    error: (...params: unknown[]) => log(source, `Stream error: ${params.map(p => typeof p === 'string' ? p : JSON.stringify(p)).join(' ')}`),
+});
+
+const toPosition = (raw: PositionPayload): ExchangePosition => ({
+    symbol: raw.symbol,
+    side: raw.side,
+    size: raw.size,
+    // The position stream calls the average entry price entryPrice; REST calls it avgPrice.
+    avgPrice: raw.entryPrice ?? raw.avgPrice ?? '0',
+    unrealisedPnl: raw.unrealisedPnl,
+    markPrice: raw.markPrice,
+    takeProfit: raw.takeProfit,
+    stopLoss: raw.stopLoss,
+    createdTime: raw.createdTime,
+});
+
+const toOrder = (raw: OrderPayload): ExchangeOrder => ({
+    orderId: raw.orderId,
+    symbol: raw.symbol,
+    side: raw.side,
+    orderType: raw.orderType,
+    price: raw.price,
+    qty: raw.qty,
+    cumExecQty: raw.cumExecQty,
+    avgPrice: raw.avgPrice ?? '',
+    orderStatus: raw.orderStatus,
+    timeInForce: raw.timeInForce,
+});
+
+const toExecution = (raw: ExecutionPayload): ExchangeExecution => ({
+    symbol: raw.symbol,
+    orderId: raw.orderId,
+    orderLinkId: raw.orderLinkId,
+    side: raw.side,
+    execPrice: raw.execPrice,
+    execQty: raw.execQty,
+    execFee: raw.execFee,
+    execType: raw.execType,
+    stopOrderType: raw.stopOrderType,
+    closedSize: raw.closedSize ?? '0',
+    execTime: raw.execTime,
+});
+
+/**
+ * Shared Bybit WebSocket connections for the whole worker: one public connection carrying the
+ * tickers any agent is watching, and one private connection per API key carrying its position,
+ * order and execution updates. The SDK reconnects dropped connections and resubscribes their
+ * topics; a ticker is only served while updates keep arriving, so callers fall back to REST
+ * whenever the stream is down.
+ */
+export class StreamManager implements TickerStream {
+    private publicClient: WebsocketClient | null = null;
+    private tickers = new Map<string, TickerEntry>();
+    private accounts = new Map<string, { client: WebsocketClient; listeners: Set<(event: AccountEvent) => void> }>();
+
+    constructor(private options: StreamManagerOptions = {}) {}
+
+    subscribeTicker(symbol: string, listener?: (ticker: ExchangeTicker) => void): () => void {
+        let entry = this.tickers.get(symbol);
+        if (!entry) {
+            entry = { ticker: null, receivedAt: 0, listeners: new Set() };
+            this.tickers.set(symbol, entry);
+            this.getPublicClient().subscribeV5(`tickers.${symbol}`, 'linear');
+        }
+        // Each subscription gets its own wrapper, so the same listener can be subscribed twice.
+        const wrapped = (ticker: ExchangeTicker) => listener?.(ticker);
+        entry.listeners.add(wrapped);
+
+        return () => {
+            const current = this.tickers.get(symbol);
+            if (!current) return;
+            current.listeners.delete(wrapped);
+            if (current.listeners.size === 0) {
+                this.tickers.delete(symbol);
+                this.publicClient?.unsubscribeV5(`tickers.${symbol}`, 'linear');
+            }
+        };
+    }
+
+    getLatestTicker(symbol: string): ExchangeTicker | null {
+        const entry = this.tickers.get(symbol);
+        if (!entry?.ticker || Date.now() - entry.receivedAt > TICKER_MAX_AGE) return null;
+        return entry.ticker;
+    }
+
+    // One stream per API key; agents trading the same account share it.
+    getAccountStream(source: string, apiKey: string, apiSecret: string): AccountStream {
+        let account = this.accounts.get(apiKey);
+        if (!account) {
+            const client = new WebsocketClient({ key: apiKey, secret: apiSecret, wsUrl: this.options.wsUrl }, createSdkLogger(source));
+            const listeners = new Set<(event: AccountEvent) => void>();
+            this.watchConnection(client, source);
+            client.on('update', message => {
+                for (const event of this.toAccountEvents(message)) {
+                    for (const listener of [...listeners]) {
+                        try {
+                            listener(event);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                            log(source, `Error handling ${event.type} update: ${errorMessage}`);
+                        }
+                    }
+                }
+            });
+            client.subscribeV5(PRIVATE_TOPICS, 'linear', true);
+            account = { client, listeners };
+            this.accounts.set(apiKey, account);
+            log(source, 'Subscribed to private position, order and execution streams.');
+        }
+
+        const { client, listeners } = account;
+        return {
+            subscribe: listener => {
+                listeners.add(listener);
+                return () => {
+                    listeners.delete(listener);
+                    // Nobody trades with this key any more (e.g. it was revoked); drop its connection.
+                    if (listeners.size === 0 && this.accounts.get(apiKey)?.client === client) {
+                        client.closeAll(true);
+                        this.accounts.delete(apiKey);
+                        log(source, 'Closed private streams for an API key that is no longer used.');
+                    }
+                };
+            },
+        };
+    }
+
+    close() {
+        this.publicClient?.closeAll(true);
+        this.publicClient = null;
+        this.tickers.clear();
+        for (const { client } of this.accounts.values()) {
+            client.closeAll(true);
+        }
+        this.accounts.clear();
+    }
+
+    private getPublicClient(): WebsocketClient {
+        if (!this.publicClient) {
+            const client = new WebsocketClient({ wsUrl: this.options.wsUrl }, createSdkLogger('STREAM'));
+            this.watchConnection(client, 'STREAM');
+            client.on('update', message => this.onTickerMessage(message));
+            this.publicClient = client;
+        }
+        return this.publicClient;
+    }
+
+    // Linear tickers arrive as a snapshot followed by deltas holding only the changed fields.
+    private onTickerMessage(message: unknown) {
+        if (!isStreamUpdate(message) || !message.topic.startsWith('tickers.')) return;
+        const entry = this.tickers.get(message.topic.slice('tickers.'.length));
+        if (!entry) return;
+
+        const ticker = { ...(message.type === 'snapshot' ? {} : entry.ticker), ...(message.data as Partial<ExchangeTicker>) } as ExchangeTicker;
+        if (!ticker.lastPrice) return; // A delta before any snapshot
+        entry.ticker = ticker;
+        entry.receivedAt = Date.now();
+        for (const listener of [...entry.listeners]) {
+            listener(ticker);
+        }
+    }
+
+    private toAccountEvents(message: unknown): AccountEvent[] {
+        if (!isStreamUpdate(message) || !Array.isArray(message.data)) return [];
+        // Private topics carry every product category; agents only trade linear contracts.
+        const linear = (message.data as { category?: string }[]).filter(item => !item.category || item.category === 'linear');
+        switch (message.topic) {
+            case 'position': return (linear as PositionPayload[]).map(item => ({ type: 'position', position: toPosition(item) }));
+            case 'order': return (linear as OrderPayload[]).map(item => ({ type: 'order', order: toOrder(item) }));
+            case 'execution': return (linear as ExecutionPayload[]).map(item => ({ type: 'execution', execution: toExecution(item) }));
+            default: return [];
+        }
+    }
+
+    private watchConnection(client: WebsocketClient, source: string) {
+        client.on('open', ({ wsKey }) => log(source, `Stream ${wsKey} connected.`));
+        client.on('reconnect', ({ wsKey }) => log(source, `Stream ${wsKey} dropped. Reconnecting...`));
+        client.on('reconnected', ({ wsKey }) => log(source, `Stream ${wsKey} reconnected.`));
+        client.on('exception', error => log(source, `Stream exception: ${JSON.stringify(error)}`));
+    }
+}
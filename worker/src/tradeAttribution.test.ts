@@ -0,0 +1,197 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExchangeExecution } from './exchange';
+import { buildOrderLinkId } from './orderLinkId';
+import { isExitOfTrade, settleFromExecutions } from './tradeAttribution';
+import { OrderSide, Position } from './types';
+
+const AGENT = 'P1';
+const TRADE = '3f2a9c41-d0b7-4e11-9a8b-5c6d7e8f9a0b';
+
+const assertClose = (actual: number | undefined, expected: number) =>
+    assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+const fill = (overrides: Partial<ExchangeExecution>): ExchangeExecution => ({
+    symbol: 'BTCUSDT',
+    orderId: 'order',
+    orderLinkId: '',
+    side: 'Sell',
+    execPrice: '100',
+    execQty: '1',
+    execFee: '0',
+    execType: 'Trade',
+    closedSize: '0',
+    execTime: '1',
+    ...overrides,
+});
+
+const entryFill = (orderId: string, n: number, qty: number, price: number, fee: number, time = 1) => fill({
+    orderId,
+    orderLinkId: buildOrderLinkId(AGENT, TRADE, 'entry', n),
+    side: 'Buy',
+    execPrice: price.toString(),
+    execQty: qty.toString(),
+    execFee: fee.toString(),
+    execTime: time.toString(),
+});
+
+const exitFill = (orderId: string, qty: number, price: number, fee: number, time: number, overrides: Partial<ExchangeExecution> = {}) => fill({
+    orderId,
+    execPrice: price.toString(),
+    execQty: qty.toString(),
+    execFee: fee.toString(),
+    closedSize: qty.toString(),
+    execTime: time.toString(),
+    ...overrides,
+});
+
+const takeProfit = (orderId: string, qty: number, price: number, fee: number, time: number) =>
+    exitFill(orderId, qty, price, fee, time, { stopOrderType: 'TakeProfit' });
+
+const position = (overrides: Partial<Position> = {}): Position => ({
+    symbol: 'BTCUSDT',
+    side: OrderSide.LONG,
+    entryPrice: 100,
+    size: 1,
+    unrealizedPnl: 0,
+    agentId: AGENT,
+    entryTimestamp: 0,
+    tradeId: TRADE,
+    ...overrides,
+});
+
+describe('settleFromExecutions', () => {
+    it('prices a close from partially filled entry orders and a triggered take profit', () => {
+        const settlement = settleFromExecutions([
+            entryFill('e0', 0, 1, 100, 0.1),
+            entryFill('e1', 1, 1, 102, 0.1, 2),
+            takeProfit('tp', 2, 110, 0.2, 5),
+        ], AGENT, position({ size: 2, decisionPrice: 100 }), { size: 2, fundingSince: 0 });
+
+        assert.ok(settlement);
+        assertClose(settlement.size, 2);
+        assertClose(settlement.entryPrice, 101);
+        assertClose(settlement.closePrice, 110);
+        assertClose(settlement.fees, 0.4);
+        assertClose(settlement.pnl, 9 * 2 - 0.4);
+        assertClose(settlement.slippageBps, 100);
+        assert.deepEqual(settlement.entryOrderIds, ['e0', 'e1']);
+        assert.deepEqual(settlement.exitOrderIds, ['tp']);
+        assert.equal(settlement.closedAt, 5);
+    });
+
+    it('averages an exit split over several fills', () => {
+        const exitLink = buildOrderLinkId(AGENT, TRADE, 'exit', 0);
+        const settlement = settleFromExecutions([
+            entryFill('e0', 0, 2, 100, 0.2),
+            exitFill('x0', 1, 110, 0.1, 3, { orderLinkId: exitLink }),
+            exitFill('x0', 1, 112, 0.1, 4, { orderLinkId: exitLink }),
+        ], AGENT, position({ size: 2 }), { size: 2, fundingSince: 0 });
+
+        assert.ok(settlement);
+        assertClose(settlement.closePrice, 111);
+        assertClose(settlement.fees, 0.4);
+        assertClose(settlement.pnl, 11 * 2 - 0.4);
+        assert.deepEqual(settlement.exitOrderIds, ['x0']);
+    });
+
+    it('takes exit fills only up to the requested size, with the matching share of fees', () => {
+        const settlement = settleFromExecutions([
+            entryFill('e0', 0, 2, 100, 0.2),
+            exitFill('x0', 2, 110, 0.2, 3, { orderLinkId: buildOrderLinkId(AGENT, TRADE, 'exit', 0) }),
+        ], AGENT, position({ size: 1.5 }), { size: 1.5, fundingSince: 0 });
+
+        assert.ok(settlement);
+        assertClose(settlement.size, 1.5);
+        assertClose(settlement.fees, 0.15 + 0.15);
+        assertClose(settlement.pnl, 10 * 1.5 - 0.3);
+    });
+
+    it('books a scale-out leg by its order, then skips it when settling the rest', () => {
+        const executions = [
+            entryFill('e0', 0, 2, 100, 0.2),
+            exitFill('s0', 1, 105, 0.1, 3, { orderLinkId: buildOrderLinkId(AGENT, TRADE, 'scaleOut', 0) }),
+            takeProfit('tp', 1, 110, 0.1, 5),
+        ];
+
+        const leg = settleFromExecutions(executions, AGENT, position({ size: 2 }), { size: 1, exitOrderId: 's0', fundingSince: 0 });
+        assert.ok(leg);
+        assertClose(leg.closePrice, 105);
+        assertClose(leg.fees, 0.1 + 0.1);
+        assertClose(leg.pnl, 5 - 0.2);
+
+        const rest = settleFromExecutions(executions, AGENT, position({
+            size: 1,
+            legs: [{ timestamp: 3, size: 1, closePrice: 105, pnl: leg.pnl, reason: 'scale-out', orderId: 's0' }],
+        }), { size: 1, fundingSince: 3 });
+        assert.ok(rest);
+        assertClose(rest.closePrice, 110);
+        assertClose(rest.fees, 0.1 + 0.1);
+        assertClose(rest.pnl, 10 - 0.2);
+        assert.deepEqual(rest.exitOrderIds, ['tp']);
+    });
+
+    it('charges funding settled while the part was open, pro rata to its share of the position', () => {
+        const settlement = settleFromExecutions([
+            entryFill('e0', 0, 1, 100, 0.1),
+            fill({ orderId: 'f1', execType: 'Funding', execQty: '2', execFee: '0.5', execTime: '2' }), // At fundingSince: earlier part's
+            fill({ orderId: 'f2', execType: 'Funding', execQty: '2', execFee: '0.04', execTime: '3' }), // Shared with another trade
+            fill({ orderId: 'f3', execType: 'Funding', execQty: '1', execFee: '-0.01', execTime: '4' }), // Received
+            takeProfit('tp', 1, 110, 0.1, 5),
+            fill({ orderId: 'f4', execType: 'Funding', execQty: '1', execFee: '0.3', execTime: '6' }), // After the close
+        ], AGENT, position(), { size: 1, fundingSince: 2 });
+
+        assert.ok(settlement);
+        assertClose(settlement.fundingPaid, 0.02 - 0.01);
+        assertClose(settlement.pnl, 10 - 0.2 - 0.01);
+    });
+
+    it("ignores other agents', other trades' and manual orders", () => {
+        const executions = [
+            entryFill('e0', 0, 1, 100, 0.1),
+            exitFill('other-agent', 1, 90, 0.1, 3, { orderLinkId: buildOrderLinkId('P2', TRADE, 'exit', 0) }),
+            exitFill('other-trade', 1, 91, 0.1, 3, { orderLinkId: buildOrderLinkId(AGENT, '00000000-0000-4000-8000-000000000000', 'exit', 0) }),
+            exitFill('manual', 1, 92, 0.1, 3, { orderLinkId: 'my-manual-close' }),
+        ];
+        assert.equal(settleFromExecutions(executions, AGENT, position(), { size: 1, fundingSince: 0 }), null);
+
+        const settlement = settleFromExecutions([...executions, takeProfit('tp', 1, 110, 0.1, 4)], AGENT, position(), { size: 1, fundingSince: 0 });
+        assert.ok(settlement);
+        assert.deepEqual(settlement.exitOrderIds, ['tp']);
+    });
+
+    it('falls back to the position entry price without entry fills', () => {
+        const settlement = settleFromExecutions([takeProfit('tp', 1, 110, 0.1, 4)], AGENT, position({ entryPrice: 104, decisionPrice: 100 }), { size: 1, fundingSince: 0 });
+        assert.ok(settlement);
+        assertClose(settlement.entryPrice, 104);
+        assertClose(settlement.fees, 0.1);
+        assert.equal(settlement.slippageBps, undefined);
+        assert.deepEqual(settlement.entryOrderIds, []);
+    });
+
+    it('prices a short, with slippage positive when the entry filled below the decision price', () => {
+        const settlement = settleFromExecutions([
+            fill({ ...entryFill('e0', 0, 1, 100, 0.1), side: 'Sell' }),
+            takeProfit('tp', 1, 90, 0.1, 5),
+        ], AGENT, position({ side: OrderSide.SHORT, decisionPrice: 101 }), { size: 1, fundingSince: 0 });
+
+        assert.ok(settlement);
+        assertClose(settlement.pnl, 10 - 0.2);
+        assertClose(settlement.slippageBps, (1 / 101) * 10000);
+    });
+});
+
+describe('isExitOfTrade', () => {
+    it("accepts the trade's own closes and orders the exchange created", () => {
+        assert.equal(isExitOfTrade(exitFill('x', 1, 100, 0, 1, { orderLinkId: buildOrderLinkId(AGENT, TRADE, 'exit', 2) }), AGENT, TRADE), true);
+        assert.equal(isExitOfTrade(exitFill('s', 1, 100, 0, 1, { orderLinkId: buildOrderLinkId(AGENT, TRADE, 'scaleOut', 0) }), AGENT, TRADE), true);
+        assert.equal(isExitOfTrade(takeProfit('tp', 1, 100, 0, 1), AGENT, TRADE), true);
+        assert.equal(isExitOfTrade(exitFill('liq', 1, 100, 0, 1, { execType: 'BustTrade' }), AGENT, TRADE), true);
+    });
+
+    it('rejects entries, manual orders and untagged market fills', () => {
+        assert.equal(isExitOfTrade(entryFill('e0', 0, 1, 100, 0), AGENT, TRADE), false);
+        assert.equal(isExitOfTrade(exitFill('m', 1, 100, 0, 1, { orderLinkId: 'manual' }), AGENT, TRADE), false);
+        assert.equal(isExitOfTrade(exitFill('m', 1, 100, 0, 1), AGENT, TRADE), false);
+    });
+});
@@ -0,0 +1,122 @@
+import { ExchangeExecution } from './exchange';
+import { getOrderRole } from './orderLinkId';
+import { OrderSide, Position } from './types';
+
+// Orders the exchange creates for a position: triggered TP/SL levels, and forced closes.
+const EXCHANGE_EXIT_ORDER_TYPES = ['TakeProfit', 'StopLoss', 'TrailingStop', 'PartialTakeProfit', 'PartialStopLoss', 'tpslOrder'];
+const FORCED_EXIT_EXEC_TYPES = ['BustTrade', 'AdlTrade', 'Delivery', 'Settle'];
+
+// A closed part of a position, priced from its fills.
+export interface FillSettlement {
+    size: number; // Closed size matched to exit fills; less than asked when fills are missing
+    entryPrice: number; // Average entry fill, or the position's entry price without entry fills
+    closePrice: number; // Average exit fill
+    fees: number; // Exit fees plus this part's share of the entry fees
+    fundingPaid: number; // Negative when received
+    pnl: number; // After fees and funding
+    entryOrderIds: string[];
+    exitOrderIds: string[];
+    slippageBps?: number; // Average entry fill vs the decision price; positive is worse
+    closedAt: number; // Time of the last exit fill (ms)
+}
+
+export interface SettlementRequest {
+    size: number; // Size being closed
+    exitOrderId?: string; // Only this order's fills, e.g. a scale-out leg; otherwise any exit of the trade not yet booked
+    fundingSince: number; // Funding settled after this time (ms) is charged to this part
+}
+
+interface FillTotals {
+    qty: number;
+    value: number;
+    fees: number;
+    orderIds: string[];
+    lastTime: number;
+}
+
+const emptyTotals = (): FillTotals => ({ qty: 0, value: 0, fees: 0, orderIds: [], lastTime: 0 });
+
+// Counts `qty` of the fill, with the matching share of its fee.
+const addFill = (totals: FillTotals, execution: ExchangeExecution, qty: number) => {
+    totals.qty += qty;
+    totals.value += qty * parseFloat(execution.execPrice);
+    totals.fees += parseFloat(execution.execFee) * qty / parseFloat(execution.execQty);
+    if (!totals.orderIds.includes(execution.orderId)) totals.orderIds.push(execution.orderId);
+    totals.lastTime = Math.max(totals.lastTime, parseInt(execution.execTime, 10));
+};
+
+/**
+ * Whether a position-reducing fill closed the given trade: one of the agent's own close or
+ * scale-out orders for it, or an order the exchange created (a triggered TP/SL, a liquidation).
+ * Manual orders and other agents' orders on the same symbol are someone else's.
+ */
+export const isExitOfTrade = (execution: ExchangeExecution, agentId: string, tradeId: string | undefined): boolean => {
+    const role = tradeId ? getOrderRole(execution.orderLinkId, agentId, tradeId) : null;
+    if (role === 'exit' || role === 'scaleOut') return true;
+    if (execution.orderLinkId) return false;
+    return EXCHANGE_EXIT_ORDER_TYPES.includes(execution.stopOrderType ?? '') || FORCED_EXIT_EXEC_TYPES.includes(execution.execType);
+};
+
+/**
+ * Prices (part of) a position's close from the account's executions in its symbol, oldest
+ * first. Entry fills are the trade's own entry orders, found by orderLinkId. Exit fills are
+ * taken in order until the requested size is matched, skipping orders already booked as
+ * scale-out legs. Funding is charged pro rata when the symbol's position is shared with
+ * other trades. Returns null when no exit fill is found.
+ */
+export const settleFromExecutions = (
+    executions: ExchangeExecution[],
+    agentId: string,
+    position: Position,
+    request: SettlementRequest,
+): FillSettlement | null => {
+    const bookedOrderIds = (position.legs ?? []).map(leg => leg.orderId);
+    const entry = emptyTotals();
+    const exit = emptyTotals();
+    const funding: ExchangeExecution[] = [];
+
+    for (const execution of executions) {
+        if (execution.execType === 'Funding') {
+            funding.push(execution);
+            continue;
+        }
+        if (position.tradeId && getOrderRole(execution.orderLinkId, agentId, position.tradeId) === 'entry') {
+            addFill(entry, execution, parseFloat(execution.execQty));
+            continue;
+        }
+        const closedSize = parseFloat(execution.closedSize);
+        const remaining = request.size - exit.qty;
+        if (!(closedSize > 0) || remaining <= 1e-12) continue;
+        const matches = request.exitOrderId
+            ? execution.orderId === request.exitOrderId
+            : !bookedOrderIds.includes(execution.orderId) && isExitOfTrade(execution, agentId, position.tradeId);
+        if (matches) {
+            addFill(exit, execution, Math.min(closedSize, remaining));
+        }
+    }
+    if (exit.qty === 0) return null;
+
+    const direction = position.side === OrderSide.LONG ? 1 : -1;
+    const entryPrice = entry.qty > 0 ? entry.value / entry.qty : position.entryPrice;
+    const closePrice = exit.value / exit.qty;
+    const entryFees = entry.qty > 0 ? entry.fees * exit.qty / entry.qty : 0;
+    const fundingPaid = funding
+        .filter(f => parseInt(f.execTime, 10) > request.fundingSince && parseInt(f.execTime, 10) <= exit.lastTime)
+        .reduce((sum, f) => sum + parseFloat(f.execFee) * Math.min(1, position.size / parseFloat(f.execQty)), 0);
+    const fees = entryFees + exit.fees;
+
+    return {
+        size: exit.qty,
+        entryPrice,
+        closePrice,
+        fees,
+        fundingPaid,
+        pnl: direction * (closePrice - entryPrice) * exit.qty - fees - fundingPaid,
+        entryOrderIds: entry.orderIds,
+        exitOrderIds: exit.orderIds,
+        slippageBps: entry.qty > 0 && position.decisionPrice
+            ? direction * (entryPrice - position.decisionPrice) / position.decisionPrice * 10000
+            : undefined,
+        closedAt: exit.lastTime,
+    };
+};
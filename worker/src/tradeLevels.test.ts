@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TradeCandidate } from './decisionProvider';
+import { resolveTradeLevels } from './tradeLevels';
+import { OrderSide, Strategy, StrategyType } from './types';
+
+const assertClose = (actual: number, expected: number) =>
+    assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+const strategy = (overrides: Partial<Strategy> = {}): Strategy => ({ id: 'P1', name: 'Test', type: StrategyType.PROFIT, prompt: 'Test strategy.', ...overrides });
+
+const candidate = (levels: Pick<TradeCandidate, 'stopLoss' | 'takeProfit'>): TradeCandidate => ({ symbol: 'BTCUSDT', reason: 'Breakout.', confidence: 'high', ...levels });
+
+// Reward over risk, as distances from the entry.
+const rewardToRisk = (entryPrice: number, levels: { takeProfitPrice: number; stopLossPrice: number }) =>
+    Math.abs(levels.takeProfitPrice - entryPrice) / Math.abs(entryPrice - levels.stopLossPrice);
+
+describe('resolveTradeLevels', () => {
+    it("uses the model's levels, and so its reward:risk, when they are inside the bounds", () => {
+        const levels = resolveTradeLevels(strategy(), OrderSide.LONG, 100, candidate({ stopLoss: 97, takeProfit: 106 }));
+        assertClose(levels.stopLossPrice, 97);
+        assertClose(levels.takeProfitPrice, 106);
+        assertClose(rewardToRisk(100, levels), 2);
+        assert.equal(levels.detail, 'SL 3.00% (model), TP 6.00% (model)');
+    });
+
+    it('mirrors the levels of a short', () => {
+        const levels = resolveTradeLevels(strategy(), OrderSide.SHORT, 100, candidate({ stopLoss: 102, takeProfit: 95 }));
+        assertClose(levels.stopLossPrice, 102);
+        assertClose(levels.takeProfitPrice, 95);
+        assertClose(rewardToRisk(100, levels), 2.5);
+    });
+
+    it("bounds levels outside the strategy's distances, which changes the reward:risk", () => {
+        // A 25% stop is cut to the default maximum of 10%, and a 0.2% target raised to the minimum of 0.5%.
+        const levels = resolveTradeLevels(strategy(), OrderSide.LONG, 100, candidate({ stopLoss: 75, takeProfit: 100.2 }));
+        assertClose(levels.stopLossPrice, 90);
+        assertClose(levels.takeProfitPrice, 100.5);
+        assert.match(levels.detail, /SL 10\.00% \(model, bounded from 25\.00%\)/);
+
+        const tight = resolveTradeLevels(strategy({ levelBounds: { maxStopLossPct: 2, minTakeProfitPct: 4 } }), OrderSide.LONG, 100, candidate({ stopLoss: 95, takeProfit: 103 }));
+        assertClose(tight.stopLossPrice, 98);
+        assertClose(tight.takeProfitPrice, 104);
+        assertClose(rewardToRisk(100, tight), 2);
+    });
+
+    it("falls back to the strategy's percentages for levels the model left out", () => {
+        const levels = resolveTradeLevels(strategy({ stopLossPct: 2, takeProfitPct: 5 }), OrderSide.LONG, 200, candidate({ takeProfit: 220 }));
+        assertClose(levels.stopLossPrice, 196);
+        assertClose(levels.takeProfitPrice, 220);
+        assert.equal(resolveTradeLevels(strategy(), OrderSide.SHORT, 100, candidate({})).detail, 'SL 10.00% (strategy), TP 10.00% (strategy)');
+    });
+});
@@ -0,0 +1,49 @@
+import { TradeCandidate } from './decisionProvider';
+import { DEFAULT_STOP_LOSS_PCT, DEFAULT_TAKE_PROFIT_PCT } from './positionSizing';
+import { LevelBounds, OrderSide, Strategy } from './types';
+
+const DEFAULT_LEVEL_BOUNDS: Required<LevelBounds> = {
+    minStopLossPct: 0.5,
+    maxStopLossPct: 10,
+    minTakeProfitPct: 0.5,
+    maxTakeProfitPct: 20,
+};
+
+export interface TradeLevels {
+    takeProfitPrice: number;
+    stopLossPrice: number;
+    detail: string; // How each level was chosen, for the log
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Distance from entry as a whole percentage, and a description of where it came from.
+const resolveDistance = (level: number | undefined, entryPrice: number, fallbackPct: number, min: number, max: number) => {
+    if (level === undefined) {
+        return { pct: fallbackPct, detail: `${fallbackPct.toFixed(2)}% (strategy)` };
+    }
+    const proposed = Math.abs(level - entryPrice) / entryPrice * 100;
+    const pct = clamp(proposed, min, max);
+    return {
+        pct,
+        detail: pct === proposed ? `${pct.toFixed(2)}% (model)` : `${pct.toFixed(2)}% (model, bounded from ${proposed.toFixed(2)}%)`,
+    };
+};
+
+/**
+ * Stop-loss and take-profit prices for an entry at `entryPrice`. The candidate's own levels are
+ * used when present, kept within the strategy's distance bounds; otherwise the strategy's fixed
+ * percentages apply. Levels on the wrong side of the entry are rejected earlier, by validation.
+ */
+export const resolveTradeLevels = (strategy: Strategy, side: OrderSide, entryPrice: number, candidate: TradeCandidate): TradeLevels => {
+    const bounds = { ...DEFAULT_LEVEL_BOUNDS, ...strategy.levelBounds };
+    const stopLoss = resolveDistance(candidate.stopLoss, entryPrice, strategy.stopLossPct ?? DEFAULT_STOP_LOSS_PCT, bounds.minStopLossPct, bounds.maxStopLossPct);
+    const takeProfit = resolveDistance(candidate.takeProfit, entryPrice, strategy.takeProfitPct ?? DEFAULT_TAKE_PROFIT_PCT, bounds.minTakeProfitPct, bounds.maxTakeProfitPct);
+
+    const direction = side === OrderSide.LONG ? 1 : -1;
+    return {
+        stopLossPrice: entryPrice * (1 - direction * stopLoss.pct / 100),
+        takeProfitPrice: entryPrice * (1 + direction * takeProfit.pct / 100),
+        detail: `SL ${stopLoss.detail}, TP ${takeProfit.detail}`,
+    };
+};
@@ -1,28 +1,149 @@
-
+import fs from 'fs';
+import path from 'path';
 import { Trade } from './types';
+import { getDataDir } from './storage';
+
+// Trades are appended to one JSONL file per day (in the ledger timezone) under
+// <DATA_DIR>/trades, e.g. data/trades/2024-05-01.jsonl. Files are never rewritten.
+const PARTITION_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const REPORT_PATTERN = /^trades-(\d{4}-\d{2}-\d{2})\.csv$/;
+const CSV_COLUMNS: (keyof Trade)[] = ['timestamp', 'agentId', 'symbol', 'side', 'size', 'entryPrice', 'closePrice', 'pnl', 'id', 'orderId', 'leg', 'remainingSize', 'fees', 'fundingPaid', 'slippageBps', 'entryOrderIds', 'exitOrderIds'];
+
+export interface TradeQuery {
+    agentId?: string;
+    symbol?: string;
+    from?: string; // Inclusive partition date, YYYY-MM-DD
+    to?: string; // Inclusive partition date, YYYY-MM-DD
+}
+
+export const getLedgerTimezone = () => process.env.LEDGER_TIMEZONE || 'UTC';
+
+const getLedgerDir = () => path.join(getDataDir(), 'trades');
+
+// The calendar date (YYYY-MM-DD) of an instant in the ledger timezone.
+export const toLedgerDate = (date: Date): string => {
+    // en-CA formats dates as YYYY-MM-DD.
+    return new Intl.DateTimeFormat('en-CA', {
+        timeZone: getLedgerTimezone(),
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    }).format(date);
+};
 
-const trades: Trade[] = [];
+export const getTodayDate = () => toLedgerDate(new Date());
 
 export const logTrade = (trade: Trade) => {
-  trades.push(trade);
+    const dir = getLedgerDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, `${toLedgerDate(new Date(trade.timestamp))}.jsonl`);
+    fs.appendFileSync(file, JSON.stringify(trade) + '\n');
+};
+
+// Partition dates present on disk, newest first.
+export const listTradeDates = (): string[] => {
+    const dir = getLedgerDir();
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+        .map(file => PARTITION_PATTERN.exec(file)?.[1])
+        .filter((date): date is string => date !== undefined)
+        .sort()
+        .reverse();
+};
+
+const readPartition = (date: string): Trade[] => {
+    const file = path.join(getLedgerDir(), `${date}.jsonl`);
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as Trade];
+            } catch {
+                // A torn final line from a crash mid-write must not hide the rest of the day.
+                return [];
+            }
+        });
+};
+
+export const queryTrades = (query: TradeQuery = {}): Trade[] => {
+    return listTradeDates()
+        .filter(date => (!query.from || date >= query.from) && (!query.to || date <= query.to))
+        .reverse()
+        .flatMap(readPartition)
+        .filter(trade => (!query.agentId || trade.agentId === query.agentId) && (!query.symbol || trade.symbol === query.symbol));
 };
 
 export const getTodaysTrades = (): Trade[] => {
-  return [...trades];
+    const today = getTodayDate();
+    return queryTrades({ from: today, to: today });
 };
 
-export const getTodaysTradesAsCsv = (): string => {
-    const tradeData = getTodaysTrades();
+/**
+ * Folds the legs of positions closed in several parts into one trade per position, for figures
+ * that are about whole trades (win rate, Kelly sizing). Sizes and PnL are summed and the close
+ * price is the size-weighted average; the trade takes the timestamp of its last leg.
+ */
+export const combineTradeLegs = (trades: Trade[]): Trade[] => {
+    const combined: Trade[] = [];
+    const byId = new Map<string, Trade>();
+    for (const trade of trades) {
+        const previous = trade.leg !== undefined && trade.id ? byId.get(trade.id) : undefined;
+        if (!previous) {
+            const copy = { ...trade };
+            combined.push(copy);
+            if (trade.leg !== undefined && trade.id) byId.set(trade.id, copy);
+            continue;
+        }
+        const size = previous.size + trade.size;
+        previous.closePrice = (previous.closePrice * previous.size + trade.closePrice * trade.size) / size;
+        previous.size = size;
+        previous.pnl += trade.pnl;
+        previous.timestamp = trade.timestamp;
+        previous.leg = trade.leg;
+        previous.remainingSize = trade.remainingSize;
+        if (trade.fees !== undefined) previous.fees = (previous.fees ?? 0) + trade.fees;
+        if (trade.fundingPaid !== undefined) previous.fundingPaid = (previous.fundingPaid ?? 0) + trade.fundingPaid;
+        if (trade.exitOrderIds) previous.exitOrderIds = [...(previous.exitOrderIds ?? []), ...trade.exitOrderIds];
+        previous.entryOrderIds = previous.entryOrderIds ?? trade.entryOrderIds;
+        previous.slippageBps = previous.slippageBps ?? trade.slippageBps;
+    }
+    return combined;
+};
+
+export const tradesToCsv = (tradeData: Trade[], emptyMessage: string): string => {
+    const header = CSV_COLUMNS.join(',');
     if (tradeData.length === 0) {
-        return "timestamp,agentId,symbol,side,size,entryPrice,closePrice,pnl\nNo trades executed yet today.";
+        return `${header}\n${emptyMessage}`;
     }
 
-    const header = Object.keys(tradeData[0]).join(',');
-    const rows = tradeData.map(trade => 
-        Object.values(trade).map(value => 
-            typeof value === 'string' ? `"${value}"` : value
-        ).join(',')
+    const rows = tradeData.map(trade =>
+        CSV_COLUMNS.map(column => {
+            const value = trade[column];
+            if (Array.isArray(value)) return `"${value.join(';')}"`;
+            return typeof value === 'string' ? `"${value}"` : value;
+        }).join(',')
     );
 
     return [header, ...rows].join('\n');
 };
+
+export const getTodaysTradesAsCsv = (): string => {
+    return tradesToCsv(getTodaysTrades(), 'No trades executed yet today.');
+};
+
+// Past days with recorded trades, as downloadable report file names.
+export const listReports = (): string[] => {
+    const today = getTodayDate();
+    return listTradeDates()
+        .filter(date => date !== today)
+        .map(date => `trades-${date}.csv`);
+};
+
+// Returns null when the name is not a known report, so callers can 404.
+export const getReportCsv = (reportName: string): string | null => {
+    const date = REPORT_PATTERN.exec(reportName)?.[1];
+    if (!date || !listTradeDates().includes(date)) return null;
+    return tradesToCsv(queryTrades({ from: date, to: date }), 'No trades recorded on this day.');
+};
@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateStrategy } from './strategyValidation';
+import { getEntryBlock, getTimings, getTradingDay, isEmptyWindow, parseTimeOfDay } from './tradingSchedule';
+import { StrategySchedule, StrategyType } from './types';
+
+const at = (iso: string) => Date.parse(iso);
+
+// 2024-05-06 is a Monday.
+const MONDAY = '2024-05-06';
+const TUESDAY = '2024-05-07';
+
+describe('parseTimeOfDay', () => {
+    it('reads HH:MM up to 24:00', () => {
+        assert.equal(parseTimeOfDay('00:00'), 0);
+        assert.equal(parseTimeOfDay('13:30'), 810);
+        assert.equal(parseTimeOfDay('24:00'), 1440);
+    });
+
+    it('returns null for malformed or out of range times', () => {
+        assert.equal(parseTimeOfDay('24:01'), null);
+        assert.equal(parseTimeOfDay('12:60'), null);
+        assert.equal(parseTimeOfDay('9:30'), null);
+    });
+});
+
+describe('entry windows', () => {
+    const inWindows = (schedule: StrategySchedule, iso: string) => getEntryBlock(schedule, at(iso), 0) === null;
+
+    it('allows entries from the start of a window up to, not including, its end', () => {
+        const schedule = { entryWindows: [{ start: '13:30', end: '20:00' }] };
+        assert.equal(inWindows(schedule, `${MONDAY}T13:29:59Z`), false);
+        assert.equal(inWindows(schedule, `${MONDAY}T13:30:00Z`), true);
+        assert.equal(inWindows(schedule, `${MONDAY}T19:59:00Z`), true);
+        assert.equal(getEntryBlock(schedule, at(`${MONDAY}T20:00:00Z`), 0), 'outside trading hours');
+    });
+
+    it('runs a window past midnight, counting the early hours as the previous day', () => {
+        // Monday 22:00 to Tuesday 02:00 only.
+        const schedule = { entryWindows: [{ days: [1], start: '22:00', end: '02:00' }] };
+        assert.equal(inWindows(schedule, `${MONDAY}T21:59:00Z`), false);
+        assert.equal(inWindows(schedule, `${MONDAY}T23:00:00Z`), true);
+        assert.equal(inWindows(schedule, `${TUESDAY}T01:59:00Z`), true);
+        assert.equal(inWindows(schedule, `${TUESDAY}T02:00:00Z`), false);
+        assert.equal(inWindows(schedule, `${TUESDAY}T23:00:00Z`), false);
+        assert.equal(inWindows(schedule, `${MONDAY}T01:00:00Z`), false); // Sunday night's part
+    });
+
+    it('only opens on the listed weekdays and allows entries in any of several windows', () => {
+        const schedule = { entryWindows: [{ days: [1, 2, 3, 4, 5], start: '08:00', end: '12:00' }, { days: [0], start: '00:00', end: '24:00' }] };
+        assert.equal(inWindows(schedule, `${MONDAY}T09:00:00Z`), true);
+        assert.equal(inWindows(schedule, `${MONDAY}T13:00:00Z`), false);
+        assert.equal(inWindows(schedule, '2024-05-05T23:59:00Z'), true); // Sunday, whole day
+        assert.equal(inWindows(schedule, '2024-05-04T09:00:00Z'), false); // Saturday
+    });
+
+    it('allows entries at any time without windows', () => {
+        assert.equal(getEntryBlock(undefined, at(`${MONDAY}T03:00:00Z`), 0), null);
+        assert.equal(getEntryBlock({ entryWindows: [] }, at(`${MONDAY}T03:00:00Z`), 0), null);
+    });
+});
+
+describe('empty windows', () => {
+    it('treats windows that start when they end as never open, except the whole day', () => {
+        assert.equal(isEmptyWindow({ start: '13:30', end: '13:30' }), true);
+        assert.equal(isEmptyWindow({ start: '00:00', end: '00:00' }), true);
+        assert.equal(isEmptyWindow({ start: '24:00', end: '00:00' }), true);
+        assert.equal(isEmptyWindow({ start: '00:00', end: '24:00' }), false);
+        assert.equal(isEmptyWindow({ start: '22:00', end: '02:00' }), false);
+    });
+
+    it('are refused when a strategy is saved', () => {
+        const withWindow = (start: string, end: string) =>
+            validateStrategy({ id: 'T1', name: 'Test', type: StrategyType.PROFIT, prompt: 'Test.', schedule: { entryWindows: [{ start, end }] } });
+        const rejected = withWindow('13:30', '13:30');
+        assert.equal(rejected.status, 'rejected');
+        assert.match(rejected.status === 'rejected' ? rejected.reason : '', /^schedule\.entryWindows\[0\] starts and ends at the same time/);
+        assert.equal(withWindow('00:00', '00:00').status, 'rejected');
+        assert.equal(withWindow('00:00', '24:00').status, 'ok');
+        assert.equal(withWindow('22:00', '02:00').status, 'ok');
+    });
+});
+
+describe('blackouts', () => {
+    const schedule: StrategySchedule = {
+        blackouts: [{ start: `${MONDAY}T12:25:00Z`, end: `${MONDAY}T13:00:00Z`, reason: 'CPI release' }],
+        entryWindows: [{ start: '00:00', end: '24:00' }],
+    };
+
+    it('blocks entries from the start of a blackout up to its end, with the reason', () => {
+        assert.equal(getEntryBlock(schedule, at(`${MONDAY}T12:24:59Z`), 0), null);
+        assert.equal(getEntryBlock(schedule, at(`${MONDAY}T12:25:00Z`), 0), `blackout until ${MONDAY}T13:00:00Z (CPI release)`);
+        assert.equal(getEntryBlock(schedule, at(`${MONDAY}T13:00:00Z`), 0), null);
+    });
+
+    it('takes precedence over the trade cap and trading hours', () => {
+        const capped = { ...schedule, maxTradesPerDay: 1, entryWindows: [{ start: '00:00', end: '01:00' }] };
+        assert.match(getEntryBlock(capped, at(`${MONDAY}T12:30:00Z`), 1) ?? '', /^blackout/);
+    });
+});
+
+describe('trade caps', () => {
+    it('blocks entries once the day has its cap of trades', () => {
+        const schedule = { maxTradesPerDay: 2 };
+        assert.equal(getEntryBlock(schedule, at(`${MONDAY}T09:00:00Z`), 1), null);
+        assert.equal(getEntryBlock(schedule, at(`${MONDAY}T09:00:00Z`), 2), 'daily cap of 2 trade(s) reached');
+        assert.equal(getEntryBlock(undefined, at(`${MONDAY}T09:00:00Z`), 100), null);
+    });
+
+    it('starts the trading day at dayStartUtc', () => {
+        const schedule = { dayStartUtc: '08:00' };
+        assert.equal(getTradingDay(schedule, at(`${TUESDAY}T07:59:00Z`)), MONDAY);
+        assert.equal(getTradingDay(schedule, at(`${TUESDAY}T08:00:00Z`)), TUESDAY);
+        // Without one, the day is the ledger date (UTC unless LEDGER_TIMEZONE is set).
+        assert.equal(getTradingDay(undefined, at(`${TUESDAY}T00:00:00Z`)), TUESDAY);
+    });
+});
+
+describe('getTimings', () => {
+    it('fills in defaults and converts to milliseconds', () => {
+        const timings = getTimings({ timing: { holdCheckSec: 30, maxHoldMinutes: 240 } });
+        assert.equal(timings.holdCheck, 30 * 1000);
+        assert.equal(timings.maxHold, 240 * 60 * 1000);
+        assert.equal(timings.noTradeCooldown, 60 * 1000);
+    });
+});
@@ -0,0 +1,82 @@
+import { Blackout, StrategySchedule, TradingWindow } from './types';
+import { toLedgerDate } from './tradeLogger';
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const DAY_MINUTES = 24 * 60;
+
+// A strategy's timings in milliseconds, defaults filled in.
+export interface ScheduleTimings {
+    noTradeCooldown: number;
+    closeCooldown: number;
+    positionCheck: number;
+    holdCheck: number;
+    errorRetry: number;
+    errorPause: number;
+    maxHold: number;
+}
+
+export const getTimings = (schedule?: StrategySchedule): ScheduleTimings => {
+    const timing = schedule?.timing ?? {};
+    return {
+        noTradeCooldown: (timing.noTradeCooldownSec ?? 60) * SECOND_MS,
+        closeCooldown: (timing.closeCooldownSec ?? 120) * SECOND_MS,
+        positionCheck: (timing.positionCheckSec ?? 15) * SECOND_MS,
+        holdCheck: (timing.holdCheckSec ?? 60) * SECOND_MS,
+        errorRetry: (timing.errorRetrySec ?? 10) * SECOND_MS,
+        errorPause: (timing.errorPauseSec ?? 60) * SECOND_MS,
+        maxHold: (timing.maxHoldMinutes ?? 60) * MINUTE_MS,
+    };
+};
+
+// "HH:MM" to minutes after midnight, up to "24:00"; null when malformed.
+export const parseTimeOfDay = (value: string): number | null => {
+    const match = /^(\d{2}):(\d{2})$/.exec(value);
+    if (!match) return null;
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    return minutes < 60 && hours * 60 + minutes <= DAY_MINUTES ? hours * 60 + minutes : null;
+};
+
+// A window that ends when it starts is never open (see isInWindow); validation refuses it.
+export const isEmptyWindow = (window: TradingWindow): boolean => {
+    const start = parseTimeOfDay(window.start) ?? 0;
+    const end = parseTimeOfDay(window.end) ?? DAY_MINUTES;
+    return start === end || (start === DAY_MINUTES && end === 0);
+};
+
+const isInWindow = (window: TradingWindow, date: Date): boolean => {
+    const minute = date.getUTCHours() * 60 + date.getUTCMinutes();
+    const start = parseTimeOfDay(window.start) ?? 0;
+    const end = parseTimeOfDay(window.end) ?? DAY_MINUTES;
+    const onDay = (day: number) => !window.days || window.days.includes(day);
+    if (start <= end) {
+        return onDay(date.getUTCDay()) && minute >= start && minute < end;
+    }
+    // Runs past midnight: the early-morning part belongs to the previous day's window.
+    return minute >= start ? onDay(date.getUTCDay()) : minute < end && onDay((date.getUTCDay() + 6) % 7);
+};
+
+export const getActiveBlackout = (schedule: StrategySchedule | undefined, now: number): Blackout | null =>
+    schedule?.blackouts?.find(b => Date.parse(b.start) <= now && now < Date.parse(b.end)) ?? null;
+
+// The trading day a moment belongs to, as YYYY-MM-DD; tradesToday resets when it changes.
+export const getTradingDay = (schedule: StrategySchedule | undefined, now: number): string => {
+    const dayStart = schedule?.dayStartUtc ? parseTimeOfDay(schedule.dayStartUtc) : null;
+    return dayStart === null ? toLedgerDate(new Date(now)) : new Date(now - dayStart * MINUTE_MS).toISOString().slice(0, 10);
+};
+
+// Why the agent may not open a new position right now, or null when it may.
+export const getEntryBlock = (schedule: StrategySchedule | undefined, now: number, tradesToday: number): string | null => {
+    const blackout = getActiveBlackout(schedule, now);
+    if (blackout) {
+        return `blackout until ${blackout.end}${blackout.reason ? ` (${blackout.reason})` : ''}`;
+    }
+    if (schedule?.maxTradesPerDay !== undefined && tradesToday >= schedule.maxTradesPerDay) {
+        return `daily cap of ${schedule.maxTradesPerDay} trade(s) reached`;
+    }
+    if (schedule?.entryWindows?.length && !schedule.entryWindows.some(w => isInWindow(w, new Date(now)))) {
+        return 'outside trading hours';
+    }
+    return null;
+};
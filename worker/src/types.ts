@@ -1,10 +1,15 @@
 
+import { KlineInterval } from './candles';
+
 export enum AgentState {
   STOPPED = 'STOPPED',
   ANALYZING = 'ANALYZING',
   EXECUTING = 'EXECUTING',
+  PENDING_ENTRY = 'PENDING_ENTRY', // Waiting for a limit entry order to fill
   HOLDING = 'HOLDING',
   COOLDOWN = 'COOLDOWN',
+  PAUSED = 'PAUSED',
+  HALTED = 'HALTED',
   ERROR = 'ERROR',
 }
 
@@ -20,7 +25,13 @@ export interface Agent {
   state: AgentState;
   balance: number;
   pnl: number;
+  longPnl: number; // Realized PnL from LONG trades
+  shortPnl: number; // Realized PnL from SHORT trades
   tradesToday: number;
+  rejectedDecisions: number; // Trade decisions that failed validation
+  pausePending: boolean; // Pause requested; takes effect once the open position closes
+  haltReason: string | null; // Why the risk manager halted the agent, if it did
+  entryBlockedReason?: string | null; // Why new entries are on hold, e.g. outside trading hours or the daily trade cap
 }
 
 export enum OrderSide {
@@ -36,6 +47,38 @@ export interface Position {
   unrealizedPnl: number;
   agentId: string;
   entryTimestamp: number;
+  tradeId?: string; // Links the position's decisions to the Trade recorded when it closes
+  orderId?: string; // Entry order ID
+  exitOrderId?: string; // Latest order that reduced the position (close, TP/SL or scale-out), once known
+  exitOrders?: number; // Closing orders the agent sent so far; numbers their orderLinkIds
+  decisionPrice?: number; // Price when the entry was decided; entry slippage is measured from it
+  decidedAt?: number; // When the entry was decided (ms); the trade's fills are looked up from then
+  stopLoss?: number; // Current stop, as set at entry or moved since
+  takeProfit?: number;
+  bestPrice?: number; // Most favorable price seen while holding; trailing stops follow it
+  stopChanges?: StopChange[]; // Oldest first
+  initialSize?: number; // Size at entry; `size` is what is still open after partial closes
+  realizedPnl?: number; // Booked so far by partial closes
+  legs?: PositionLeg[]; // Partial closes, oldest first
+  scaleOutStep?: number; // Scale-out ladder legs taken or skipped so far
+}
+
+// One partial close of a position by the strategy's scale-out ladder.
+export interface PositionLeg {
+  timestamp: number;
+  size: number;
+  closePrice: number;
+  pnl: number;
+  reason: string;
+  orderId?: string;
+}
+
+// One move of a position's stop loss by the agent's stop management rules.
+export interface StopChange {
+  timestamp: number;
+  from: number | null; // null when the position had no stop
+  to: number;
+  reason: string;
 }
 
 export interface LogEntry {
@@ -44,19 +87,285 @@ export interface LogEntry {
   message: string;
 }
 
+export interface KillSwitchStatus {
+  engaged: boolean;
+  engagedAt?: string;
+  reason?: string;
+}
+
+export interface EmergencyFlattenResult {
+  agentId: string;
+  closed: string[]; // Symbols confirmed flat on the exchange
+  stillOpen: string[]; // Symbols still open when the wait timed out
+  errors: string[];
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+// One call to a decision provider, as persisted in the decision audit trail.
+export interface DecisionRecord {
+  id: string;
+  timestamp: string;
+  agentId: string;
+  kind: 'trade' | 'hold';
+  provider: string; // Backend and model, e.g. "gemini:gemini-2.5-flash"
+  prompt: string | null; // Exact text sent to the model; null for rule-based providers
+  rawResponse: string | null;
+  decision: unknown; // Parsed trade decision, or 'HOLD' / 'CLOSE'
+  symbol?: string;
+  side?: OrderSide;
+  reason?: string;
+  confidence?: string;
+  latencyMs: number;
+  attempt?: number; // 1 for the first answer; higher when the model was re-asked after an invalid one
+  usage?: TokenUsage;
+  error?: string;
+  outcome: string; // What the agent did with it, e.g. "opened", "rejected: ...", "HOLD"
+  tradeId?: string; // The position (and later the closed Trade) this decision opened or managed
+  orderId?: string; // Entry order placed on this decision
+  candidateRank?: number; // Which of the model's ranked candidates was traded, 1 = best
+}
+
 export interface ApiStatusResponse {
   agents: Agent[];
   openPositions: Position[];
   logs: LogEntry[];
   reports: string[];
+  killSwitch: KillSwitchStatus;
+}
+
+// Pushed to the dashboard over /events. seq increases by one per event, so a client that reconnects
+// with the last seq it saw gets exactly what it missed, or a fresh snapshot if that is no longer buffered.
+export type DashboardEventPayload =
+  | { type: 'snapshot'; status: ApiStatusResponse } // Replaces everything the client holds
+  | { type: 'agent'; agent: Agent } // State transition or changed figures
+  | { type: 'position'; agentId: string; position: Position | null } // PnL tick, open or close; null when flat
+  | { type: 'log'; entry: LogEntry }
+  | { type: 'trade'; trade: Trade }
+  | { type: 'killSwitch'; killSwitch: KillSwitchStatus };
+
+export type DashboardEvent = DashboardEventPayload & { seq: number };
+
+// Access levels, lowest first: viewers read status and reports, operators also run and flatten
+// agents, admins also manage users, API tokens, risk limits and strategies.
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export interface AuthUser {
+  username: string;
+  role: Role;
+}
+
+// A long-lived token for API clients. The token itself is only shown once, when it is created.
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  createdBy: string;
+  lastUsedAt?: string;
+}
+
+// One privileged request, as recorded in the audit log.
+export interface AuditEntry {
+  timestamp: string;
+  actor: string; // Username, "token:<name>" for API tokens, or "anonymous" when signed out
+  role?: Role;
+  action: string; // e.g. "agent.start", "auth.login"
+  target?: string; // e.g. the agent ID
+  detail?: string;
+  status: number; // HTTP status of the response
+}
+
+// Result of checking an exchange API key's permissions before an agent may trade with it.
+export interface KeyPermissionCheck {
+  checkedAt: string;
+  canTradeDerivatives: boolean;
+  canWithdraw: boolean;
+  ipRestricted: boolean; // False means the key works from any IP address
+  expiresAt?: string;
+  problems: string[]; // Why the agent may not use the key; empty when it may
+}
+
+// An agent's exchange credentials as the API shows them: never the secret, only the key's last characters.
+export interface CredentialInfo {
+  agentId: string;
+  keyHint: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+  permissions?: KeyPermissionCheck; // The latest check, if one has run
+}
+
+// One saved version of a strategy; versions are never edited, each change adds one.
+export interface StrategyVersion {
+  version: number; // 1-based per strategy
+  createdAt: string;
+  createdBy: string;
+  strategy: Strategy;
+}
+
+export interface StrategyRecord {
+  id: string;
+  versions: StrategyVersion[]; // Oldest first; the last one is what agents run
+  deletedAt?: string; // Deleted strategies keep their history
+  deletedBy?: string;
 }
 
 // Backend-specific types
+
+// How an agent turns its balance into an order size. Percentages are whole numbers (2 = 2%).
+export type SizingModel =
+    // A fixed position value in USD, regardless of balance.
+    | { type: 'fixedNotional'; notional: number }
+    // A share of the balance used as margin; position value = margin x leverage.
+    | { type: 'percentOfBalance'; percent: number }
+    // Size so that hitting the stop loss loses `riskPercent` of the balance.
+    | { type: 'fixedFractional'; riskPercent: number }
+    // Size so that an adverse move of `atrMultiple` ATRs loses `riskPercent` of the balance.
+    | { type: 'volatilityScaled'; riskPercent: number; atrMultiple: number; atrPeriod?: number; interval?: KlineInterval }
+    // Fractional Kelly from the agent's own trade history, capped; used as the risk percent at the stop.
+    | { type: 'kelly'; fraction: number; maxRiskPercent: number; lookbackTrades?: number; minTrades?: number; fallbackRiskPercent: number };
+
+// An indicator to compute for each candidate symbol. Periods default to the usual values
+// (RSI 14, Bollinger 20 x 2, ATR 14, MACD 12/26/9, volume z-score 20).
+export type IndicatorConfig =
+    | { type: 'rsi'; period?: number }
+    | { type: 'sma'; period: number }
+    | { type: 'ema'; period: number }
+    | { type: 'bollinger'; period?: number; multiplier?: number }
+    | { type: 'atr'; period?: number }
+    | { type: 'macd'; fast?: number; slow?: number; signal?: number }
+    | { type: 'volumeZScore'; period?: number };
+
+// Indicators computed on one candle interval and added to the prompt's market context.
+export interface TimeframeContext {
+    interval: KlineInterval;
+    indicators: IndicatorConfig[];
+}
+
+// How far the model's stop-loss and take-profit may sit from the entry price, as whole
+// percentages. Levels outside the bounds are moved to the nearest bound.
+export interface LevelBounds {
+    minStopLossPct?: number; // Default 0.5
+    maxStopLossPct?: number; // Default 10
+    minTakeProfitPct?: number; // Default 0.5
+    maxTakeProfitPct?: number; // Default 20
+}
+
+// Closes part of the position once the price has moved profitPct (a whole-number price move from
+// the entry) in favor. closePct is a share of the size at entry; whatever is left after the ladder
+// runs until the TP, the (possibly trailing) stop or a CLOSE decision.
+export interface ScaleOutLeg {
+    profitPct: number;
+    closePct: number;
+}
+
+// How entry orders are placed; exits are always sent at market. Limit and post-only orders are
+// priced off the mid price, or at the model's entry price when it proposes a limit entry.
+export interface EntryOrderConfig {
+    type: 'market' | 'limit' | 'postOnly';
+    offsetBps?: number; // Distance from mid on the passive side (below for LONG), in basis points. Default 0
+    timeInForce?: 'GTC' | 'IOC' | 'FOK'; // Limit orders only. Default GTC; post-only orders always rest
+    fillTimeoutSec?: number; // How long to wait for a fill before cancel/replace. Default 30
+    maxReplaces?: number; // Re-priced orders for the unfilled rest before giving up. Default 2
+}
+
+// A limit entry the agent is waiting on in PENDING_ENTRY; persisted so a restart can resume it.
+export interface PendingEntry {
+    symbol: string;
+    side: OrderSide;
+    tradeId: string;
+    orderId: string; // The working order
+    qty: number; // Total size wanted
+    filledQty: number; // Filled by earlier, already replaced orders
+    price: string; // Limit price of the working order
+    takeProfit: string;
+    stopLoss: string;
+    placedAt: number; // When the working order was placed (ms)
+    replaces: number;
+    decisionPrice?: number; // Price when the entry was decided
+    decidedAt?: number; // ms
+}
+
+// Moves the stop loss while HOLDING; the stop only ever tightens. Percentages are whole-number
+// price moves from the entry price (not leveraged returns).
+export interface StopManagementConfig {
+    // Once the price has moved triggerPct in favor, stop at entry (plus offsetPct, e.g. to cover fees).
+    breakEven?: { triggerPct: number; offsetPct?: number };
+    // Lock in stopPct once the price has moved profitPct in favor.
+    steps?: { profitPct: number; stopPct: number }[];
+    // Follow the best price seen at a fixed distance, once the price has moved activationPct in favor.
+    trailing?:
+        | { type: 'percent'; distancePct: number; activationPct?: number }
+        | { type: 'atr'; atrMultiple: number; atrPeriod?: number; interval?: KlineInterval; activationPct?: number };
+}
+
+// How long the agent waits between steps, in seconds unless noted. The defaults are the timings
+// agents always used.
+export interface StrategyTiming {
+    noTradeCooldownSec?: number; // After passing on a trade: low confidence, no decision, rejected candidates or an abandoned entry. Default 60
+    closeCooldownSec?: number; // After a position closes. Default 120
+    positionCheckSec?: number; // Before the first check of a new position. Default 15
+    holdCheckSec?: number; // Between hold decisions. Default 60
+    errorRetrySec?: number; // After an error, before the agent looks at it. Default 10
+    errorPauseSec?: number; // In ERROR, before resuming. Default 60
+    maxHoldMinutes?: number; // An open position is closed after this long. Default 60
+}
+
+// A recurring UTC time range in which new entries are allowed. `end` before `start` runs past
+// midnight; "24:00" is the end of the day.
+export interface TradingWindow {
+    days?: number[]; // UTC weekdays, 0 = Sunday. Default: every day
+    start: string; // "HH:MM"
+    end: string; // "HH:MM"
+}
+
+// A one-off period without new entries, e.g. around a scheduled announcement.
+export interface Blackout {
+    start: string; // ISO 8601
+    end: string; // ISO 8601
+    reason?: string;
+    flatten?: boolean; // Also close an open position when the blackout starts. Default false
+}
+
+// When the agent may open new positions. Positions already open are always managed.
+export interface StrategySchedule {
+    timing?: StrategyTiming;
+    entryWindows?: TradingWindow[]; // Entries only inside one of these. Default: any time
+    blackouts?: Blackout[];
+    maxTradesPerDay?: number; // Entries per trading day. Default: no cap
+    dayStartUtc?: string; // "HH:MM" UTC at which tradesToday resets. Default: midnight in LEDGER_TIMEZONE
+}
+
+// Which backend makes the strategy's trade/hold decisions.
+export type DecisionProviderConfig =
+    | { provider: 'gemini'; model?: string }
+    // Any OpenAI-compatible chat completions server; see OPENAI_BASE_URL / OPENAI_API_KEY.
+    | { provider: 'openai'; model?: string; baseUrl?: string }
+    // Deterministic 24h-momentum rules, no model calls.
+    | { provider: 'rules'; minChangePct?: number; takeProfitPnl?: number; stopLossPnl?: number };
+
 export interface Strategy {
     id: string;
     name: string;
     type: StrategyType;
     prompt: string;
+    decision?: DecisionProviderConfig; // Default: DECISION_PROVIDER env, then Gemini
+    allowedSides?: OrderSide[]; // Directions the model may pick per trade. Default: both
+    context?: TimeframeContext[]; // Indicators added to the market context. Default: tickers only
+    sizing?: SizingModel; // Default: fixed $100 notional
+    leverage?: number; // Default: 10x
+    takeProfitPct?: number; // Distance from entry when the model proposes no level, default 10
+    stopLossPct?: number; // Distance from entry when the model proposes no level, default 10
+    levelBounds?: LevelBounds; // Limits on model-proposed levels
+    entryOrder?: EntryOrderConfig; // Default: market entries
+    stopManagement?: StopManagementConfig; // Default: the stop set at entry never moves
+    scaleOut?: ScaleOutLeg[]; // Default: positions are closed all at once
+    schedule?: StrategySchedule; // Default: the timings above, entries at any time, no trade cap
 }
 
 export interface Trade {
@@ -68,4 +377,51 @@ export interface Trade {
     entryPrice: number;
     closePrice: number;
     pnl: number;
+    id?: string; // The position's tradeId; absent on trades recorded before decisions were audited
+    orderId?: string; // Entry order ID
+    leg?: number; // 1-based close of a position closed in several legs; absent when closed at once
+    remainingSize?: number; // Size still open after this leg; 0 on the final leg
+    // From the trade's fills; absent on trades recorded without them. pnl is net of fees and funding.
+    entryOrderIds?: string[]; // Every entry order that filled, replaced limit orders included
+    exitOrderIds?: string[]; // The agent's closes, triggered TP/SL or liquidation orders that closed it
+    fees?: number; // Entry fees (this leg's share) plus exit fees, in USDT
+    fundingPaid?: number; // Funding paid while open; negative when received
+    slippageBps?: number; // Average entry fill vs the price when the trade was decided; positive is worse
+}
+
+export interface Candle {
+    timestamp: number; // Candle open time (ms)
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+// Backtesting types
+export interface EquityPoint {
+    timestamp: number;
+    equity: number;
+}
+
+export interface BacktestStats {
+    strategyId: string;
+    strategyName: string;
+    startingBalance: number;
+    endingEquity: number;
+    netPnl: number;
+    returnPct: number;
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    averagePnl: number;
+    profitFactor: number | null;
+    maxDrawdownPct: number;
+}
+
+export interface BacktestResult {
+    stats: BacktestStats;
+    equityCurve: EquityPoint[];
+    trades: Trade[];
 }